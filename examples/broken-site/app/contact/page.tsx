@@ -1,4 +1,4 @@
-// Violations: input-label (inputs/textarea/select without labels)
+// Violations: input-label (inputs/textarea/select without labels), iframe-title
 // Contact has metadata so no next-metadata-title
 export const metadata = { title: "Contact" };
 
@@ -14,6 +14,7 @@ export default function ContactPage() {
         <option>Support</option>
       </select>
       <button type="submit">Send</button>
+      <iframe src="https://www.google.com/maps/embed?pb=!1m18!1m12" width="600" height="300" />
     </form>
   );
 }
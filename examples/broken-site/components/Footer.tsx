@@ -1,7 +1,9 @@
-// Violations: emoji-alt (🔥, 🚀), link-noopener (target="_blank" without rel)
+// Violations: emoji-alt (🔥, 🚀), link-noopener (target="_blank" without rel),
+// svg-label (logo without accessible name)
 export function Footer() {
   return (
     <footer>
+      <svg className="footer-logo" viewBox="0 0 120 32"><path d="M4 28 16 4l12 24" /></svg>
       <p>Made with <span role="img" aria-label="fire">🔥</span> by our team</p>
       <p>Follow us <span role="img" aria-label="rocket">🚀</span></p>
       <a href="https://twitter.com" target="_blank" rel="noopener noreferrer">Twitter</a>
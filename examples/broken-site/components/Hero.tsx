@@ -1,4 +1,5 @@
-// Violations: img-alt (no alt), next-image-sizes (fill without sizes)
+// Violations: img-alt (no alt), next-image-sizes (fill without sizes),
+// media-captions (autoplay video without controls; captions in public/hero-video.vtt)
 import Image from "next/image";
 
 export function Hero() {
@@ -6,6 +7,7 @@ export function Hero() {
     <section>
       <Image src="/hero.jpg" fill />
       <h1>Welcome to Our Site</h1>
+      <video src="/hero-video.mp4" autoPlay />
     </section>
   );
 }
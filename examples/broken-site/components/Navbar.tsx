@@ -1,9 +1,10 @@
-// Violations: link-label (icon-only links), next-link-no-nested-a (Link with <a>)
+// Violations: link-label (icon-only links), next-link-no-nested-a (Link with <a>),
+// svg-label (icon svgs not hidden), aria-valid (redundant role, misspelled aria-label)
 import Link from "next/link";
 
 export function Navbar() {
   return (
-    <nav>
+    <nav role="navigation" aria-lable="Main">
       <Link href="/" className="nav-link">Home</Link>
       <Link href="/about" className="nav-link">About</Link>
       <a href="https://twitter.com"><TwitterIcon /></a>
@@ -1,5 +1,5 @@
 "use client";
-// Violations: button-label (icon-only button), input-label (input without label)
+// Violations: button-label (icon-only button), input-label (input without label), svg-label (icon svgs not hidden)
 export function SearchForm() {
   return (
     <form role="search">
@@ -1,5 +1,5 @@
 "use client";
-// Violations: button-label (icon-only), button-type (no type)
+// Violations: button-label (icon-only), button-type (no type), svg-label (icon svgs not hidden)
 export function Sidebar() {
   const toggle = () => {};
   const close = () => {};
@@ -1,5 +1,5 @@
 "use client";
-// Violations: button-label (icon-only), button-type (no type attribute)
+// Violations: button-label (icon-only), button-type (no type attribute), svg-label (icon svgs not hidden)
 export function ThemeToggle() {
   const toggle = () => {};
 
@@ -0,0 +1,60 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { generateText } from "ai";
+import { createProvider } from "./create-provider.js";
+import { resolveProviderOptions } from "../config/schema.js";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("resolveProviderOptions", () => {
+  it("defaults the API key env var to the provider's standard one", () => {
+    expect(resolveProviderOptions("openai").apiKeyEnv).toBe("OPENAI_API_KEY");
+    expect(resolveProviderOptions("openai-compatible").apiKeyEnv).toBeNull();
+    expect(resolveProviderOptions("openai", { apiKeyEnv: "GATEWAY_KEY" }).apiKeyEnv).toBe("GATEWAY_KEY");
+  });
+
+  it("rejects an invalid baseURL or timeout", () => {
+    expect(() => resolveProviderOptions("ollama", { baseURL: "gpu-box:11434" })).toThrow(/invalid baseURL/);
+    expect(() => resolveProviderOptions("openai", { timeout: -1 })).toThrow(/timeout/);
+  });
+});
+
+describe("createProvider", () => {
+  it("requires the configured API key env var", () => {
+    const options = resolveProviderOptions("openai", { apiKeyEnv: "GATEWAY_KEY" });
+    expect(() => createProvider("openai", "gpt-4o-mini", options)).toThrow(
+      "openai requires GATEWAY_KEY. Set it in .env or your environment."
+    );
+  });
+
+  it("passes baseURL and headers to the provider", async () => {
+    vi.stubEnv("GATEWAY_KEY", "secret");
+    const requests: Request[] = [];
+    vi.stubGlobal("fetch", async (input: RequestInfo | URL, init?: RequestInit) => {
+      requests.push(new Request(input, init));
+      return new Response("unavailable", { status: 503 });
+    });
+    const options = resolveProviderOptions("openai", {
+      baseURL: "https://llm.internal.example.com/v1",
+      headers: { "x-team": "web" },
+      apiKeyEnv: "GATEWAY_KEY",
+    });
+    const model = createProvider("openai", "gpt-4o-mini", options);
+
+    await expect(generateText({ model, prompt: "Hi", maxRetries: 0 })).rejects.toThrow();
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toMatch(/^https:\/\/llm\.internal\.example\.com\/v1\//);
+    expect(requests[0].headers.get("authorization")).toBe("Bearer secret");
+    expect(requests[0].headers.get("x-team")).toBe("web");
+    expect(await requests[0].json()).toMatchObject({ model: "gpt-4o-mini" });
+  });
+
+  it("requires a baseURL and model for openai-compatible", () => {
+    const options = resolveProviderOptions("openai-compatible");
+    expect(() => createProvider("openai-compatible", "llama-3.1-8b", options)).toThrow(/requires a baseURL/);
+    const withUrl = resolveProviderOptions("openai-compatible", { baseURL: "http://vllm:8000/v1" });
+    expect(() => createProvider("openai-compatible", "", withUrl)).toThrow(/requires a model/);
+  });
+});
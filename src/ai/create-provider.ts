@@ -1,30 +1,69 @@
 import { createRequire } from "node:module";
 import * as path from "node:path";
 import type { LanguageModel } from "ai";
-import type { ProviderName } from "../config/schema.js";
-import { PROVIDER_ENV } from "../config/schema.js";
+import type { ProviderName, ResolvedProviderOptions } from "../config/schema.js";
+import { createMockModel } from "./mock-provider.js";
 
-const PROVIDER_PACKAGES: Record<ProviderName, string> = {
+/** Providers backed by an AI SDK package (mock is built in) */
+type PackageProviderName = Exclude<ProviderName, "mock">;
+
+const PROVIDER_PACKAGES: Record<PackageProviderName, string> = {
   openai: "@ai-sdk/openai",
   anthropic: "@ai-sdk/anthropic",
   google: "@ai-sdk/google",
   ollama: "ollama-ai-provider",
   openrouter: "@openrouter/ai-sdk-provider",
+  "openai-compatible": "@ai-sdk/openai-compatible",
+};
+
+/** Factory export of each package — accepts apiKey, baseURL and headers */
+const PROVIDER_FACTORIES: Record<PackageProviderName, string> = {
+  openai: "createOpenAI",
+  anthropic: "createAnthropic",
+  google: "createGoogleGenerativeAI",
+  ollama: "createOllama",
+  openrouter: "createOpenRouter",
+  "openai-compatible": "createOpenAICompatible",
 };
 
-const PROVIDER_INSTALL: Record<ProviderName, string> = {
+const PROVIDER_INSTALL: Record<PackageProviderName, string> = {
   openai: "npm install -D @ai-sdk/openai",
   anthropic: "npm install -D @ai-sdk/anthropic",
   google: "npm install -D @ai-sdk/google",
   ollama: "npm install -D ollama-ai-provider",
   openrouter: "npm install -D @openrouter/ai-sdk-provider",
+  "openai-compatible": "npm install -D @ai-sdk/openai-compatible",
 };
 
 export function createProvider(
   provider: ProviderName,
-  model: string
+  model: string,
+  options: ResolvedProviderOptions
 ): LanguageModel {
+  if (provider === "mock") return createMockModel(model, options.mock);
+
   const pkg = PROVIDER_PACKAGES[provider];
+  if (!pkg) throw new Error(`Unknown provider: ${provider}`);
+
+  // Validate config before loading the package, so setup errors come first
+  if (provider === "openai-compatible") {
+    if (!options.baseURL) {
+      throw new Error(
+        `openai-compatible requires a baseURL. Set providers["openai-compatible"].baseURL in a11y.config.ts.`
+      );
+    }
+    if (!model) {
+      throw new Error(`openai-compatible requires a model. Set model in a11y.config.ts or pass --model.`);
+    }
+  }
+
+  const envVar = options.apiKeyEnv;
+  const apiKey = envVar ? process.env[envVar] : undefined;
+  if (envVar && !apiKey) {
+    throw new Error(
+      `${provider} requires ${envVar}. Set it in .env or your environment.`
+    );
+  }
 
   // Resolve from the user's project directory, not from next-a11y's install location.
   // This is needed when running via bunx/npx where next-a11y is in a temp cache.
@@ -43,36 +82,17 @@ export function createProvider(
     );
   }
 
-  switch (provider) {
-    case "openai":
-    case "anthropic":
-    case "google": {
-      const envVar = PROVIDER_ENV[provider];
-      if (envVar && !process.env[envVar]) {
-        throw new Error(
-          `${provider} requires ${envVar}. Set it in .env or your environment.`
-        );
-      }
-      const fn = mod[provider];
-      return fn(model);
-    }
-    case "ollama": {
-      const { ollama } = mod;
-      return ollama(model);
-    }
-    case "openrouter": {
-      const envVar = PROVIDER_ENV.openrouter!;
-      const apiKey = process.env[envVar];
-      if (!apiKey) {
-        throw new Error(
-          `openrouter requires ${envVar}. Set it in .env or your environment.`
-        );
-      }
-      const { createOpenRouter } = mod;
-      const openrouter = createOpenRouter({ apiKey });
-      return openrouter(model);
-    }
-    default:
-      throw new Error(`Unknown provider: ${provider}`);
+  const settings = {
+    ...(apiKey ? { apiKey } : {}),
+    ...(options.baseURL ? { baseURL: options.baseURL } : {}),
+    ...(Object.keys(options.headers).length > 0 ? { headers: options.headers } : {}),
+  };
+
+  if (provider === "openai-compatible") {
+    const { createOpenAICompatible } = mod;
+    return createOpenAICompatible({ name: "openai-compatible", ...settings }).chatModel(model);
   }
+
+  const factory = mod[PROVIDER_FACTORIES[provider]];
+  return factory(settings)(model);
 }
@@ -0,0 +1,144 @@
+import type { Project } from "ts-morph";
+import type { RuleId, Violation } from "../scan/types.js";
+import type { ProviderName, ResolvedConfig } from "../config/schema.js";
+import { FsCache } from "../cache/fs-cache.js";
+import { estimateTokens } from "./generate.js";
+import { getPendingAiViolations, getSupportedLocales, prepareAiRequest } from "./resolve-fixes.js";
+
+/** USD per 1M tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices for common models (USD per 1M tokens), matched by model id prefix.
+ * Approximate — override with `ai.pricing` for other models or negotiated rates.
+ */
+const MODEL_PRICING: [prefix: string, pricing: ModelPricing][] = [
+  ["gpt-4o-mini", { input: 0.15, output: 0.6 }],
+  ["gpt-4o", { input: 2.5, output: 10 }],
+  ["gpt-4.1-nano", { input: 0.1, output: 0.4 }],
+  ["gpt-4.1-mini", { input: 0.4, output: 1.6 }],
+  ["gpt-4.1", { input: 2, output: 8 }],
+  ["claude-haiku-4-5", { input: 1, output: 5 }],
+  ["claude-3-5-haiku", { input: 0.8, output: 4 }],
+  ["claude-sonnet-4", { input: 3, output: 15 }],
+  ["gemini-2.0-flash-lite", { input: 0.075, output: 0.3 }],
+  ["gemini-2.0-flash", { input: 0.1, output: 0.4 }],
+  ["gemini-2.5-flash-lite", { input: 0.1, output: 0.4 }],
+  ["gemini-2.5-flash", { input: 0.3, output: 2.5 }],
+];
+
+/**
+ * Typical completion length per rule, including the JSON wrapper and rationale:
+ * alt text runs longer than labels and titles
+ */
+const OUTPUT_TOKENS: Partial<Record<RuleId, number>> = {
+  "img-alt": 70,
+};
+const DEFAULT_OUTPUT_TOKENS = 45;
+
+export interface RuleEstimate {
+  rule: RuleId;
+  /** Requests that will be sent to the model */
+  requests: number;
+  /** Answered from the cache or icon heuristics — free */
+  cached: number;
+  /** Images that can't be resolved; skipped without a request */
+  skipped: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AiEstimate {
+  provider: ProviderName | undefined;
+  model: string;
+  rules: RuleEstimate[];
+  requests: number;
+  cached: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Undefined when the model's pricing is unknown */
+  costUsd?: number;
+  /** Remote images counted at a flat rate; their cache hits can't be known offline */
+  remoteImages: number;
+  /** ai.maxTokens, if set */
+  maxTokens?: number;
+}
+
+export function getModelPricing(config: ResolvedConfig): ModelPricing | undefined {
+  if (config.ai.pricing) return config.ai.pricing;
+  if (config.provider === "ollama" || config.provider === "mock") return { input: 0, output: 0 };
+  // openrouter ids are "vendor/model"
+  const model = config.model.split("/").pop() ?? config.model;
+  return MODEL_PRICING.find(([prefix]) => model.startsWith(prefix))?.[1];
+}
+
+/**
+ * Estimate the AI work of a --fix run without calling the model: pending AI
+ * violations minus cache hits, with approximate prompt/image and output tokens.
+ */
+export async function estimateAiFixes(opts: {
+  config: ResolvedConfig;
+  project: Project;
+  violations: Violation[];
+}): Promise<AiEstimate> {
+  const { config, project, violations } = opts;
+  const cache = new FsCache(config.cache);
+  const byRule = new Map<RuleId, RuleEstimate>();
+  let remoteImages = 0;
+
+  for (const violation of getPendingAiViolations(violations)) {
+    const file = project.getSourceFile(violation.filePath);
+    if (!file) continue;
+
+    let entry = byRule.get(violation.rule);
+    if (!entry) {
+      entry = { rule: violation.rule, requests: 0, cached: 0, skipped: 0, inputTokens: 0, outputTokens: 0 };
+      byRule.set(violation.rule, entry);
+    }
+
+    // `[locale]` routes get one value per supported locale
+    const locales = violation.fix?.localeParam ? getSupportedLocales(config) : [config.locale];
+    for (const locale of locales) {
+      const request = await prepareAiRequest(project, file, violation, { ...config, locale }, { offline: true });
+      if (!request) {
+        entry.skipped++;
+        continue;
+      }
+      const cached = request.cacheKey ? cache.get(request.cacheKey) : undefined;
+      if (request.heuristic || (cached && cached.locale === locale)) {
+        entry.cached++;
+        continue;
+      }
+
+      if (request.remoteImage) remoteImages++;
+      entry.requests++;
+      entry.inputTokens += estimateTokens(request.system, request.prompt, Boolean(request.image || request.remoteImage));
+      entry.outputTokens += OUTPUT_TOKENS[violation.rule] ?? DEFAULT_OUTPUT_TOKENS;
+    }
+  }
+
+  const rules = [...byRule.values()];
+  const sum = (key: "requests" | "cached" | "inputTokens" | "outputTokens") =>
+    rules.reduce((total, r) => total + r[key], 0);
+  const inputTokens = sum("inputTokens");
+  const outputTokens = sum("outputTokens");
+  const pricing = getModelPricing(config);
+
+  return {
+    provider: config.provider,
+    model: config.model,
+    rules,
+    requests: sum("requests"),
+    cached: sum("cached"),
+    inputTokens,
+    outputTokens,
+    costUsd: pricing
+      ? (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000
+      : undefined,
+    remoteImages,
+    maxTokens: config.ai.maxTokens,
+  };
+}
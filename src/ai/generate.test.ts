@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { generate } from "./generate.js";
+import { createMockModel } from "./mock-provider.js";
+
+describe("generate", () => {
+  it("returns the structured answer", async () => {
+    const model = createMockModel("mock", {
+      responses: { cart: { label: " Add to cart ", confidence: 1.4, rationale: "Cart icon" } },
+    });
+    const result = await generate({ model, system: "Label it", prompt: "Icon: cart" });
+
+    expect(result).toMatchObject({ text: "Add to cart", confidence: 1, decorative: false, rationale: "Cart icon" });
+    expect(result.usage?.totalTokens).toBeGreaterThan(0);
+  });
+
+  it("clears the label of decorative images", async () => {
+    const model = createMockModel("mock", {
+      responses: { spacer: { label: "Blue gradient", decorative: true } },
+    });
+    const result = await generate({ model, system: "Alt text", prompt: "spacer.png" });
+
+    expect(result).toMatchObject({ text: "", decorative: true });
+  });
+
+  it("falls back to plain text from models without JSON output", async () => {
+    const model = createMockModel("mock", { responses: { cart: "Add to cart" } });
+    // Ignore the requested JSON format, like a model without structured output support
+    const doGenerate = model.doGenerate.bind(model);
+    model.doGenerate = (call) => doGenerate({ ...call, responseFormat: undefined });
+    const result = await generate({ model, system: "Label it", prompt: "Icon: cart", maxRetries: 0 });
+
+    expect(result.text).toBe("Add to cart");
+    expect(result.confidence).toBeUndefined();
+  });
+});
@@ -1,5 +1,7 @@
-import { generateText } from "ai";
+import { generateText, jsonSchema, NoObjectGeneratedError, Output } from "ai";
 import type { LanguageModel } from "ai";
+import type { RateLimiter } from "./rate-limit.js";
+import { getRetryDelay, isRateLimitError, isRetryableError } from "./rate-limit.js";
 
 export interface GenerateOptions {
   model: LanguageModel;
@@ -7,25 +9,68 @@ export interface GenerateOptions {
   prompt: string;
   image?: Buffer;
   maxRetries?: number;
+  /** Shared limiter for requests/tokens per minute across concurrent calls */
+  limiter?: RateLimiter;
+  /** Abort each attempt after this many ms */
+  timeout?: number;
 }
 
 export interface GenerateResult {
   text: string;
+  /** Model's confidence 0-1; undefined when it answered in plain text */
+  confidence?: number;
+  /** Images only: purely decorative, text is empty */
+  decorative?: boolean;
+  rationale?: string;
   usage?: { promptTokens?: number; completionTokens?: number; totalTokens?: number };
 }
 
+interface StructuredAnswer {
+  label: string;
+  confidence: number;
+  decorative: boolean;
+  rationale: string;
+}
+
+/** All fields required and no extras — strict JSON schema mode (OpenAI) accepts nothing else */
+const ANSWER_SCHEMA = jsonSchema<StructuredAnswer>({
+  type: "object",
+  properties: {
+    label: { type: "string", description: "The text to insert; empty for a decorative image" },
+    confidence: { type: "number", minimum: 0, maximum: 1, description: "How sure you are, 0-1" },
+    decorative: { type: "boolean", description: "Images only: purely decorative" },
+    rationale: { type: "string", description: "One short sentence explaining the label" },
+  },
+  required: ["label", "confidence", "decorative", "rationale"],
+  additionalProperties: false,
+});
+
+const STRUCTURED_OUTPUT_INSTRUCTIONS = `
+
+Answer as JSON:
+- label: the text you would otherwise return
+- confidence: 0-1, low when the context is ambiguous or you are guessing
+- decorative: true only for purely decorative images (label must then be "")
+- rationale: one short sentence explaining the label`;
+
 export async function generate(options: GenerateOptions): Promise<GenerateResult> {
-  const { model, system, prompt, image, maxRetries = 2 } = options;
+  const { model, system, prompt, image, maxRetries = 2, limiter, timeout } = options;
+  const estimatedTokens = estimateTokens(system, prompt, Boolean(image));
 
   let lastError: Error | undefined;
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const settle = await limiter?.acquire(estimatedTokens);
     try {
+      // Retries are handled here, so 429 hints can pause every concurrent call
       let result;
       if (image) {
         result = await generateText({
           model,
-          system,
+          maxRetries: 0,
+          timeout,
+          output: Output.object({ schema: ANSWER_SCHEMA }),
+          system: system + STRUCTURED_OUTPUT_INSTRUCTIONS,
           messages: [
             {
               role: "user",
@@ -37,24 +82,60 @@ export async function generate(options: GenerateOptions): Promise<GenerateResult
           ],
         });
       } else {
-        result = await generateText({ model, system, prompt });
+        result = await generateText({
+          model,
+          maxRetries: 0,
+          timeout,
+          output: Output.object({ schema: ANSWER_SCHEMA }),
+          system: system + STRUCTURED_OUTPUT_INSTRUCTIONS,
+          prompt,
+        });
       }
-      const u = result.usage;
-      const usage = u
-        ? {
-            promptTokens: u.inputTokens,
-            completionTokens: u.outputTokens,
-            totalTokens: u.totalTokens ?? (u.inputTokens ?? 0) + (u.outputTokens ?? 0),
-          }
-        : undefined;
-      return { text: result.text.trim(), usage };
+      const usage = toUsage(result.usage);
+      settle?.(usage?.totalTokens ?? estimatedTokens);
+      const { label, confidence, decorative, rationale } = result.output;
+      return {
+        text: decorative ? "" : label.trim(),
+        confidence: Math.min(1, Math.max(0, confidence)),
+        decorative,
+        rationale: rationale.trim() || undefined,
+        usage,
+      };
     } catch (error) {
+      // Models without JSON support answer in plain text — use it as the label
+      if (NoObjectGeneratedError.isInstance(error) && error.text && !error.text.trim().startsWith("{")) {
+        const usage = toUsage(error.usage);
+        settle?.(usage?.totalTokens ?? estimatedTokens);
+        return { text: error.text.trim(), usage };
+      }
       lastError = error as Error;
+      if (!isRetryableError(error)) break;
       if (attempt < maxRetries) {
-        await new Promise((r) => setTimeout(r, 1000 * (attempt + 1)));
+        const delay = getRetryDelay(error, attempt);
+        if (isRateLimitError(error)) limiter?.pause(delay);
+        await new Promise((r) => setTimeout(r, delay));
       }
     }
   }
 
   throw lastError ?? new Error("AI generation failed");
 }
+
+function toUsage(
+  u: { inputTokens?: number; outputTokens?: number; totalTokens?: number } | undefined
+): GenerateResult["usage"] {
+  if (!u) return undefined;
+  return {
+    promptTokens: u.inputTokens,
+    completionTokens: u.outputTokens,
+    totalTokens: u.totalTokens ?? (u.inputTokens ?? 0) + (u.outputTokens ?? 0),
+  };
+}
+
+/** Images count as a flat ~1000 input tokens (typical vision tile cost) */
+export const IMAGE_TOKENS = 1000;
+
+/** Rough input token count (~4 chars per token) */
+export function estimateTokens(system: string, prompt: string, hasImage = false): number {
+  return Math.ceil((system.length + prompt.length) / 4) + (hasImage ? IMAGE_TOKENS : 0);
+}
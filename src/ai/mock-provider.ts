@@ -0,0 +1,152 @@
+import type { LanguageModel } from "ai";
+import type { MockAnswer, MockFailure, MockProviderOptions, MockRequest } from "../config/schema.js";
+
+type LanguageModelV3 = Extract<LanguageModel, { specificationVersion: "v3" }>;
+type CallOptions = Parameters<LanguageModelV3["doGenerate"]>[0];
+type GenerateResult = Awaited<ReturnType<LanguageModelV3["doGenerate"]>>;
+
+export interface MockLanguageModel extends LanguageModelV3 {
+  /** Every prompt received, in order */
+  requests: MockRequest[];
+}
+
+/**
+ * Offline model for tests and dry runs: answers from `responses` or derives a
+ * deterministic label from the prompt, and can simulate provider failures.
+ */
+export function createMockModel(modelId: string, options: MockProviderOptions = {}): MockLanguageModel {
+  const { responses = {}, failures = {}, latency = 0, onRequest } = options;
+  const failureCounts = new Map<string, number>();
+
+  return {
+    specificationVersion: "v3",
+    provider: "mock",
+    modelId,
+    supportedUrls: {},
+    requests: [],
+
+    async doGenerate(call: CallOptions): Promise<GenerateResult> {
+      const request = readRequest(call);
+      this.requests.push(request);
+      onRequest?.(request);
+
+      if (latency > 0) await sleep(latency, call.abortSignal);
+
+      for (const [match, failure] of Object.entries(failures)) {
+        if (!request.prompt.includes(match)) continue;
+        const { type, times } = typeof failure === "string" ? { type: failure, times: Infinity } : failure;
+        const count = failureCounts.get(match) ?? 0;
+        if (count >= times) continue;
+        failureCounts.set(match, count + 1);
+        await fail(type, call.abortSignal);
+      }
+
+      const match = Object.keys(responses).find((key) => request.prompt.includes(key));
+      const response = match !== undefined ? responses[match] : deriveAnswer(request.prompt);
+      const answer: MockAnswer = typeof response === "string" ? { label: response } : response;
+      // Structured output was requested: answer with the JSON object, else plain text
+      const text =
+        call.responseFormat?.type === "json"
+          ? JSON.stringify({
+              label: answer.label,
+              confidence: answer.confidence ?? 0.9,
+              decorative: answer.decorative ?? false,
+              rationale: answer.rationale ?? "Mock answer",
+            })
+          : answer.label;
+      const inputTokens = Math.ceil((request.system.length + request.prompt.length) / 4);
+      const outputTokens = Math.ceil(text.length / 4);
+
+      return {
+        content: [{ type: "text", text }],
+        finishReason: { unified: "stop", raw: "stop" },
+        usage: {
+          inputTokens: { total: inputTokens, noCache: inputTokens, cacheRead: undefined, cacheWrite: undefined },
+          outputTokens: { total: outputTokens, text: outputTokens, reasoning: undefined },
+        },
+        warnings: [],
+      };
+    },
+
+    async doStream() {
+      throw new Error("The mock provider does not support streaming");
+    },
+  };
+}
+
+function readRequest(call: CallOptions): MockRequest {
+  let system = "";
+  const prompt: string[] = [];
+  let hasImage = false;
+  for (const message of call.prompt) {
+    if (message.role === "system") {
+      system += message.content;
+    } else if (message.role === "user") {
+      for (const part of message.content) {
+        if (part.type === "text") prompt.push(part.text);
+        else if (part.type === "file") hasImage = true;
+      }
+    }
+  }
+  return { system, prompt: prompt.join("\n"), hasImage };
+}
+
+/** Deterministic stand-in answer built from what the prompt names */
+function deriveAnswer(prompt: string): string {
+  const icon = prompt.match(/^Icon component: (\w+)/m);
+  if (icon) return humanize(icon[1].replace(/Icon$/, ""));
+  const image = prompt.match(/This image is in the "(\w+)" component/);
+  if (image) return `Image in ${humanize(image[1])}`;
+  const route = prompt.match(/^Route: (\S+)/m);
+  if (route && prompt.includes("page title")) {
+    const segment = route[1].split("/").filter(Boolean).pop();
+    return segment ? humanize(segment) : "Home";
+  }
+  const graphic = prompt.match(/^Graphic name: (\w+)/m);
+  if (graphic) return humanize(graphic[1].replace(/Icon$/, ""));
+  const host = prompt.match(/^Host: (\S+)/m);
+  if (host && prompt.includes("embedded frame")) return `Embedded content from ${host[1].replace(/^www\./, "")}`;
+  const component = prompt.match(/^Component: (\w+)/m);
+  if (component) return humanize(component[1]);
+  return "Mock label";
+}
+
+function humanize(name: string): string {
+  const words = name
+    .replace(/[-_]+/g, " ")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+async function fail(type: MockFailure, signal: AbortSignal | undefined): Promise<never> {
+  switch (type) {
+    case "rate-limit":
+      throw Object.assign(new Error("Mock rate limit: too many requests"), {
+        statusCode: 429,
+        responseHeaders: { "retry-after-ms": "10" },
+      });
+    case "timeout":
+      // Never answer — the caller's timeout aborts the request
+      if (signal) await sleep(Infinity, signal);
+      throw Object.assign(new Error("Mock request timed out"), { name: "TimeoutError" });
+    default:
+      throw Object.assign(new Error("Mock provider error"), { statusCode: 500 });
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = Number.isFinite(ms) ? setTimeout(resolve, ms) : undefined;
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { buildSystemPrompt, getPromptConfig } from "./prompt-config.js";
+
+describe("getPromptConfig", () => {
+  it("combines the shared entry with the rule's own", () => {
+    const config = getPromptConfig(
+      {
+        "*": { instructions: "Friendly tone.", glossary: { cart: "bag", buy: "shop" } },
+        "button-label": { instructions: "Max 3 words.", examples: ["HeartIcon → Save for later"], glossary: { buy: "get" } },
+      },
+      "button-label"
+    );
+    expect(config).toEqual({
+      system: undefined,
+      instructions: "Friendly tone.\nMax 3 words.",
+      examples: ["HeartIcon → Save for later"],
+      glossary: { cart: "bag", buy: "get" },
+    });
+  });
+
+  it("returns undefined for rules without customization", () => {
+    expect(getPromptConfig({ "img-alt": { instructions: "x" } }, "button-label")).toBeUndefined();
+  });
+});
+
+describe("buildSystemPrompt", () => {
+  it("appends instructions, examples and glossary", () => {
+    const system = buildSystemPrompt("Base prompt", {
+      instructions: "Use our brand voice.",
+      examples: ["BagIcon → Add to bag"],
+      glossary: { cart: "bag" },
+    });
+    expect(system).toBe(
+      'Base prompt\n\nAdditional instructions:\nUse our brand voice.\n\nMore examples (follow these patterns):\n- BagIcon → Add to bag\n\nGlossary — always use the preferred term:\n- "bag", not "cart"'
+    );
+  });
+
+  it("replaces the built-in prompt", () => {
+    expect(buildSystemPrompt("Base prompt", { system: "Custom" })).toBe("Custom");
+  });
+});
@@ -0,0 +1,39 @@
+import type { RuleId } from "../scan/types.js";
+import type { PromptConfig } from "../config/schema.js";
+
+/**
+ * Prompt customization for one rule: the "*" entry combined with the rule's
+ * own. Returns undefined when neither is configured.
+ */
+export function getPromptConfig(
+  prompts: Partial<Record<RuleId | "*", PromptConfig>>,
+  rule: RuleId
+): PromptConfig | undefined {
+  const all = prompts["*"];
+  const own = prompts[rule];
+  if (!all && !own) return undefined;
+  return {
+    system: own?.system ?? all?.system,
+    instructions: [all?.instructions, own?.instructions].filter(Boolean).join("\n") || undefined,
+    examples: [...(all?.examples ?? []), ...(own?.examples ?? [])],
+    glossary: { ...all?.glossary, ...own?.glossary },
+  };
+}
+
+/** The built-in system prompt with the user's replacement, instructions, examples and glossary */
+export function buildSystemPrompt(base: string, config: PromptConfig): string {
+  let system = config.system ?? base;
+  if (config.instructions) {
+    system += `\n\nAdditional instructions:\n${config.instructions}`;
+  }
+  if (config.examples && config.examples.length > 0) {
+    system += `\n\nMore examples (follow these patterns):\n${config.examples.map((e) => `- ${e}`).join("\n")}`;
+  }
+  const glossary = Object.entries(config.glossary ?? {});
+  if (glossary.length > 0) {
+    system += `\n\nGlossary — always use the preferred term:\n${glossary
+      .map(([avoid, use]) => `- "${use}", not "${avoid}"`)
+      .join("\n")}`;
+  }
+  return system;
+}
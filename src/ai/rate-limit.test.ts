@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { RateLimiter, runWithConcurrency, getRetryDelay, isRateLimitError, isRetryableError } from "./rate-limit.js";
+
+/** Fake clock: sleep advances time instead of waiting */
+function createClock() {
+  const clock = {
+    time: 0,
+    sleeps: [] as number[],
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      clock.sleeps.push(ms);
+      clock.time += ms;
+    },
+  };
+  return clock;
+}
+
+describe("RateLimiter", () => {
+  it("enforces requests per minute", async () => {
+    const clock = createClock();
+    const limiter = new RateLimiter({ requestsPerMinute: 2, now: clock.now, sleep: clock.sleep });
+
+    await limiter.acquire();
+    clock.time = 10_000;
+    await limiter.acquire();
+    await limiter.acquire();
+
+    // Third request waits until the first leaves the one-minute window
+    expect(clock.time).toBe(60_000);
+  });
+
+  it("enforces tokens per minute with actual usage", async () => {
+    const clock = createClock();
+    const limiter = new RateLimiter({ tokensPerMinute: 1000, now: clock.now, sleep: clock.sleep });
+
+    const settle = await limiter.acquire(800);
+    settle(300); // actual usage was lower than estimated
+    await limiter.acquire(600);
+    expect(clock.sleeps).toEqual([]);
+
+    await limiter.acquire(500);
+    expect(clock.time).toBe(60_000);
+  });
+
+  it("lets an oversized request run alone", async () => {
+    const clock = createClock();
+    const limiter = new RateLimiter({ tokensPerMinute: 100, now: clock.now, sleep: clock.sleep });
+
+    await limiter.acquire(500);
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  it("pauses all requests after a rate-limit hint", async () => {
+    const clock = createClock();
+    const limiter = new RateLimiter({ now: clock.now, sleep: clock.sleep });
+
+    limiter.pause(5000);
+    await Promise.all([limiter.acquire(), limiter.acquire()]);
+    expect(clock.time).toBe(5000);
+  });
+});
+
+describe("runWithConcurrency", () => {
+  it("bounds in-flight calls and keeps result order", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const results = await runWithConcurrency([30, 10, 20, 5, 15], 2, async (ms) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((r) => setTimeout(r, ms));
+      inFlight--;
+      return ms * 2;
+    });
+
+    expect(maxInFlight).toBe(2);
+    expect(results).toEqual([60, 20, 40, 10, 30]);
+  });
+});
+
+describe("retry hints", () => {
+  it("honors retry-after headers", () => {
+    expect(getRetryDelay({ statusCode: 429, responseHeaders: { "retry-after": "7" } }, 0)).toBe(7000);
+    expect(getRetryDelay({ statusCode: 429, responseHeaders: { "retry-after-ms": "250" } }, 0)).toBe(250);
+  });
+
+  it("reads delays from provider messages", () => {
+    expect(getRetryDelay(new Error("Rate limit reached. Please try again in 820ms."), 0)).toBe(820);
+    expect(getRetryDelay({ message: "Quota exceeded", responseBody: '{"retryDelay": "23s"}' }, 0)).toBe(23_000);
+  });
+
+  it("unwraps the AI SDK RetryError", () => {
+    const error = { message: "Failed after 3 attempts", lastError: { statusCode: 429, responseHeaders: { "retry-after": "2" } } };
+    expect(getRetryDelay(error, 0)).toBe(2000);
+    expect(isRateLimitError(error)).toBe(true);
+  });
+
+  it("falls back to exponential backoff", () => {
+    expect(getRetryDelay(new Error("socket hang up"), 0)).toBe(1000);
+    expect(getRetryDelay(new Error("socket hang up"), 2)).toBe(4000);
+  });
+
+  it("does not retry errors marked non-retryable", () => {
+    expect(isRetryableError({ statusCode: 401, isRetryable: false })).toBe(false);
+    expect(isRetryableError(new Error("network"))).toBe(true);
+  });
+});
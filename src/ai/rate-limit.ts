@@ -0,0 +1,174 @@
+/**
+ * Client-side rate limiting for AI requests: requests-per-minute and
+ * tokens-per-minute over a sliding one-minute window, plus a shared pause
+ * when a provider answers 429 so concurrent workers back off together.
+ */
+
+const WINDOW_MS = 60_000;
+
+export interface RateLimitOptions {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  /** Injectable clock and timer (tests) */
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+interface WindowEntry {
+  at: number;
+  tokens: number;
+}
+
+export class RateLimiter {
+  private readonly rpm?: number;
+  private readonly tpm?: number;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private entries: WindowEntry[] = [];
+  private pausedUntil = 0;
+  /** Acquires are served in order, so a large request isn't starved by small ones */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: RateLimitOptions = {}) {
+    this.rpm = options.requestsPerMinute;
+    this.tpm = options.tokensPerMinute;
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? ((ms) => new Promise((r) => setTimeout(r, ms)));
+  }
+
+  /**
+   * Wait until a request with `estimatedTokens` fits the limits and reserve it.
+   * Returns a callback to correct the reservation with the actual token usage.
+   */
+  acquire(estimatedTokens = 0): Promise<(actualTokens: number) => void> {
+    const turn = this.queue.then(() => this.reserve(estimatedTokens));
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /** Hold all requests for `ms` (e.g. after a 429 with a retry hint) */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, this.now() + ms);
+  }
+
+  private async reserve(tokens: number): Promise<(actualTokens: number) => void> {
+    for (;;) {
+      const now = this.now();
+      this.entries = this.entries.filter((e) => now - e.at < WINDOW_MS);
+      const wait = Math.max(this.pausedUntil - now, this.requestWait(now), this.tokenWait(now, tokens));
+      if (wait <= 0) break;
+      await this.sleep(wait);
+    }
+
+    const entry: WindowEntry = { at: this.now(), tokens };
+    this.entries.push(entry);
+    return (actualTokens) => {
+      entry.tokens = actualTokens;
+    };
+  }
+
+  private requestWait(now: number): number {
+    if (!this.rpm || this.entries.length < this.rpm) return 0;
+    return this.entries[this.entries.length - this.rpm].at + WINDOW_MS - now;
+  }
+
+  private tokenWait(now: number, tokens: number): number {
+    if (!this.tpm) return 0;
+    let used = this.entries.reduce((sum, e) => sum + e.tokens, 0);
+    if (used + tokens <= this.tpm) return 0;
+    // Wait for the oldest entries to expire until the request fits (an oversized request runs alone)
+    for (const e of this.entries) {
+      used -= e.tokens;
+      if (used + tokens <= this.tpm || used <= 0) return e.at + WINDOW_MS - now;
+    }
+    return 0;
+  }
+}
+
+/**
+ * Run `fn` over items with at most `concurrency` calls in flight.
+ * Results keep the input order.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * How long to wait before retrying a failed AI call. Honors provider hints —
+ * `retry-after-ms` / `retry-after` headers, or "retry in 12s"-style messages
+ * (Gemini, OpenAI) — and falls back to exponential backoff.
+ */
+export function getRetryDelay(error: unknown, attempt: number): number {
+  const fallback = 1000 * 2 ** attempt;
+  const hint = getRetryHint(error);
+  if (hint === undefined || hint < 0) return fallback;
+  return Math.min(hint, 5 * WINDOW_MS);
+}
+
+/** Rate-limit (429) errors, which pause every worker, not only the failing one */
+export function isRateLimitError(error: unknown): boolean {
+  const e = unwrapError(error);
+  return e?.statusCode === 429 || /rate.?limit|too many requests|quota/i.test(e?.message ?? "");
+}
+
+/** Errors the provider marks as not worth retrying (auth, bad request) */
+export function isRetryableError(error: unknown): boolean {
+  return unwrapError(error)?.isRetryable !== false;
+}
+
+interface ApiErrorLike {
+  message?: string;
+  statusCode?: number;
+  isRetryable?: boolean;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string;
+}
+
+function unwrapError(error: unknown): ApiErrorLike | undefined {
+  if (!error || typeof error !== "object") return undefined;
+  // RetryError from the AI SDK wraps the last API error
+  const last = (error as { lastError?: unknown }).lastError;
+  return (last && typeof last === "object" ? last : error) as ApiErrorLike;
+}
+
+function getRetryHint(error: unknown): number | undefined {
+  const e = unwrapError(error);
+  if (!e) return undefined;
+
+  const headers = e.responseHeaders ?? {};
+  const retryAfterMs = parseFloat(headers["retry-after-ms"] ?? "");
+  if (!Number.isNaN(retryAfterMs)) return retryAfterMs;
+
+  const retryAfter = headers["retry-after"];
+  if (retryAfter) {
+    const seconds = parseFloat(retryAfter);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return date - Date.now();
+  }
+
+  // "Please retry in 23.5s", "try again in 820ms", Gemini's "retryDelay": "23s"
+  const text = `${e.message ?? ""} ${e.responseBody ?? ""}`;
+  const m =
+    text.match(/(?:retry|try again) (?:in|after) (\d+(?:\.\d+)?)\s*(ms|s)\b/i) ??
+    text.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)(s)"/);
+  if (m) return parseFloat(m[1]) * (m[2].toLowerCase() === "ms" ? 1 : 1000);
+
+  return undefined;
+}
@@ -1,14 +1,23 @@
+import * as path from "node:path";
 import type { LanguageModel } from "ai";
 import type { SourceFile } from "ts-morph";
 import type { Violation } from "../scan/types.js";
 import type { ResolvedConfig } from "../config/schema.js";
 import { createProvider } from "./create-provider.js";
-import { generate } from "./generate.js";
+import { generate, estimateTokens } from "./generate.js";
+import type { GenerateResult } from "./generate.js";
+import { buildRetryFeedback, validateGeneratedValue } from "./validate.js";
+import { buildSystemPrompt, getPromptConfig } from "./prompt-config.js";
+import type { ValidationContext } from "./validate.js";
+import { RateLimiter, runWithConcurrency } from "./rate-limit.js";
 import { FsCache } from "../cache/fs-cache.js";
+import { resolveAnchoredElement } from "../apply/anchor.js";
 import { extractContext } from "../scan/context.js";
 import { IMG_ALT_SYSTEM_PROMPT, buildImgAltPrompt } from "../rules/img-alt/img-alt.prompt.js";
 import { resolveImageSource, resolveStaticImportPath } from "../rules/img-alt/img-alt.resolve.js";
 import { getIconLabel, ICON_LABEL_OVERRIDES } from "../rules/button-label/icon-name-map.js";
+import { parseSrc } from "../rules/iframe-title/iframe-title.rule.js";
+import { getSvgName } from "../rules/svg-label/svg-label.rule.js";
 import {
   findLabelVariableInScope,
   wrapLabelWithVariable,
@@ -24,6 +33,7 @@ const AI_SETUP_SUGGESTION = `  Either:
     anthropic: ANTHROPIC_API_KEY
     google: GOOGLE_GENERATIVE_AI_API_KEY
     openrouter: OPENROUTER_API_KEY
+    openai-compatible: providers["openai-compatible"].baseURL (+ apiKeyEnv if needed)
 `;
 
 import { ARIA_LABEL_SYSTEM, buildAriaLabelPrompt } from "./aria-label-prompt.js";
@@ -36,7 +46,47 @@ Rules:
 - Use title case (e.g. "About Us", "Contact")
 - Infer from component name, route path, and page content (headings)`;
 
-type ResolveResult = { text: string; usage?: { totalTokens?: number; promptTokens?: number; completionTokens?: number } };
+const IFRAME_TITLE_SYSTEM = `You are an accessibility expert. Generate a title for an embedded <iframe>.
+Screen reader users hear it before deciding whether to enter the frame.
+Rules:
+- Return ONLY the title text, nothing else
+- Output MUST be in the language of the locale (e.g. Polish for pl, German for de)
+- Keep it short: 2-8 words
+- Describe what the frame shows, not that it is a frame (never "iframe", "embed")
+- Name the provider when it helps, e.g. "YouTube video: Product tour", "Map of our Berlin office", "Book a call on Calendly"`;
+
+const SVG_LABEL_SYSTEM = `You are an accessibility expert. Generate an aria-label for an inline SVG graphic (logo, chart, illustration, icon).
+Rules:
+- Return ONLY the label text, nothing else
+- Output MUST be in the language of the locale (e.g. Polish for pl, German for de)
+- Keep it short: 2-10 words
+- Say what the graphic shows or stands for, e.g. "Acme logo", "Revenue by quarter chart", "Warning"
+- Don't start with "Image of", "Icon of" or "SVG" — screen readers already announce an image`;
+
+type ResolveResult = GenerateResult & {
+  /** Every answer failed validation — the last one and why */
+  rejected?: { value: string; problem: string };
+};
+
+export const AI_RULES = ["img-alt", "button-label", "link-label", "input-label", "iframe-title", "svg-label", "next-metadata-title"];
+
+/**
+ * Everything needed to generate one value: shared by resolution and --estimate,
+ * so both agree on cache hits and prompt sizes.
+ */
+export interface AiRequest {
+  /** Undefined when it can't be known offline (remote image in an estimate) */
+  cacheKey?: string;
+  system: string;
+  prompt: string;
+  image?: Buffer;
+  /** Remote image counted but not downloaded (estimate only) */
+  remoteImage?: boolean;
+  /** Known without the model (icon heuristics) — no tokens spent */
+  heuristic?: string;
+  /** Image or source file the value describes; entries are pruned when it is gone */
+  source?: string;
+}
 
 export interface AiResolveOptions {
   config: ResolvedConfig;
@@ -45,17 +95,41 @@ export interface AiResolveOptions {
   onProgress?: (resolved: number, total: number, violation: Violation, result: string) => void;
 }
 
-export async function resolveAiFixes(opts: AiResolveOptions): Promise<void> {
-  const { config, project, violations, onProgress } = opts;
+export interface AiResolveSummary {
+  totalTokens: number;
+  /**
+   * AI requests skipped because ai.maxTokens was reached: fixes stay as warnings,
+   * `[locale]` title translations fall back to the default locale's value
+   */
+  skippedForBudget: number;
+  /** The part of skippedForBudget that were `[locale]` title translations */
+  skippedLocalesForBudget: number;
+  /** AI fixes below ai.minConfidence left as warnings (kept for review with --interactive) */
+  lowConfidence: number;
+  /** AI fixes dropped because every answer failed validation */
+  rejected: number;
+}
 
-  const aiViolations = violations.filter(
-    (v) =>
-      ["img-alt", "button-label", "link-label", "input-label", "next-metadata-title"].includes(
-        v.rule
-      ) && v.fix
+/** Violations still waiting for an AI-generated value */
+export function getPendingAiViolations(violations: Violation[]): Violation[] {
+  return violations.filter(
+    (v) => AI_RULES.includes(v.rule) && v.fix && typeof v.fix.value !== "string"
   );
+}
+
+export async function resolveAiFixes(opts: AiResolveOptions): Promise<AiResolveSummary> {
+  const { config, project, violations, onProgress } = opts;
+  const summary: AiResolveSummary = {
+    totalTokens: 0,
+    skippedForBudget: 0,
+    skippedLocalesForBudget: 0,
+    lowConfidence: 0,
+    rejected: 0,
+  };
+
+  const aiViolations = violations.filter((v) => AI_RULES.includes(v.rule) && v.fix);
 
-  if (aiViolations.length === 0) return;
+  if (aiViolations.length === 0) return summary;
 
   if (!config.provider) {
     console.error(pc.red("\n  No AI provider configured.\n"));
@@ -65,7 +139,7 @@ export async function resolveAiFixes(opts: AiResolveOptions): Promise<void> {
 
   let model: LanguageModel;
   try {
-    model = createProvider(config.provider, config.model);
+    model = createProvider(config.provider, config.model, config.providerOptions);
   } catch (err: any) {
     console.error(pc.red(`\n  AI provider error: ${err.message}\n`));
     console.error(pc.dim(AI_SETUP_SUGGESTION));
@@ -77,48 +151,90 @@ export async function resolveAiFixes(opts: AiResolveOptions): Promise<void> {
   }
 
   const cache = new FsCache(config.cache);
+  const limiter = new RateLimiter({
+    requestsPerMinute: config.ai.requestsPerMinute,
+    tokensPerMinute: config.ai.tokensPerMinute,
+  });
   let resolved = 0;
-  let totalTokens = 0;
+  const budget: TokenBudget = { reserved: 0 };
 
-  for (const violation of aiViolations) {
+  // Violations are independent: resolve up to ai.concurrency at a time
+  await runWithConcurrency(aiViolations, config.ai.concurrency, async (violation) => {
     try {
       // Skip if fix value already resolved (e.g. generic aria-label → variable replacement)
-      if (typeof violation.fix?.value === "string") continue;
+      if (typeof violation.fix?.value === "string") return;
 
       const sourceFile = project.getSourceFile(violation.filePath);
-      if (!sourceFile) continue;
-
-      let result: ResolveResult;
-
-      switch (violation.rule) {
-        case "img-alt":
-          result = await resolveImgAlt(sourceFile, violation, model, config, cache);
-          break;
-        case "button-label":
-        case "link-label":
-        case "input-label":
-          result = await resolveCodeContext(project, sourceFile, violation, model, config, cache);
-          break;
-        case "next-metadata-title":
-          result = await resolveMetadataTitle(sourceFile, violation, model, config, cache);
-          break;
-        default:
-          continue;
+      if (!sourceFile) return;
+
+      let result: ResolveResult = { text: "" };
+      const request = await prepareAiRequest(project, sourceFile, violation, config);
+
+      if (!request) {
+        if (violation.rule === "img-alt" && !config.quiet) {
+          // Can't generate meaningful alt without seeing the image
+          console.log(`  ${pc.blue("[AI]")} ${pc.dim(`skipped ${violation.filePath.replace(process.cwd() + "/", "")}:${violation.line} — dynamic image source, cannot resolve`)}`);
+        }
+      } else if (request.heuristic) {
+        result = { text: request.heuristic };
+      } else {
+        const validation: ValidationContext = {
+          locale: config.locale,
+          adjacentText: violation.rule === "next-metadata-title" ? [] : getAdjacentText(sourceFile, violation),
+        };
+        const cached = request.cacheKey ? cache.get(request.cacheKey) : undefined;
+        // Entries cached before validation existed may not pass — regenerate those
+        if (
+          cached &&
+          cached.locale === config.locale &&
+          !validateGeneratedValue(violation.rule, cached.value, validation).problem
+        ) {
+          const { value, confidence, decorative, rationale } = cached;
+          result = { text: value, confidence, decorative, rationale };
+        } else {
+          const generated = await runAiRequest(request, violation, model, config, cache, limiter, validation, { budget, summary });
+          if (!generated) {
+            // Budget reached — leave it as an unresolved warning
+            delete violation.fix;
+            summary.skippedForBudget++;
+            return;
+          }
+          result = generated;
+        }
       }
 
       const generatedValue = result.text;
-      if (result.usage?.totalTokens) totalTokens += result.usage.totalTokens;
-      else if (result.usage?.promptTokens !== undefined || result.usage?.completionTokens !== undefined) {
-        totalTokens += (result.usage.promptTokens ?? 0) + (result.usage.completionTokens ?? 0);
-      }
 
-      if (generatedValue) {
+      const decorative = violation.rule === "img-alt" && result.decorative === true;
+      if (result.rejected) {
+        violation.message += ` (AI suggestion "${result.rejected.value}" rejected: ${result.rejected.problem})`;
+        delete violation.fix;
+        summary.rejected++;
+      } else if (
+        (generatedValue || decorative) &&
+        result.confidence !== undefined &&
+        result.confidence < config.ai.minConfidence &&
+        !config.interactive
+      ) {
+        // Too unsure to auto-apply — report the suggestion, keep it a warning
+        violation.message += ` (AI suggestion "${generatedValue}" below confidence threshold: ${Math.round(result.confidence * 100)}%)`;
+        delete violation.fix;
+        summary.lowConfidence++;
+      } else if (generatedValue || decorative) {
         // Use variable in scope when element is inside .map() etc.
-        const varRef = findLabelVariableInScope(sourceFile, violation.line);
+        const varRef = decorative ? undefined : findLabelVariableInScope(sourceFile, violation.line);
         const finalValue = varRef
           ? wrapLabelWithVariable(generatedValue, varRef)
           : generatedValue;
         violation.fix!.value = finalValue;
+        violation.fix!.confidence = result.confidence;
+        violation.fix!.rationale = result.rationale;
+        if (violation.fix!.localeParam) {
+          violation.fix!.values = await resolveLocaleValues(
+            { project, sourceFile, violation, model, config, cache, limiter, summary, budget },
+            finalValue
+          );
+        }
         resolved++;
         onProgress?.(resolved, aiViolations.length, violation, finalValue);
       } else if (violation.rule === "img-alt") {
@@ -155,22 +271,231 @@ export async function resolveAiFixes(opts: AiResolveOptions): Promise<void> {
         }
       }
     }
-  }
+  });
 
-  if (totalTokens > 0 && !config.quiet) {
-    console.log(pc.dim(`  Total tokens used: ${totalTokens.toLocaleString()}\n`));
+  if (summary.totalTokens > 0 && !config.quiet) {
+    console.log(pc.dim(`  Total tokens used: ${summary.totalTokens.toLocaleString()}\n`));
+  }
+  if (summary.skippedForBudget > 0 && !config.quiet) {
+    const fixes = summary.skippedForBudget - summary.skippedLocalesForBudget;
+    const locales = summary.skippedLocalesForBudget;
+    const skipped = [
+      fixes > 0 && `${fixes} AI fix${fixes === 1 ? "" : "es"} left as warnings`,
+      locales > 0 && `${locales} locale title${locales === 1 ? "" : "s"} left to the default locale's`,
+    ].filter(Boolean);
+    console.log(
+      pc.yellow(`  Token budget of ${config.ai.maxTokens!.toLocaleString()} reached — ${skipped.join(", ")}\n`)
+    );
+  }
+  if (summary.rejected > 0 && !config.quiet) {
+    console.log(
+      pc.yellow(`  ${summary.rejected} AI fix${summary.rejected === 1 ? "" : "es"} failed validation and ${summary.rejected === 1 ? "was" : "were"} left as warnings\n`)
+    );
+  }
+  if (summary.lowConfidence > 0 && !config.quiet) {
+    console.log(
+      pc.yellow(`  ${summary.lowConfidence} AI fix${summary.lowConfidence === 1 ? "" : "es"} below confidence ${config.ai.minConfidence} left as warnings — review with --interactive\n`)
+    );
   }
+  return summary;
 }
 
-async function resolveImgAlt(
+/**
+ * Build the model request for a violation. Returns undefined when there is
+ * nothing to ask (image can't be resolved). With `offline`, remote images are
+ * not downloaded — they are marked `remoteImage` and have no cache key.
+ */
+export async function prepareAiRequest(
+  project: Project,
   file: SourceFile,
   violation: Violation,
+  config: ResolvedConfig,
+  options: { offline?: boolean } = {}
+): Promise<AiRequest | undefined> {
+  let request: AiRequest | undefined;
+  switch (violation.rule) {
+    case "img-alt":
+      request = await prepareImgAlt(file, violation, config, options.offline ?? false);
+      break;
+    case "button-label":
+    case "link-label":
+    case "input-label":
+      request = prepareCodeContext(project, file, violation, config);
+      break;
+    case "iframe-title":
+      request = prepareIframeTitle(file, violation, config);
+      break;
+    case "svg-label":
+      request = prepareSvgLabel(file, violation, config);
+      break;
+    case "next-metadata-title":
+      request = prepareMetadataTitle(file, config);
+      break;
+  }
+  if (!request) return undefined;
+
+  const promptConfig = getPromptConfig(config.prompts, violation.rule);
+  const system = promptConfig ? buildSystemPrompt(request.system, promptConfig) : request.system;
+  return {
+    ...request,
+    system,
+    // Values generated with another prompt, model or locale are stale
+    cacheKey: request.cacheKey && FsCache.createKey(request.cacheKey, { system, model: config.model, locale: config.locale }),
+    // Built-in icon labels don't follow the brand voice or glossary — ask the model
+    heuristic: promptConfig ? undefined : request.heuristic,
+  };
+}
+
+/** The configured locale first, then the other supported locales */
+export function getSupportedLocales(config: ResolvedConfig): string[] {
+  return [config.locale, ...(config.i18n.locales ?? []).filter((l) => l !== config.locale)];
+}
+
+/** Estimated tokens of requests in flight, so parallel requests can't overshoot ai.maxTokens */
+interface TokenBudget {
+  reserved: number;
+}
+
+/** Reserve a request's estimated tokens; false when it would go over ai.maxTokens */
+function reserveTokens(budget: TokenBudget, summary: AiResolveSummary, config: ResolvedConfig, estimated: number): boolean {
+  if (config.ai.maxTokens !== undefined && summary.totalTokens + budget.reserved + estimated > config.ai.maxTokens) {
+    return false;
+  }
+  budget.reserved += estimated;
+  return true;
+}
+
+/**
+ * Values for every supported locale of a `[locale]` route, the configured
+ * one being `defaultValue`. Locales that can't be generated are left out;
+ * the inserted code falls back to the default value for them.
+ */
+async function resolveLocaleValues(
+  ctx: {
+    project: Project;
+    sourceFile: SourceFile;
+    violation: Violation;
+    model: LanguageModel;
+    config: ResolvedConfig;
+    cache: FsCache;
+    limiter: RateLimiter;
+    summary: AiResolveSummary;
+    budget: TokenBudget;
+  },
+  defaultValue: string
+): Promise<Record<string, string>> {
+  const { project, sourceFile, violation, model, config, cache, limiter, summary, budget } = ctx;
+  const values: Record<string, string> = { [config.locale]: defaultValue };
+
+  for (const locale of getSupportedLocales(config).slice(1)) {
+    const localeConfig: ResolvedConfig = { ...config, locale };
+    const request = await prepareAiRequest(project, sourceFile, violation, localeConfig);
+    if (!request) continue;
+    const validation: ValidationContext = { locale };
+
+    const cached = request.cacheKey ? cache.get(request.cacheKey) : undefined;
+    if (cached && cached.locale === locale && !validateGeneratedValue(violation.rule, cached.value, validation).problem) {
+      values[locale] = cached.value;
+      continue;
+    }
+    try {
+      const result = await runAiRequest(request, violation, model, localeConfig, cache, limiter, validation, { budget, summary });
+      if (!result) {
+        // Later locales may still be cached, so keep going
+        summary.skippedForBudget++;
+        summary.skippedLocalesForBudget++;
+      } else if (!result.rejected && result.text) {
+        values[locale] = result.text;
+      }
+    } catch {
+      // Provider error — this locale falls back to the default value
+    }
+  }
+  return values;
+}
+
+/**
+ * Generate, validate and cache a value. A rejected answer is retried with the
+ * problem as feedback, up to ai.validationRetries times. Each attempt reserves
+ * its estimate against ai.maxTokens and is charged its actual usage before the
+ * next one starts. Undefined when the budget can't cover the first attempt;
+ * a retry it can't cover leaves the answer rejected.
+ */
+async function runAiRequest(
+  request: AiRequest,
+  violation: Violation,
   model: LanguageModel,
   config: ResolvedConfig,
-  cache: FsCache
-): Promise<ResolveResult> {
-  const el = findElement(file, violation.line);
-  if (!el) return { text: "" };
+  cache: FsCache,
+  limiter: RateLimiter,
+  validation: ValidationContext,
+  tokens: { budget: TokenBudget; summary: AiResolveSummary }
+): Promise<ResolveResult | undefined> {
+  const { budget, summary } = tokens;
+  let prompt = request.prompt;
+  const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let rejected: ResolveResult["rejected"];
+
+  for (let attempt = 0; ; attempt++) {
+    const estimated = estimateTokens(request.system, prompt, Boolean(request.image));
+    if (!reserveTokens(budget, summary, config, estimated)) {
+      return rejected && { text: "", usage, rejected };
+    }
+    let result: GenerateResult;
+    try {
+      result = await generate({
+        model,
+        system: request.system,
+        prompt,
+        image: request.image,
+        limiter,
+        timeout: config.providerOptions.timeout,
+      });
+    } finally {
+      budget.reserved -= estimated;
+    }
+    usage.promptTokens += result.usage?.promptTokens ?? 0;
+    usage.completionTokens += result.usage?.completionTokens ?? 0;
+    const total = result.usage?.totalTokens || (result.usage?.promptTokens ?? 0) + (result.usage?.completionTokens ?? 0);
+    usage.totalTokens += total;
+    summary.totalTokens += total;
+
+    const { value, problem } = validateGeneratedValue(violation.rule, result.text, validation);
+    if (problem) {
+      rejected = { value, problem };
+      if (attempt < config.ai.validationRetries) {
+        prompt = request.prompt + buildRetryFeedback(value, problem);
+        continue;
+      }
+      return { text: "", usage, rejected };
+    }
+
+    if (request.cacheKey) {
+      cache.set(request.cacheKey, {
+        value,
+        model: typeof model === "string" ? model : config.model,
+        locale: config.locale,
+        rule: violation.rule,
+        generatedAt: new Date().toISOString(),
+        confidence: result.confidence,
+        decorative: result.decorative,
+        rationale: result.rationale,
+        promptHash: FsCache.hashContent(request.system),
+        source: request.source && path.relative(process.cwd(), request.source),
+      });
+    }
+    return { ...result, text: value, usage };
+  }
+}
+
+async function prepareImgAlt(
+  file: SourceFile,
+  violation: Violation,
+  config: ResolvedConfig,
+  offline: boolean
+): Promise<AiRequest | undefined> {
+  const el = resolveAnchoredElement(file, violation);
+  if (!el) return undefined;
 
   // Find project root by walking up from the file
   const filePath = file.getFilePath();
@@ -194,7 +519,6 @@ async function resolveImgAlt(
     }
   }
 
-  const imageSource = await resolveImageSource(srcValue, file, projectRoot);
   const context = extractContext(file);
   const prompt = buildImgAltPrompt({
     componentName: context.componentName,
@@ -203,43 +527,33 @@ async function resolveImgAlt(
     locale: config.locale,
   });
 
-  if (imageSource.type === "unresolvable") {
-    // Can't generate meaningful alt without seeing the image
-    console.log(`  ${pc.blue("[AI]")} ${pc.dim(`skipped ${violation.filePath.replace(process.cwd() + "/", "")}:${violation.line} — dynamic image source, cannot resolve`)}`);
-    return { text: "" };
+  if (offline && /^https?:\/\//.test(srcValue)) {
+    return { system: IMG_ALT_SYSTEM_PROMPT, prompt, remoteImage: true, source: filePath };
   }
 
-  // Check cache (key includes locale so en/pl don't overwrite)
+  const imageSource = await resolveImageSource(srcValue, file, projectRoot);
+  if (imageSource.type === "unresolvable") return undefined;
+
+  // Cache key includes locale so en/pl don't overwrite
   const cacheKey = FsCache.hashContent(
     Buffer.concat([imageSource.buffer, Buffer.from(`:${config.locale}`, "utf8")])
   );
-  const cached = cache.get(cacheKey);
-  if (cached) return { text: cached.value };
-
-  // Generate with vision
-  const { text, usage } = await generate({
-    model, system: IMG_ALT_SYSTEM_PROMPT, prompt,
+  return {
+    cacheKey,
+    system: IMG_ALT_SYSTEM_PROMPT,
+    prompt,
     image: imageSource.buffer,
-  });
-
-  cache.set(cacheKey, {
-    value: text,
-    model: typeof model === "string" ? model : config.model,
-    locale: config.locale,
-    rule: "img-alt",
-    generatedAt: new Date().toISOString(),
-  });
-  return { text, usage };
+    // Remote images are described for the page that shows them
+    source: imageSource.type === "file" ? imageSource.path : filePath,
+  };
 }
 
-async function resolveCodeContext(
+function prepareCodeContext(
   project: Project,
   file: SourceFile,
   violation: Violation,
-  model: LanguageModel,
-  config: ResolvedConfig,
-  cache: FsCache
-): Promise<ResolveResult> {
+  config: ResolvedConfig
+): AiRequest {
   const context = extractContext(file);
   const element = violation.element;
 
@@ -250,15 +564,6 @@ async function resolveCodeContext(
   const contextStr = `${violation.rule}:${iconName ?? "unknown"}:${element}:${context.componentName}:${config.locale}`;
   const cacheKey = FsCache.hashContent(Buffer.from(contextStr));
 
-  const cached = cache.get(cacheKey);
-  if (cached && cached.locale === config.locale) return { text: cached.value };
-
-  // Use heuristic for known icons — ensures correct locale and saves API calls
-  if (iconName && ICON_LABEL_OVERRIDES[iconName] && (violation.rule === "button-label" || violation.rule === "link-label")) {
-    const label = getIconLabel(iconName, config.locale);
-    return { text: label };
-  }
-
   const prompt = buildAriaLabelPrompt({
     iconName: iconName ?? undefined,
     element,
@@ -269,33 +574,21 @@ async function resolveCodeContext(
     rule: violation.rule as "button-label" | "link-label" | "input-label",
   });
 
-  const { text, usage } = await generate({ model, system: ARIA_LABEL_SYSTEM, prompt });
+  // Use heuristic for known icons — ensures correct locale and saves API calls
+  const heuristic =
+    iconName && ICON_LABEL_OVERRIDES[iconName] && (violation.rule === "button-label" || violation.rule === "link-label")
+      ? getIconLabel(iconName, config.locale)
+      : undefined;
 
-  cache.set(cacheKey, {
-    value: text,
-    model: typeof model === "string" ? model : config.model,
-    locale: config.locale,
-    rule: violation.rule,
-    generatedAt: new Date().toISOString(),
-  });
-  return { text, usage };
+  return { cacheKey, system: ARIA_LABEL_SYSTEM, prompt, heuristic, source: file.getFilePath() };
 }
 
-async function resolveMetadataTitle(
-  file: SourceFile,
-  violation: Violation,
-  model: LanguageModel,
-  config: ResolvedConfig,
-  cache: FsCache
-): Promise<ResolveResult> {
+function prepareMetadataTitle(file: SourceFile, config: ResolvedConfig): AiRequest {
   const context = extractContext(file);
 
   const contextStr = `next-metadata-title:${context.componentName}:${context.route}:${context.nearbyHeadings.join("|")}:${config.locale}`;
   const cacheKey = FsCache.hashContent(Buffer.from(contextStr));
 
-  const cached = cache.get(cacheKey);
-  if (cached && cached.locale === config.locale) return { text: cached.value };
-
   let prompt = `Generate a page title for this Next.js page:\n\n`;
   prompt += `Component: ${context.componentName}\n`;
   if (context.route) prompt += `Route: ${context.route}\n`;
@@ -304,28 +597,94 @@ async function resolveMetadataTitle(
   prompt += `Locale: ${config.locale}\n`;
   prompt += `\nReturn ONLY the title text (e.g. "Home", "About Us", "Contact").`;
 
-  const { text, usage } = await generate({
-    model,
-    system: METADATA_TITLE_SYSTEM,
-    prompt,
-  });
+  return { cacheKey, system: METADATA_TITLE_SYSTEM, prompt, source: file.getFilePath() };
+}
 
-  cache.set(cacheKey, {
-    value: text,
-    model: typeof model === "string" ? model : config.model,
-    locale: config.locale,
-    rule: "next-metadata-title",
-    generatedAt: new Date().toISOString(),
-  });
-  return { text, usage };
+function prepareIframeTitle(file: SourceFile, violation: Violation, config: ResolvedConfig): AiRequest {
+  const context = extractContext(file);
+  const el = resolveAnchoredElement(file, violation);
+  const init = el?.getAttribute("src")?.asKind(SyntaxKind.JsxAttribute)?.getInitializer();
+  // String src, or the expression text for dynamic ones, e.g. {video.embedUrl}
+  const src =
+    init?.asKind(SyntaxKind.StringLiteral)?.getLiteralValue() ??
+    init?.asKind(SyntaxKind.JsxExpression)?.getExpression()?.getText() ??
+    "";
+  const url = parseSrc(src);
+
+  const contextStr = `iframe-title:${src}:${context.componentName}:${context.route}:${context.nearbyHeadings.join("|")}:${config.locale}`;
+  const cacheKey = FsCache.hashContent(Buffer.from(contextStr));
+
+  let prompt = `Generate a title for this embedded frame:\n\n`;
+  if (url) {
+    prompt += `Host: ${url.hostname}\n`;
+    if (url.pathname !== "/") prompt += `Path: ${url.pathname}\n`;
+    const query = [...url.searchParams.entries()].filter(([key]) => /^(q|query|title|v|list|pb)$/.test(key));
+    if (query.length > 0) prompt += `Query: ${query.map(([k, v]) => `${k}=${v}`).join("&").slice(0, 200)}\n`;
+  } else if (src) {
+    prompt += `Source expression: ${src.slice(0, 120)}\n`;
+  }
+  prompt += `Component: ${context.componentName}\n`;
+  if (context.route) prompt += `Route: ${context.route}\n`;
+  if (context.nearbyHeadings.length > 0)
+    prompt += `Headings on page: ${context.nearbyHeadings.join(", ")}\n`;
+  prompt += `Locale: ${config.locale}\n`;
+  prompt += `\nReturn ONLY the title text (e.g. "Product demo video", "Map of our office").`;
+
+  return { cacheKey, system: IFRAME_TITLE_SYSTEM, prompt, source: file.getFilePath() };
 }
 
-function findElement(file: SourceFile, line: number) {
-  const elements = [
-    ...file.getDescendantsOfKind(SyntaxKind.JsxOpeningElement),
-    ...file.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement),
-  ];
-  return elements.find((el) => el.getStartLineNumber() === line);
+function prepareSvgLabel(file: SourceFile, violation: Violation, config: ResolvedConfig): AiRequest | undefined {
+  // Decorative graphics are fixed with aria-hidden — nothing to generate
+  if (violation.fix?.attribute !== "aria-label") return undefined;
+  const el = resolveAnchoredElement(file, violation);
+  if (!el) return undefined;
+
+  const context = extractContext(file);
+  const name = getSvgName(el);
+  const svg = el.isKind(SyntaxKind.JsxOpeningElement) ? el.getParentOrThrow() : el;
+  // Text drawn inside the graphic, e.g. chart axis labels or a wordmark
+  const texts = svg
+    .getDescendantsOfKind(SyntaxKind.JsxText)
+    .map((t) => t.getText().trim())
+    .filter(Boolean)
+    .slice(0, 10);
+  const markup = svg.getText().replace(/\s+/g, " ").slice(0, 300);
+
+  const contextStr = `svg-label:${name ?? "unknown"}:${markup}:${context.componentName}:${config.locale}`;
+  const cacheKey = FsCache.hashContent(Buffer.from(contextStr));
+
+  let prompt = `Generate an aria-label for this inline SVG graphic:\n\n`;
+  if (name) prompt += `Graphic name: ${name}\n`;
+  if (texts.length > 0) prompt += `Text inside: ${texts.join(", ")}\n`;
+  prompt += `Markup: ${markup}\n`;
+  prompt += `Component: ${context.componentName}\n`;
+  if (context.route) prompt += `Route: ${context.route}\n`;
+  if (context.nearbyHeadings.length > 0)
+    prompt += `Nearby headings: ${context.nearbyHeadings.join(", ")}\n`;
+  prompt += `Locale: ${config.locale}\n`;
+  prompt += `\nReturn ONLY the label text (e.g. "Acme logo", "Revenue by quarter chart").`;
+
+  return { cacheKey, system: SVG_LABEL_SYSTEM, prompt, source: file.getFilePath() };
+}
+
+/** Visible text of the element's siblings, e.g. a caption next to an image */
+function getAdjacentText(file: SourceFile, violation: Violation): string[] {
+  const el = resolveAnchoredElement(file, violation);
+  if (!el) return [];
+  const node = el.isKind(SyntaxKind.JsxOpeningElement) ? el.getParentOrThrow() : el;
+  const parent = node.getParent();
+  if (!parent?.isKind(SyntaxKind.JsxElement)) return [];
+
+  const texts: string[] = [];
+  for (const child of parent.getJsxChildren()) {
+    if (child === node) continue;
+    const parts = child.isKind(SyntaxKind.JsxText)
+      ? [child]
+      : child.getDescendantsOfKind(SyntaxKind.JsxText);
+    const text = parts.map((t) => t.getText()).join(" ").replace(/\s+/g, " ").trim();
+    if (text) texts.push(text);
+  }
+  return texts;
 }
 
 /**
@@ -333,7 +692,7 @@ function findElement(file: SourceFile, line: number) {
  * e.g. "/hero.jpg" → "Hero image", "team-photo.jpg" → "Team photo"
  */
 function getHeuristicImgAlt(file: SourceFile, violation: Violation): string | undefined {
-  const el = findElement(file, violation.line);
+  const el = resolveAnchoredElement(file, violation);
   if (!el) return undefined;
 
   const srcAttr = el.getAttribute("src");
@@ -355,7 +714,7 @@ function getIconNameFromViolation(project: Project, violation: Violation): strin
   if (violation.rule !== "button-label" && violation.rule !== "link-label") return undefined;
   const file = project.getSourceFile(violation.filePath);
   if (!file) return undefined;
-  const el = findElement(file, violation.line);
+  const el = resolveAnchoredElement(file, violation);
   if (!el) return undefined;
   const parent = el.getParent();
   if (!parent) return undefined;
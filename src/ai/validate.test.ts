@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { validateGeneratedValue } from "./validate.js";
+
+const en = { locale: "en" };
+
+describe("validateGeneratedValue", () => {
+  it("strips wrapping quotes and whitespace", () => {
+    expect(validateGeneratedValue("button-label", ' "Add to cart" ', en)).toEqual({ value: "Add to cart" });
+    expect(validateGeneratedValue("button-label", "„Dodaj do koszyka”", { locale: "pl" })).toEqual({
+      value: "Dodaj do koszyka",
+    });
+    expect(validateGeneratedValue("link-label", `"'Visit Twitter'"`, en).value).toBe("Visit Twitter");
+  });
+
+  it("drops a trailing period from labels but not alt text", () => {
+    expect(validateGeneratedValue("button-label", "Close menu.", en).value).toBe("Close menu");
+    expect(validateGeneratedValue("img-alt", "A dog on a beach.", en).value).toBe("A dog on a beach.");
+  });
+
+  it("rejects overlong values", () => {
+    const alt = Array.from({ length: 40 }, () => "word").join(" ");
+    expect(validateGeneratedValue("img-alt", alt, en).problem).toMatch(/too long \(40 words/);
+    expect(validateGeneratedValue("button-label", "Open the navigation menu for the main site pages", en).problem).toMatch(/too long/);
+  });
+
+  it("rejects banned prefixes", () => {
+    expect(validateGeneratedValue("img-alt", "Image of a team at a whiteboard", en).problem).toMatch(/starts with "Image of"/);
+    expect(validateGeneratedValue("img-alt", "A photo of the office", en).problem).toMatch(/starts with "A photo of"/);
+    expect(validateGeneratedValue("button-label", "Button to close", en).problem).toMatch(/starts with "Button"/);
+  });
+
+  it("rejects text in the wrong script for the locale", () => {
+    expect(validateGeneratedValue("button-label", "Закрыть", en).problem).toMatch(/locale "en"/);
+    expect(validateGeneratedValue("button-label", "Close", { locale: "ja-JP" }).problem).toMatch(/locale "ja-JP"/);
+    expect(validateGeneratedValue("button-label", "iPhoneをカートに追加", { locale: "ja" }).problem).toBeUndefined();
+    // Unknown languages are not checked
+    expect(validateGeneratedValue("button-label", "Close", { locale: "hy" }).problem).toBeUndefined();
+  });
+
+  it("rejects values that repeat the adjacent visible text", () => {
+    const context = { locale: "en", adjacentText: ["Our team, 2024"] };
+    expect(validateGeneratedValue("img-alt", "Our team 2024", context).problem).toMatch(/repeats the visible text/);
+    expect(validateGeneratedValue("img-alt", "Five people smiling at a desk", context).problem).toBeUndefined();
+  });
+
+  it("accepts an empty alt for decorative images", () => {
+    expect(validateGeneratedValue("img-alt", "", en)).toEqual({ value: "" });
+  });
+});
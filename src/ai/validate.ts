@@ -0,0 +1,149 @@
+import type { RuleId } from "../scan/types.js";
+
+/** Length limits and banned openings per AI rule */
+interface RuleLimits {
+  maxWords: number;
+  maxLength: number;
+  bannedPrefixes?: RegExp;
+}
+
+const LABEL_LIMITS: RuleLimits = { maxWords: 8, maxLength: 60 };
+
+const RULE_LIMITS: Partial<Record<RuleId, RuleLimits>> = {
+  "img-alt": {
+    maxWords: 25,
+    maxLength: 150,
+    // Screen readers already announce "image"
+    bannedPrefixes: /^(an? )?(image|photo|photograph|picture|graphic|illustration|icon) (of|showing|shows)\b/i,
+  },
+  "button-label": { ...LABEL_LIMITS, bannedPrefixes: /^(button|icon)\b/i },
+  "link-label": { ...LABEL_LIMITS, bannedPrefixes: /^(link|icon)\b/i },
+  "input-label": LABEL_LIMITS,
+  // "YouTube video: Product tour" is fine; "iframe …" says nothing
+  "iframe-title": { maxWords: 10, maxLength: 80, bannedPrefixes: /^(i?frame|embedded frame)\b/i },
+  // Charts may need a few more words than a logo
+  "svg-label": { maxWords: 15, maxLength: 120, bannedPrefixes: /^(svg|(an? )?(icon|graphic|image) (of|showing))\b/i },
+  "next-metadata-title": { maxWords: 10, maxLength: 70 },
+};
+
+/** Expected script by language; languages not listed here are not script-checked */
+const LATIN = /\p{Script_Extensions=Latin}/u;
+const LOCALE_SCRIPTS: Record<string, RegExp> = {
+  ...Object.fromEntries(
+    ["en", "pl", "de", "fr", "es", "it", "pt", "nl", "sv", "da", "no", "nb", "fi", "cs", "sk", "hu", "ro", "tr", "vi", "id", "ms", "hr", "sl", "et", "lv", "lt"].map(
+      (lang) => [lang, LATIN]
+    )
+  ),
+  ...Object.fromEntries(["ru", "uk", "bg", "be", "mk", "kk"].map((lang) => [lang, /\p{Script_Extensions=Cyrillic}/u])),
+  el: /\p{Script_Extensions=Greek}/u,
+  ar: /\p{Script_Extensions=Arabic}/u,
+  fa: /\p{Script_Extensions=Arabic}/u,
+  he: /\p{Script_Extensions=Hebrew}/u,
+  hi: /\p{Script_Extensions=Devanagari}/u,
+  th: /\p{Script_Extensions=Thai}/u,
+  ko: /\p{Script_Extensions=Hangul}/u,
+  ja: /[\p{Script_Extensions=Hiragana}\p{Script_Extensions=Katakana}\p{Script_Extensions=Han}]/u,
+  zh: /\p{Script_Extensions=Han}/u,
+};
+
+export interface ValidationContext {
+  locale: string;
+  /** Visible text next to the element (siblings); an identical label is redundant */
+  adjacentText?: string[];
+}
+
+export interface ValidationResult {
+  /** Cleaned value: wrapping quotes and whitespace removed */
+  value: string;
+  /** Why the value was rejected; undefined when it is valid */
+  problem?: string;
+}
+
+/**
+ * Check a generated value before it is inserted. Cosmetic issues (quotes,
+ * whitespace, a trailing period on labels) are fixed; anything else is
+ * reported so the caller can retry with feedback or drop the fix.
+ */
+export function validateGeneratedValue(
+  rule: RuleId,
+  raw: string,
+  context: ValidationContext
+): ValidationResult {
+  const value = cleanValue(rule, raw);
+  const limits = RULE_LIMITS[rule];
+  // Empty alt marks a decorative image
+  if (!value || !limits) return { value };
+
+  const words = value.split(/\s+/).length;
+  if (words > limits.maxWords || value.length > limits.maxLength) {
+    return {
+      value,
+      problem: `too long (${words} words, ${value.length} characters; max ${limits.maxWords} words, ${limits.maxLength} characters)`,
+    };
+  }
+
+  const prefix = limits.bannedPrefixes && value.match(limits.bannedPrefixes);
+  if (prefix) {
+    return { value, problem: `starts with "${prefix[0]}", which is redundant for screen readers` };
+  }
+
+  const script = LOCALE_SCRIPTS[context.locale.split("-")[0].toLowerCase()];
+  const letters = value.match(/\p{L}/gu) ?? [];
+  if (script && letters.length > 0) {
+    const matching = letters.filter((ch) => script.test(ch)).length;
+    // Brand names and product codes may use another script; most of the text must not
+    if (matching / letters.length < 0.5) {
+      return { value, problem: `not written in the language of locale "${context.locale}"` };
+    }
+  }
+
+  const normalized = normalizeText(value);
+  const duplicate = context.adjacentText?.find((text) => normalizeText(text) === normalized);
+  if (duplicate) {
+    return { value, problem: `repeats the visible text next to it ("${duplicate}")` };
+  }
+
+  return { value };
+}
+
+/** Feedback appended to the prompt when retrying after a rejected answer */
+export function buildRetryFeedback(value: string, problem: string): string {
+  return `\n\nYour previous answer "${value}" was rejected: ${problem}. Answer again, fixing that.`;
+}
+
+function cleanValue(rule: RuleId, raw: string): string {
+  let value = raw.replace(/\s+/g, " ").trim();
+  // Models often wrap the answer in quotes, sometimes more than once
+  let unwrapped = unwrapQuotes(value);
+  while (unwrapped !== value) {
+    value = unwrapped;
+    unwrapped = unwrapQuotes(value);
+  }
+  // Labels and titles are not sentences; alt text may be
+  if (rule !== "img-alt") value = value.replace(/(?<!\.)\.$/, "");
+  return value;
+}
+
+const QUOTE_PAIRS: [string, string][] = [
+  ['"', '"'],
+  ["'", "'"],
+  ["`", "`"],
+  ["“", "”"],
+  ["„", "”"],
+  ["„", "“"],
+  ["«", "»"],
+  ["「", "」"],
+];
+
+function unwrapQuotes(value: string): string {
+  for (const [open, close] of QUOTE_PAIRS) {
+    if (value.length >= open.length + close.length && value.startsWith(open) && value.endsWith(close)) {
+      return value.slice(open.length, value.length - close.length).trim();
+    }
+  }
+  return value;
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
@@ -0,0 +1,170 @@
+import { Node, SyntaxKind } from "ts-morph";
+import type { SourceFile } from "ts-morph";
+import type { JsxElement, NodeAnchor, Violation } from "../scan/types.js";
+
+/**
+ * Node anchors: violations remember the start offset, kind and tag of the node
+ * they were reported on. Every fix records the text region it changed, so an
+ * anchor taken before any edit can be mapped to the node's current position.
+ */
+
+/** Edits are kept in application order; `start` is in the text right before the edit */
+interface TextEdit {
+  start: number;
+  /** Length of the replaced text */
+  oldLength: number;
+  newLength: number;
+}
+
+interface FileFixState {
+  edits: TextEdit[];
+  /** Fixes applied so far, used for conflict detection */
+  applied: Violation[];
+}
+
+const fileStates = new WeakMap<SourceFile, FileFixState>();
+
+function getState(file: SourceFile): FileFixState {
+  let state = fileStates.get(file);
+  if (!state) {
+    state = { edits: [], applied: [] };
+    fileStates.set(file, state);
+  }
+  return state;
+}
+
+export function createAnchor(node: Node, start = node.getStart()): NodeAnchor {
+  return { start, kind: node.getKind(), tag: getAnchorTag(node) };
+}
+
+/** Tag name for JSX elements, attribute name for JSX attributes */
+function getAnchorTag(node: Node): string | undefined {
+  if (Node.isJsxOpeningElement(node) || Node.isJsxSelfClosingElement(node)) {
+    return node.getTagNameNode().getText();
+  }
+  if (Node.isJsxElement(node)) {
+    return node.getOpeningElement().getTagNameNode().getText();
+  }
+  if (Node.isJsxAttribute(node)) {
+    return node.getNameNode().getText();
+  }
+  return undefined;
+}
+
+/**
+ * Map an offset from the originally scanned text through all recorded edits.
+ * Returns undefined when the offset was inside replaced text.
+ */
+function mapOffset(file: SourceFile, offset: number): number | undefined {
+  let mapped = offset;
+  for (const edit of getState(file).edits) {
+    if (mapped < edit.start) continue;
+    if (mapped < edit.start + edit.oldLength) return undefined;
+    mapped += edit.newLength - edit.oldLength;
+  }
+  return mapped;
+}
+
+/**
+ * Find the node an anchor points to in the current text of the file: a node of
+ * the same kind (and tag) starting at the mapped offset. JsxText anchors may
+ * point inside the text (e.g. at one emoji of several).
+ */
+export function resolveAnchor(file: SourceFile, anchor: NodeAnchor): Node | undefined {
+  const pos = mapOffset(file, anchor.start);
+  if (pos === undefined) return undefined;
+
+  const innermost = file.getDescendantAtPos(pos);
+  if (!innermost) return undefined;
+
+  for (const node of [innermost, ...innermost.getAncestors()]) {
+    if (node.getKind() !== anchor.kind) continue;
+    const matchesPos = anchor.kind === SyntaxKind.JsxText
+      ? node.getStart() <= pos && pos < node.getEnd()
+      : node.getStart() === pos;
+    if (!matchesPos) continue;
+    if (anchor.tag !== undefined && getAnchorTag(node) !== anchor.tag) return undefined;
+    return node;
+  }
+  return undefined;
+}
+
+/**
+ * The JSX element a violation was reported on. Other elements may start on the
+ * same line (a wrapper, a second <img>), so never match by line number.
+ */
+export function resolveAnchoredElement(file: SourceFile, violation: Violation): JsxElement | undefined {
+  const node = violation.anchor && resolveAnchor(file, violation.anchor);
+  return node && (Node.isJsxOpeningElement(node) || Node.isJsxSelfClosingElement(node)) ? node : undefined;
+}
+
+/** Current offset of an anchor, after edits (JsxText anchors can point mid-node) */
+export function resolveAnchorOffset(file: SourceFile, anchor: NodeAnchor): number | undefined {
+  return mapOffset(file, anchor.start);
+}
+
+/**
+ * Run an edit and record the changed text region so later anchors can be
+ * re-resolved. Regions are found by diffing the text before and after.
+ * An edit that touches several distant places (both tags of an element) can
+ * track each part with a nested call; the outer call then records nothing, so
+ * anchors between the parts stay valid.
+ */
+export async function trackEdit<T>(file: SourceFile, edit: () => T | Promise<T>): Promise<T> {
+  const state = getState(file);
+  const recorded = state.edits.length;
+  const before = file.getFullText();
+  const result = await edit();
+  const after = file.getFullText();
+  if (before === after || state.edits.length > recorded) return result;
+
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - start &&
+    suffix < after.length - start &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  state.edits.push({
+    start,
+    oldLength: before.length - start - suffix,
+    newLength: after.length - start - suffix,
+  });
+  return result;
+}
+
+/**
+ * The already-applied fix that conflicts with this one, if any: both target the
+ * same node and either set the same attribute or restructure the node.
+ */
+export function getFixConflict(file: SourceFile, violation: Violation): Violation | undefined {
+  const anchor = violation.anchor;
+  if (!anchor || !violation.fix) return undefined;
+
+  return getState(file).applied.find((other) => {
+    if (!other.anchor || !other.fix) return false;
+    if (other.anchor.start !== anchor.start || other.anchor.kind !== anchor.kind) return false;
+    if (isStructural(violation) || isStructural(other)) return true;
+    return other.fix.attribute === violation.fix!.attribute;
+  });
+}
+
+export function recordAppliedFix(file: SourceFile, violation: Violation): void {
+  getState(file).applied.push(violation);
+}
+
+function isStructural(v: Violation): boolean {
+  return (
+    v.rule === "next-link-no-nested-a" ||
+    v.fix?.type === "wrap-element" ||
+    v.fix?.type === "insert-element" ||
+    v.fix?.type === "replace-tag" ||
+    v.fix?.type === "remove-element"
+  );
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { Project } from "ts-morph";
+import { applyFix } from "./apply.js";
+import { createImgAltRule } from "../rules/img-alt/img-alt.rule.js";
+import { createButtonTypeRule } from "../rules/button-type/button-type.rule.js";
+import { emojiAltRule } from "../rules/emoji-alt/emoji-alt.rule.js";
+import { nextLinkNoNestedARule } from "../rules/next-link-no-nested-a/next-link-no-nested-a.rule.js";
+import type { Violation } from "../scan/types.js";
+
+const buttonTypeRule = createButtonTypeRule({});
+
+function createFile(code: string) {
+  const project = new Project({ useInMemoryFileSystem: true });
+  return project.createSourceFile("test.tsx", code);
+}
+
+function withValue(v: Violation, value: string): Violation {
+  return { ...v, fix: { ...v.fix!, value } };
+}
+
+describe("applyFix with node anchors", () => {
+  it("fixes the right element when two share a line", async () => {
+    const file = createFile(`const x = <p><img src="/a.png" /><img src="/b.png" /></p>;`);
+    const [a, b] = createImgAltRule({ fillAlt: false }).scan(file);
+
+    expect(await applyFix(file, withValue(b, "Second"))).toBe(true);
+    expect(await applyFix(file, withValue(a, "First"))).toBe(true);
+    expect(file.getFullText()).toBe(
+      `const x = <p><img src="/a.png" alt="First" /><img src="/b.png" alt="Second" /></p>;`
+    );
+  });
+
+  it("re-resolves anchors after a fix shifts lines", async () => {
+    const file = createFile(`import Link from "next/link";
+export function Nav() {
+  return (
+    <div>
+      <Link href="/">
+        <a className="home">
+          Home
+        </a>
+      </Link>
+      <button>Go</button>
+    </div>
+  );
+}
+`);
+    const [link] = nextLinkNoNestedARule.scan(file);
+    const [button] = buttonTypeRule.scan(file);
+
+    // Top-to-bottom: removing the nested <a> moves the button up two lines
+    expect(await applyFix(file, link)).toBe(true);
+    expect(await applyFix(file, button)).toBe(true);
+    expect(file.getFullText()).toContain(`<button type="button">Go</button>`);
+    expect(file.getFullText()).toContain(`<Link href="/" className="home">`);
+  });
+
+  it("wraps each emoji of a text node separately", async () => {
+    const file = createFile(`const x = <p>Hot 🔥 and strong 💪</p>;`);
+    const [fire, biceps] = emojiAltRule.scan(file);
+
+    expect(await applyFix(file, fire)).toBe(true);
+    expect(await applyFix(file, biceps)).toBe(true);
+    expect(file.getFullText()).toContain(
+      `<span role="img" aria-label="fire">🔥</span> and strong <span role="img" aria-label="flexed biceps">💪</span>`
+    );
+  });
+
+  it("skips a second fix for the same node and attribute", async () => {
+    const file = createFile(`const x = <img src="/a.png" />;`);
+    const [v] = createImgAltRule({ fillAlt: false }).scan(file);
+
+    expect(await applyFix(file, withValue(v, "Logo"))).toBe(true);
+    expect(await applyFix(file, withValue({ ...v }, "Other"))).toBe(false);
+    expect(file.getFullText()).toBe(`const x = <img src="/a.png" alt="Logo" />;`);
+  });
+
+  it("allows fixes for different attributes on the same node", async () => {
+    const file = createFile(`const x = <button onClick={go}><MenuIcon /></button>;`);
+    const [typeFix] = buttonTypeRule.scan(file);
+    const labelFix: Violation = { ...typeFix, rule: "button-label", fix: { type: "insert-attr", attribute: "aria-label", value: "Open menu" } };
+
+    expect(await applyFix(file, typeFix)).toBe(true);
+    expect(await applyFix(file, labelFix)).toBe(true);
+    expect(file.getFullText()).toContain(`type="button" aria-label="Open menu"`);
+  });
+
+  it("falls back to line matching without an anchor", async () => {
+    const file = createFile(`const x = <img src="/a.png" />;`);
+    const [v] = createImgAltRule({ fillAlt: false }).scan(file);
+
+    expect(await applyFix(file, { ...withValue(v, "Logo"), anchor: undefined })).toBe(true);
+    expect(file.getFullText()).toContain(`alt="Logo"`);
+  });
+});
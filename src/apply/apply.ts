@@ -1,13 +1,37 @@
 import type { SourceFile } from "ts-morph";
 import { SyntaxKind } from "ts-morph";
-import type { Violation, Fix } from "../scan/types.js";
+import type { CustomRule, Violation, Fix, JsxElement } from "../scan/types.js";
+import { getFixConflict, recordAppliedFix, resolveAnchor, resolveAnchoredElement, trackEdit } from "./anchor.js";
 import { applyNextLinkNoNestedAFix } from "../rules/next-link-no-nested-a/next-link-no-nested-a.fix.js";
 import { applyEmojiAltFix } from "../rules/emoji-alt/emoji-alt.fix.js";
 import { applyNoPositiveTabindexFix } from "../rules/no-positive-tabindex/no-positive-tabindex.fix.js";
+import { applyMediaCaptionsFix } from "../rules/media-captions/media-captions.fix.js";
+import { applySvgLabelFix } from "../rules/svg-label/svg-label.fix.js";
+import { applyNoDivInteractiveFix } from "../rules/no-div-interactive/no-div-interactive.fix.js";
+import { getCustomRule } from "../rules/registry.js";
 
+/**
+ * Apply a violation's fix to the file. Returns false when the target can't be
+ * found or another applied fix already changed the same node (conflict).
+ * `customRules` supplies the fix appliers of plugin rules.
+ */
 export async function applyFix(
   file: SourceFile,
-  violation: Violation
+  violation: Violation,
+  customRules: CustomRule[] = []
+): Promise<boolean> {
+  if (!violation.fix) return false;
+  if (getFixConflict(file, violation)) return false;
+
+  const applied = await trackEdit(file, () => applyFixToTarget(file, violation, customRules));
+  if (applied) recordAppliedFix(file, violation);
+  return applied;
+}
+
+async function applyFixToTarget(
+  file: SourceFile,
+  violation: Violation,
+  customRules: CustomRule[]
 ): Promise<boolean> {
   if (!violation.fix) return false;
 
@@ -29,6 +53,27 @@ export async function applyFix(
     return true;
   }
 
+  // media-captions uses a custom fix (add controls, append <track> child)
+  if (violation.rule === "media-captions") {
+    return applyMediaCaptionsFix(file, violation);
+  }
+
+  // svg-label uses a custom fix (role="img" alongside aria-label)
+  if (violation.rule === "svg-label") {
+    return applySvgLabelFix(file, violation);
+  }
+
+  // no-div-interactive uses a custom fix (convert to <button>, or role + keyboard handler)
+  if (violation.rule === "no-div-interactive") {
+    return applyNoDivInteractiveFix(file, violation);
+  }
+
+  // Custom rules may bring their own fix applier
+  const customApplier = getCustomRule(customRules, violation.rule)?.applyFix;
+  if (customApplier) {
+    return customApplier(file, violation);
+  }
+
   const fix = violation.fix;
   let value =
     typeof fix.value === "function" ? await fix.value() : fix.value;
@@ -43,45 +88,67 @@ export async function applyFix(
 
   switch (fix.type) {
     case "insert-attr":
-      return insertAttribute(file, violation.line, fix.attribute!, value);
+      return insertAttribute(file, violation, fix.attribute!, value);
     case "replace-attr":
-      return replaceAttribute(file, violation.line, fix.attribute!, value);
+      return replaceAttribute(file, violation, fix.attribute!, value);
+    case "rename-attr":
+      return renameAttribute(file, violation, fix.attribute!, value);
+    case "remove-attr":
+      return removeAttribute(file, violation, fix.attribute!);
     case "wrap-element":
-      return wrapElement(file, violation.line, value);
+      return wrapElement(file, getTargetLine(file, violation), value);
     case "insert-element":
-      return insertElement(file, violation.line, value);
+      return insertElement(file, getTargetLine(file, violation), value);
     case "insert-metadata":
+      if (fix.localeParam && fix.values && Object.keys(fix.values).length > 1) {
+        return insertLocalizedMetadata(file, fix.attribute!, fix.values, fix.localeParam);
+      }
       return insertMetadata(file, fix.attribute!, value);
     case "remove-element":
-      return removeElement(file, violation.line);
+      return removeElement(file, getTargetLine(file, violation));
     default:
       return false;
   }
 }
 
+/**
+ * JSX elements a fix may target: the anchored element, or — for violations
+ * without an anchor — every element starting on the violation line.
+ */
+export function findTargetElements(file: SourceFile, violation: Violation): JsxElement[] {
+  if (violation.anchor) {
+    const el = resolveAnchoredElement(file, violation);
+    return el ? [el] : [];
+  }
+
+  return [
+    ...file.getDescendantsOfKind(SyntaxKind.JsxOpeningElement),
+    ...file.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement),
+  ].filter((el) => el.getStartLineNumber() === violation.line);
+}
+
+/** Current line of the anchored node (lines shift as earlier fixes add text) */
+function getTargetLine(file: SourceFile, violation: Violation): number {
+  if (!violation.anchor) return violation.line;
+  return resolveAnchor(file, violation.anchor)?.getStartLineNumber() ?? -1;
+}
+
 function insertAttribute(
   file: SourceFile,
-  line: number,
+  violation: Violation,
   attribute: string,
   value: string
 ): boolean {
-  const elements = [
-    ...file.getDescendantsOfKind(SyntaxKind.JsxOpeningElement),
-    ...file.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement),
-  ];
-
-  for (const el of elements) {
-    if (el.getStartLineNumber() === line) {
-      const existing = el.getAttribute(attribute);
-      if (!existing) {
-        if (value.startsWith("{")) {
-          el.addAttribute({ name: attribute, initializer: value });
-        } else {
-          const escaped = value.replace(/"/g, "&quot;");
-          el.addAttribute({ name: attribute, initializer: `"${escaped}"` });
-        }
-        return true;
+  for (const el of findTargetElements(file, violation)) {
+    const existing = el.getAttribute(attribute);
+    if (!existing) {
+      if (value.startsWith("{")) {
+        el.addAttribute({ name: attribute, initializer: value });
+      } else {
+        const escaped = value.replace(/"/g, "&quot;");
+        el.addAttribute({ name: attribute, initializer: `"${escaped}"` });
       }
+      return true;
     }
   }
   return false;
@@ -89,35 +156,28 @@ function insertAttribute(
 
 function replaceAttribute(
   file: SourceFile,
-  line: number,
+  violation: Violation,
   attribute: string,
   value: string
 ): boolean {
-  const elements = [
-    ...file.getDescendantsOfKind(SyntaxKind.JsxOpeningElement),
-    ...file.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement),
-  ];
-
-  for (const el of elements) {
-    if (el.getStartLineNumber() === line) {
-      const attr = el.getAttribute(attribute);
-      if (attr && attr.getKind() === SyntaxKind.JsxAttribute) {
-        const jsxAttr = attr.asKind(SyntaxKind.JsxAttribute);
-        if (jsxAttr) {
-          const initializer = jsxAttr.getInitializer();
-          if (initializer) {
-            // Handle both string literal and jsx expression
-            if (value.startsWith("{")) {
-              initializer.replaceWithText(value);
-            } else {
-              initializer.replaceWithText(`"${value}"`);
-            }
-            return true;
+  for (const el of findTargetElements(file, violation)) {
+    const attr = el.getAttribute(attribute);
+    if (attr && attr.getKind() === SyntaxKind.JsxAttribute) {
+      const jsxAttr = attr.asKind(SyntaxKind.JsxAttribute);
+      if (jsxAttr) {
+        const initializer = jsxAttr.getInitializer();
+        if (initializer) {
+          // Handle both string literal and jsx expression
+          if (value.startsWith("{")) {
+            initializer.replaceWithText(value);
           } else {
-            // Boolean attribute → add initializer
-            jsxAttr.setInitializer(`"${value}"`);
-            return true;
+            initializer.replaceWithText(`"${value}"`);
           }
+          return true;
+        } else {
+          // Boolean attribute → add initializer
+          jsxAttr.setInitializer(`"${value}"`);
+          return true;
         }
       }
     }
@@ -125,6 +185,38 @@ function replaceAttribute(
   return false;
 }
 
+/** Renames an attribute, keeping its value: aria-lable="Close" → aria-label="Close" */
+function renameAttribute(
+  file: SourceFile,
+  violation: Violation,
+  attribute: string,
+  newName: string
+): boolean {
+  for (const el of findTargetElements(file, violation)) {
+    const attr = el.getAttribute(attribute)?.asKind(SyntaxKind.JsxAttribute);
+    if (attr && !el.getAttribute(newName)) {
+      attr.getNameNode().replaceWithText(newName);
+      return true;
+    }
+  }
+  return false;
+}
+
+function removeAttribute(
+  file: SourceFile,
+  violation: Violation,
+  attribute: string
+): boolean {
+  for (const el of findTargetElements(file, violation)) {
+    const attr = el.getAttribute(attribute);
+    if (attr) {
+      attr.remove();
+      return true;
+    }
+  }
+  return false;
+}
+
 function wrapElement(
   file: SourceFile,
   line: number,
@@ -206,6 +298,59 @@ function insertMetadata(
 
   // No metadata found — insert new export after last import
   const metadataLine = `export const metadata = { ${attribute}: ${titleLiteral} };\n\n`;
+  file.insertText(getPosAfterImports(file), metadataLine);
+  return true;
+}
+
+/**
+ * `[locale]` pages: one value per locale, picked from the route param in
+ * generateMetadata. An existing `metadata` export (a page can't have both)
+ * becomes the base the value is added to.
+ */
+function insertLocalizedMetadata(
+  file: SourceFile,
+  attribute: string,
+  values: Record<string, string>,
+  param: string
+): boolean {
+  if (file.getFunction("generateMetadata")) return false;
+
+  let base = "";
+  const metadata = file.getVariableStatement((stmt) =>
+    stmt.isExported() && stmt.getDeclarations().some((d) => d.getName() === "metadata")
+  );
+  if (metadata) {
+    metadata.setIsExported(false);
+    file.getVariableDeclarationOrThrow("metadata").getNameNode().replaceWithText("baseMetadata");
+    base = "...baseMetadata, ";
+  }
+
+  const typed = /\.tsx?$/.test(file.getFilePath());
+  const name = `page${attribute.charAt(0).toUpperCase()}${attribute.slice(1)}s`;
+  const defaultLocale = Object.keys(values)[0];
+  const entries = Object.entries(values)
+    .map(([locale, value]) => `  ${JSON.stringify(locale)}: ${JSON.stringify(value)},`)
+    .join("\n");
+  const code =
+    `const ${name}${typed ? ": Record<string, string>" : ""} = {\n${entries}\n};\n\n` +
+    `export async function generateMetadata({ params }${typed ? `: { params: Promise<{ ${param}: string }> }` : ""}) {\n` +
+    `  const { ${param} } = await params;\n` +
+    `  return { ${base}${attribute}: ${name}[${param}] ?? ${name}[${JSON.stringify(defaultLocale)}] };\n` +
+    `}\n\n`;
+
+  const baseStatement = metadata && file.getVariableStatement((stmt) =>
+    stmt.getDeclarations().some((d) => d.getName() === "baseMetadata")
+  );
+  if (baseStatement) {
+    file.insertText(baseStatement.getEnd(), `\n\n${code.trimEnd()}`);
+  } else {
+    file.insertText(getPosAfterImports(file), code);
+  }
+  return true;
+}
+
+/** Start of the first statement after the imports (0 in a file without any) */
+function getPosAfterImports(file: SourceFile): number {
   const statements = file.getStatements();
   let insertIndex = 0;
 
@@ -224,12 +369,9 @@ function insertMetadata(
 
   const prevStatement = statements[insertIndex - 1];
   const nextStatement = statements[insertIndex];
-  const insertPos = nextStatement
+  return nextStatement
     ? nextStatement.getStart()
     : prevStatement
       ? prevStatement.getEnd()
       : 0;
-
-  file.insertText(insertPos, metadataLine);
-  return true;
 }
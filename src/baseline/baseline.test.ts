@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { Project } from "ts-morph";
+import {
+  applyBaseline,
+  createBaseline,
+  fingerprintViolations,
+  getEnclosingComponent,
+} from "./baseline.js";
+import { createButtonTypeRule } from "../rules/button-type/button-type.rule.js";
+
+const rule = createButtonTypeRule({});
+
+function scan(code: string) {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const file = project.createSourceFile("/app/components/Nav.tsx", code);
+  return { project, file, violations: rule.scan(file) };
+}
+
+const ORIGINAL = `export function Nav() {
+  return <button onClick={open}>Menu</button>;
+}
+`;
+
+describe("baseline", () => {
+  it("finds the enclosing component for a line", () => {
+    const { file } = scan(`const helper = 1;
+export const Header = () => {
+  const onClick = () => {
+    return <button>Open</button>;
+  };
+  return null;
+};
+`);
+    expect(getEnclosingComponent(file, 4)).toBe("Header");
+    expect(getEnclosingComponent(file, 1)).toBe("");
+  });
+
+  it("suppresses known violations after unrelated lines shift them", () => {
+    const before = scan(ORIGINAL);
+    const baseline = createBaseline(before.project, before.violations, "/app");
+    expect(baseline.violations).toHaveLength(1);
+    expect(baseline.violations[0]).toMatchObject({
+      rule: "button-type",
+      file: "components/Nav.tsx",
+      component: "Nav",
+      count: 1,
+    });
+
+    const after = scan(`import { open } from "./menu";\n\n${ORIGINAL}`);
+    const fingerprints = fingerprintViolations(after.project, after.violations, "/app");
+    const { newViolations, suppressed } = applyBaseline(baseline, after.violations, fingerprints);
+    expect(suppressed).toBe(1);
+    expect(newViolations).toHaveLength(0);
+  });
+
+  it("reports violations beyond the recorded count as new", () => {
+    const before = scan(ORIGINAL);
+    const baseline = createBaseline(before.project, before.violations, "/app");
+
+    const after = scan(`export function Nav() {
+  return (
+    <>
+      <button onClick={open}>Menu</button>
+      <button onClick={open}>Menu</button>
+    </>
+  );
+}
+`);
+    const fingerprints = fingerprintViolations(after.project, after.violations, "/app");
+    const { newViolations, suppressed } = applyBaseline(baseline, after.violations, fingerprints);
+    expect(suppressed).toBe(1);
+    expect(newViolations).toHaveLength(1);
+  });
+
+  it("treats the same element in another component as new", () => {
+    const before = scan(ORIGINAL);
+    const baseline = createBaseline(before.project, before.violations, "/app");
+
+    const after = scan(ORIGINAL.replace("Nav", "Footer"));
+    const fingerprints = fingerprintViolations(after.project, after.violations, "/app");
+    expect(applyBaseline(baseline, after.violations, fingerprints).newViolations).toHaveLength(1);
+  });
+});
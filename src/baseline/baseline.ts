@@ -0,0 +1,192 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as crypto from "node:crypto";
+import { Node, SyntaxKind } from "ts-morph";
+import type { Project, SourceFile } from "ts-morph";
+import type { Violation } from "../scan/types.js";
+
+export const BASELINE_VERSION = 1;
+export const DEFAULT_BASELINE_FILE = "a11y-baseline.json";
+
+export interface BaselineEntry {
+  fingerprint: string;
+  rule: string;
+  /** Path relative to the baseline file's directory */
+  file: string;
+  component: string;
+  element: string;
+  /** Number of identical violations (same fingerprint) that are accepted */
+  count: number;
+}
+
+export interface Baseline {
+  version: typeof BASELINE_VERSION;
+  createdAt: string;
+  violations: BaselineEntry[];
+}
+
+interface FingerprintParts {
+  rule: string;
+  file: string;
+  component: string;
+  element: string;
+}
+
+/**
+ * Fingerprint violations so they survive line shifts: rule + relative file +
+ * normalized element text + enclosing component. Line numbers are not part of it.
+ * Must run before fixes are applied — the component lookup uses violation lines.
+ */
+export function fingerprintViolations(
+  project: Project,
+  violations: Violation[],
+  root: string
+): Map<Violation, string> {
+  const fingerprints = new Map<Violation, string>();
+  for (const v of violations) {
+    fingerprints.set(v, hashParts(getFingerprintParts(project, v, root)));
+  }
+  return fingerprints;
+}
+
+export function createBaseline(
+  project: Project,
+  violations: Violation[],
+  root: string
+): Baseline {
+  const entries = new Map<string, BaselineEntry>();
+  for (const v of violations) {
+    const parts = getFingerprintParts(project, v, root);
+    const fingerprint = hashParts(parts);
+    const existing = entries.get(fingerprint);
+    if (existing) {
+      existing.count++;
+    } else {
+      entries.set(fingerprint, { fingerprint, ...parts, count: 1 });
+    }
+  }
+
+  return {
+    version: BASELINE_VERSION,
+    createdAt: new Date().toISOString(),
+    violations: [...entries.values()].sort(
+      (a, b) =>
+        a.file.localeCompare(b.file) ||
+        a.rule.localeCompare(b.rule) ||
+        a.fingerprint.localeCompare(b.fingerprint)
+    ),
+  };
+}
+
+export function saveBaseline(filePath: string, baseline: Baseline): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(baseline, null, 2) + "\n");
+}
+
+export function loadBaseline(filePath: string): Baseline {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Baseline file not found: ${filePath}. Create it with: npx next-a11y baseline create <path>`);
+  }
+  let data: Baseline;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch {
+    throw new Error(`Baseline file is not valid JSON: ${filePath}`);
+  }
+  if (data.version !== BASELINE_VERSION || !Array.isArray(data.violations)) {
+    throw new Error(`Unsupported baseline format in ${filePath} (expected version ${BASELINE_VERSION})`);
+  }
+  return data;
+}
+
+/**
+ * Split violations into ones already recorded in the baseline and new ones.
+ * Each baseline entry suppresses at most `count` matching violations.
+ */
+export function applyBaseline(
+  baseline: Baseline,
+  violations: Violation[],
+  fingerprints: Map<Violation, string>
+): { newViolations: Violation[]; suppressed: number } {
+  const remaining = new Map<string, number>();
+  for (const entry of baseline.violations) {
+    remaining.set(entry.fingerprint, (remaining.get(entry.fingerprint) ?? 0) + entry.count);
+  }
+
+  const newViolations: Violation[] = [];
+  let suppressed = 0;
+  for (const v of violations) {
+    const fingerprint = fingerprints.get(v);
+    const left = fingerprint ? remaining.get(fingerprint) ?? 0 : 0;
+    if (fingerprint && left > 0) {
+      remaining.set(fingerprint, left - 1);
+      suppressed++;
+    } else {
+      newViolations.push(v);
+    }
+  }
+  return { newViolations, suppressed };
+}
+
+function getFingerprintParts(project: Project, v: Violation, root: string): FingerprintParts {
+  const sourceFile = project.getSourceFile(v.filePath);
+  return {
+    rule: v.rule,
+    file: path.relative(root, v.filePath).replace(/\\/g, "/"),
+    component: sourceFile ? getEnclosingComponent(sourceFile, v.line) : "",
+    element: v.element.replace(/\s+/g, " ").trim(),
+  };
+}
+
+function hashParts(parts: FingerprintParts): string {
+  return crypto
+    .createHash("sha256")
+    .update([parts.rule, parts.file, parts.component, parts.element].join("\0"))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Name of the component (or nearest named function) enclosing the given line.
+ * Prefers PascalCase names; returns "" for module-level code.
+ */
+export function getEnclosingComponent(file: SourceFile, line: number): string {
+  const lineStarts = file.compilerNode.getLineStarts();
+  if (line < 1 || line > lineStarts.length) return "";
+
+  const lineStart = lineStarts[line - 1];
+  const lineText = file.getFullText().slice(lineStart).split("\n")[0];
+  const indent = lineText.length - lineText.trimStart().length;
+  const node = file.getDescendantAtPos(lineStart + indent);
+  if (!node) return "";
+
+  let fallback = "";
+  for (const ancestor of node.getAncestors()) {
+    const name = getDeclarationName(ancestor);
+    if (!name) continue;
+    if (/^[A-Z]/.test(name)) return name;
+    if (!fallback) fallback = name;
+  }
+  return fallback;
+}
+
+function getDeclarationName(node: Node): string | undefined {
+  if (Node.isFunctionDeclaration(node) || Node.isClassDeclaration(node)) {
+    return node.getName();
+  }
+  if (Node.isMethodDeclaration(node)) {
+    return node.getName();
+  }
+  if (Node.isVariableDeclaration(node)) {
+    const init = node.getInitializer();
+    if (
+      init &&
+      (init.isKind(SyntaxKind.ArrowFunction) ||
+        init.isKind(SyntaxKind.FunctionExpression) ||
+        init.isKind(SyntaxKind.CallExpression))
+    ) {
+      return node.getName();
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { FsCache, CACHE_VERSION } from "./fs-cache.js";
+import type { CacheEntry } from "./fs-cache.js";
+import { pruneCache } from "./prune.js";
+
+let tmpDir: string;
+let cacheDir: string;
+
+function entry(overrides: Partial<CacheEntry> = {}): CacheEntry {
+  return {
+    value: "Add to cart",
+    model: "gpt-4o-mini",
+    locale: "en",
+    rule: "button-label",
+    generatedAt: "2026-10-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "next-a11y-cache-"));
+  cacheDir = path.join(tmpDir, ".a11y-cache");
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("FsCache", () => {
+  it("writes a versioned file and discards caches of another version", () => {
+    new FsCache(cacheDir).set("a", entry());
+    const file = JSON.parse(fs.readFileSync(path.join(cacheDir, "cache.json"), "utf-8"));
+    expect(file).toEqual({ version: CACHE_VERSION, entries: { a: entry() } });
+
+    // Pre-versioning format: a flat map of entries
+    fs.writeFileSync(path.join(cacheDir, "cache.json"), JSON.stringify({ a: entry() }));
+    expect(new FsCache(cacheDir).get("a")).toBeUndefined();
+  });
+
+  it("keys values by prompt, model and locale", () => {
+    const key = FsCache.createKey("input", { system: "prompt", model: "gpt-4o-mini", locale: "en" });
+    expect(FsCache.createKey("input", { system: "prompt", model: "gpt-4o-mini", locale: "en" })).toBe(key);
+    expect(FsCache.createKey("input", { system: "prompt v2", model: "gpt-4o-mini", locale: "en" })).not.toBe(key);
+    expect(FsCache.createKey("input", { system: "prompt", model: "gpt-4o", locale: "en" })).not.toBe(key);
+    expect(FsCache.createKey("input", { system: "prompt", model: "gpt-4o-mini", locale: "pl" })).not.toBe(key);
+  });
+
+  it("clears one rule", () => {
+    const cache = new FsCache(cacheDir);
+    cache.set("a", entry({ rule: "img-alt" }));
+    cache.set("b", entry());
+    expect(cache.clear("img-alt")).toBe(1);
+    expect(new FsCache(cacheDir).stats()).toMatchObject({ entries: 1, byRule: { "button-label": 1 } });
+  });
+});
+
+describe("pruneCache", () => {
+  it("removes entries for missing files and, optionally, old entries", () => {
+    fs.writeFileSync(path.join(tmpDir, "hero.png"), "png");
+    const cache = new FsCache(cacheDir);
+    cache.set("kept", entry({ source: "hero.png", generatedAt: "2026-10-15T00:00:00.000Z" }));
+    cache.set("gone", entry({ source: "deleted.png" }));
+    cache.set("old", entry({ generatedAt: "2026-01-01T00:00:00.000Z" }));
+
+    expect(pruneCache(cache, { cwd: tmpDir })).toEqual({ missing: 1, expired: 0 });
+    expect(cache.has("old")).toBe(true);
+
+    const result = pruneCache(cache, { cwd: tmpDir, olderThanDays: 30, now: new Date("2026-10-18T00:00:00.000Z") });
+    expect(result).toEqual({ missing: 0, expired: 1 });
+    expect(Object.keys(new FsCache(cacheDir).stats().byRule)).toEqual(["button-label"]);
+    expect(cache.has("kept")).toBe(true);
+  });
+});
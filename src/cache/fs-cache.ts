@@ -2,17 +2,35 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import * as crypto from "node:crypto";
 
+/** Bumped when keys or entries change shape; files of another version are discarded */
+export const CACHE_VERSION = 2;
+
 export interface CacheEntry {
   value: string;
   model: string;
   locale: string;
   rule: string;
   generatedAt: string;
+  /** Structured answers only; entries from plain-text answers have none */
+  confidence?: number;
+  decorative?: boolean;
+  rationale?: string;
+  /** Hash of the system prompt the value was generated with */
+  promptHash?: string;
+  /** Image or source file the value describes, relative to the working directory (see `cache prune`) */
+  source?: string;
 }
 
 export interface CacheStats {
   entries: number;
   sizeBytes: number;
+  /** Entry count per rule */
+  byRule: Record<string, number>;
+}
+
+interface CacheFile {
+  version: number;
+  entries: Record<string, CacheEntry>;
 }
 
 export class FsCache {
@@ -29,7 +47,9 @@ export class FsCache {
   private load(): Record<string, CacheEntry> {
     try {
       if (fs.existsSync(this.cachePath)) {
-        return JSON.parse(fs.readFileSync(this.cachePath, "utf-8"));
+        const file = JSON.parse(fs.readFileSync(this.cachePath, "utf-8")) as Partial<CacheFile>;
+        // Older caches were keyed without prompt and model — they can't be hit, start fresh
+        if (file.version === CACHE_VERSION && file.entries) return file.entries;
       }
     } catch {
       // Corrupted cache — start fresh
@@ -39,7 +59,8 @@ export class FsCache {
 
   private save(): void {
     fs.mkdirSync(this.cacheDir, { recursive: true });
-    fs.writeFileSync(this.cachePath, JSON.stringify(this.data, null, 2));
+    const file: CacheFile = { version: CACHE_VERSION, entries: this.data };
+    fs.writeFileSync(this.cachePath, JSON.stringify(file, null, 2));
   }
 
   static hashContent(content: Buffer | string): string {
@@ -50,6 +71,16 @@ export class FsCache {
       .slice(0, 16);
   }
 
+  /**
+   * Key of a generated value: a hash of what it describes plus everything
+   * that changes the answer — prompt template, model and locale.
+   */
+  static createKey(input: string, options: { system: string; model: string; locale: string }): string {
+    return FsCache.hashContent(
+      `${input}:${FsCache.hashContent(options.system)}:${options.model}:${options.locale}`
+    );
+  }
+
   get(key: string): CacheEntry | undefined {
     return this.data[key];
   }
@@ -63,15 +94,37 @@ export class FsCache {
     return key in this.data;
   }
 
-  clear(): void {
+  /** Remove every entry, or only those of one rule */
+  clear(rule?: string): number {
+    if (rule !== undefined) return this.prune((entry) => entry.rule === rule);
+
+    const removed = Object.keys(this.data).length;
     this.data = {};
     if (fs.existsSync(this.cachePath)) {
       fs.unlinkSync(this.cachePath);
     }
+    return removed;
+  }
+
+  /** Remove entries matching the predicate; returns how many were removed */
+  prune(predicate: (entry: CacheEntry, key: string) => boolean): number {
+    let removed = 0;
+    for (const [key, entry] of Object.entries(this.data)) {
+      if (predicate(entry, key)) {
+        delete this.data[key];
+        removed++;
+      }
+    }
+    if (removed > 0) this.save();
+    return removed;
   }
 
   stats(): CacheStats {
     const entries = Object.keys(this.data).length;
+    const byRule: Record<string, number> = {};
+    for (const entry of Object.values(this.data)) {
+      byRule[entry.rule] = (byRule[entry.rule] ?? 0) + 1;
+    }
     let sizeBytes = 0;
     try {
       if (fs.existsSync(this.cachePath)) {
@@ -80,6 +133,6 @@ export class FsCache {
     } catch {
       // ignore
     }
-    return { entries, sizeBytes };
+    return { entries, sizeBytes, byRule };
   }
 }
@@ -0,0 +1,44 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { FsCache } from "./fs-cache.js";
+
+export interface PruneOptions {
+  /** Directory entry sources are relative to */
+  cwd: string;
+  /** Also remove entries generated more than this many days ago */
+  olderThanDays?: number;
+  now?: Date;
+}
+
+export interface PruneResult {
+  /** Entries whose image or source file no longer exists */
+  missing: number;
+  /** Entries older than `olderThanDays` */
+  expired: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Remove cache entries for files that are gone and, optionally, old entries */
+export function pruneCache(cache: FsCache, options: PruneOptions): PruneResult {
+  const result: PruneResult = { missing: 0, expired: 0 };
+  const cutoff =
+    options.olderThanDays !== undefined
+      ? (options.now ?? new Date()).getTime() - options.olderThanDays * DAY_MS
+      : undefined;
+
+  cache.prune((entry) => {
+    if (entry.source && !fs.existsSync(path.resolve(options.cwd, entry.source))) {
+      result.missing++;
+      return true;
+    }
+    // Unparseable dates count as old
+    const generatedAt = Date.parse(entry.generatedAt);
+    if (cutoff !== undefined && !(generatedAt >= cutoff)) {
+      result.expired++;
+      return true;
+    }
+    return false;
+  });
+  return result;
+}
@@ -0,0 +1,40 @@
+import * as path from "node:path";
+import type { Command } from "commander";
+import pc from "picocolors";
+import { loadConfigFile, resolveConfig, detectLocaleFromProject } from "../config/resolve.js";
+import { detect } from "../scan/scan.js";
+import { createBaseline, saveBaseline, DEFAULT_BASELINE_FILE } from "../baseline/baseline.js";
+
+export function registerBaselineCommand(program: Command): void {
+  const baseline = program
+    .command("baseline")
+    .description("Manage the violation baseline (fail CI only on new violations)");
+
+  baseline
+    .command("create")
+    .description("Snapshot current violations into a baseline file")
+    .argument("<path>", "Path to scan")
+    .option("-o, --output <file>", "Baseline file to write", DEFAULT_BASELINE_FILE)
+    .action(async (targetPath: string, opts: { output: string }) => {
+      try {
+        const fileConfig = await loadConfigFile(process.cwd());
+        const detectedLocale = await detectLocaleFromProject(process.cwd());
+        const config = resolveConfig(fileConfig, { noAi: true, detectedLocale });
+
+        const outputPath = path.resolve(opts.output);
+        const ctx = await detect(targetPath, config);
+        const data = createBaseline(ctx.project, ctx.violations, path.dirname(outputPath));
+        saveBaseline(outputPath, data);
+
+        console.log(
+          pc.green(
+            `\n  Baseline created: ${ctx.violations.length} violations (${data.violations.length} unique) → ${path.relative(process.cwd(), outputPath) || outputPath}\n`
+          )
+        );
+        console.log(pc.dim(`  Commit it and run: npx next-a11y scan ${targetPath} --baseline ${opts.output}\n`));
+      } catch (err: any) {
+        console.error(pc.red(`\n  Error: ${err.message}\n`));
+        process.exit(1);
+      }
+    });
+}
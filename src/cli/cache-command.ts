@@ -1,7 +1,9 @@
 import type { Command } from "commander";
 import pc from "picocolors";
 import { FsCache } from "../cache/fs-cache.js";
+import { pruneCache } from "../cache/prune.js";
 import { loadConfigFile, resolveConfig } from "../config/resolve.js";
+import type { ResolvedConfig } from "../config/schema.js";
 
 export function registerCacheCommand(program: Command): void {
   const cache = program
@@ -12,8 +14,7 @@ export function registerCacheCommand(program: Command): void {
     .command("stats")
     .description("Show cache statistics")
     .action(async () => {
-      const fileConfig = await loadConfigFile(process.cwd());
-      const config = resolveConfig(fileConfig);
+      const config = await loadCacheConfig();
       const fsCache = new FsCache(config.cache);
       const stats = fsCache.stats();
 
@@ -23,22 +24,60 @@ export function registerCacheCommand(program: Command): void {
         `  Size:    ${formatBytes(stats.sizeBytes)}`
       );
       console.log(`  Path:    ${config.cache}/cache.json`);
+      const rules = Object.entries(stats.byRule).sort(([a], [b]) => a.localeCompare(b));
+      if (rules.length > 0) {
+        console.log("");
+        for (const [rule, count] of rules) {
+          console.log(`  ${rule.padEnd(20)} ${count}`);
+        }
+      }
       console.log("");
     });
 
   cache
     .command("clear")
     .description("Clear the cache")
-    .action(async () => {
-      const fileConfig = await loadConfigFile(process.cwd());
-      const config = resolveConfig(fileConfig);
+    .option("--rule <rule>", "Only clear entries generated for this rule (e.g. img-alt)")
+    .action(async (opts: { rule?: string }) => {
+      const config = await loadCacheConfig();
+      const fsCache = new FsCache(config.cache);
+      const removed = fsCache.clear(opts.rule);
+
+      console.log(
+        pc.green(opts.rule ? `\n  Cleared ${removed} ${opts.rule} entr${removed === 1 ? "y" : "ies"}.\n` : "\n  Cache cleared.\n")
+      );
+    });
+
+  cache
+    .command("prune")
+    .description("Remove entries for images and files no longer in the project")
+    .option("--older-than <days>", "Also remove entries generated more than this many days ago", parseInt)
+    .action(async (opts: { olderThan?: number }) => {
+      if (opts.olderThan !== undefined && !(opts.olderThan >= 0)) {
+        console.error(pc.red("\n  Error: --older-than must be a number of days\n"));
+        process.exit(1);
+      }
+      const config = await loadCacheConfig();
       const fsCache = new FsCache(config.cache);
-      fsCache.clear();
+      const { missing, expired } = pruneCache(fsCache, { cwd: process.cwd(), olderThanDays: opts.olderThan });
 
-      console.log(pc.green("\n  Cache cleared.\n"));
+      const parts = [`${missing} for missing files`];
+      if (opts.olderThan !== undefined) parts.push(`${expired} older than ${opts.olderThan} days`);
+      console.log(pc.green(`\n  Pruned ${missing + expired} entr${missing + expired === 1 ? "y" : "ies"} (${parts.join(", ")}).\n`));
     });
 }
 
+async function loadCacheConfig(): Promise<ResolvedConfig> {
+  try {
+    const fileConfig = await loadConfigFile(process.cwd());
+    return resolveConfig(fileConfig);
+  } catch (err: any) {
+    // Invalid plugin rules or config options surface here
+    console.error(pc.red(`\n  Error: ${err.message}\n`));
+    process.exit(1);
+  }
+}
+
 function formatBytes(bytes: number): string {
   if (bytes === 0) return "0 B";
   const units = ["B", "KB", "MB", "GB"];
@@ -1,13 +1,19 @@
 import pc from "picocolors";
-import type { Violation, RuleId } from "../scan/types.js";
+import type { CustomRule, Violation, RuleId, BuiltinRuleId } from "../scan/types.js";
 import type { ScanResult } from "../scan/types.js";
-import { getScoreBadge, WEIGHT_TABLE } from "../scan/score.js";
+import type { WatchUpdate } from "../scan/watch.js";
+import type { AiEstimate } from "../ai/estimate.js";
+import { getScoreBadge, getRuleWeight } from "../scan/score.js";
+import { getCustomRule, isBuiltinRule } from "../rules/registry.js";
 
-const RULE_ICONS: Record<RuleId, string> = {
+const RULE_ICONS: Record<BuiltinRuleId, string> = {
   "img-alt": "img",
   "button-label": "btn",
   "link-label": "lnk",
   "input-label": "inp",
+  "iframe-title": "ifr",
+  "media-captions": "med",
+  "svg-label": "svg",
   "html-lang": "lng",
   "emoji-alt": "emj",
   "no-positive-tabindex": "tab",
@@ -19,9 +25,21 @@ const RULE_ICONS: Record<RuleId, string> = {
   "next-skip-nav": "nav",
   "heading-order": "hdg",
   "no-div-interactive": "div",
+  "aria-valid": "ari",
 };
 
-export function formatReport(result: ScanResult, fix: boolean, quiet?: boolean): string {
+function getRuleIcon(rule: RuleId, customRules: CustomRule[]): string {
+  if (isBuiltinRule(rule)) return RULE_ICONS[rule];
+  return getCustomRule(customRules, rule)?.icon ?? "ext";
+}
+
+/** `customRules` (the config's plugin rules) supply icons, descriptions and weights */
+export function formatReport(
+  result: ScanResult,
+  fix: boolean,
+  quiet?: boolean,
+  customRules: CustomRule[] = []
+): string {
   if (quiet) {
     const badge = getScoreBadge(result.score);
     const colorFn =
@@ -33,7 +51,8 @@ export function formatReport(result: ScanResult, fix: boolean, quiet?: boolean):
     const fixable = result.violations.filter((v) => v.fix).length;
     const warnings = result.violations.filter((v) => !v.fix).length;
     if (fix && result.fixedCount > 0) {
-      return `${colorFn(result.score)}/100 (${result.fixedCount} fixed, ${warnings} warnings)\n`;
+      const fixedLabel = result.patch !== undefined ? "to fix" : "fixed";
+      return `${colorFn(result.score)}/100 (${result.fixedCount} ${fixedLabel}, ${warnings} warnings)\n`;
     }
     return `${colorFn(result.score)}/100 (${fixable} fixable, ${warnings} warnings)\n`;
   }
@@ -62,8 +81,18 @@ export function formatReport(result: ScanResult, fix: boolean, quiet?: boolean):
   lines.push("");
 
   if (result.violations.length === 0) {
-    lines.push(pc.green("  No accessibility issues found!"));
+    lines.push(
+      pc.green(
+        result.baselineSuppressed
+          ? `  No new accessibility issues (${result.baselineSuppressed} known violations suppressed by baseline)`
+          : "  No accessibility issues found!"
+      )
+    );
+    if (fix && result.fixedCount > 0 && result.patch !== undefined) {
+      lines.push(`  ${pc.cyan(`[DRY RUN]`)} ${result.fixedCount} fixes not written`);
+    }
     lines.push("");
+    formatSuppressionProblems(lines, result);
     return lines.join("\n");
   }
 
@@ -71,24 +100,30 @@ export function formatReport(result: ScanResult, fix: boolean, quiet?: boolean):
   // Rules like button-type produce violations without fix for custom components (e.g. <Button>).
   const aiViolations = result.violations.filter(
     (v) =>
-      ["img-alt", "button-label", "link-label", "input-label", "next-metadata-title"].includes(v.rule) &&
+      (["img-alt", "button-label", "link-label", "input-label", "iframe-title", "svg-label", "next-metadata-title"].includes(v.rule) ||
+        getCustomRule(customRules, v.rule)?.type === "ai") &&
       v.fix
   );
   const deterministicViolations = result.violations.filter(
     (v) =>
-      [
+      ([
         "html-lang",
         "emoji-alt",
         "no-positive-tabindex",
         "button-type",
         "link-noopener",
-      ].includes(v.rule) && v.fix
+        "media-captions",
+        "no-div-interactive",
+        "aria-valid",
+      ].includes(v.rule) ||
+        getCustomRule(customRules, v.rule)?.type === "deterministic") &&
+      v.fix
   );
   const nextViolations = result.violations.filter((v) =>
     ["next-image-sizes", "next-link-no-nested-a", "next-skip-nav"].includes(v.rule)
   );
-  const detectOnlyViolations = result.violations.filter((v) =>
-    ["heading-order", "no-div-interactive"].includes(v.rule)
+  const detectOnlyViolations = result.violations.filter(
+    (v) => ["heading-order", "no-div-interactive"].includes(v.rule) && !v.fix
   );
   const otherWarnings = result.violations.filter(
     (v) =>
@@ -99,20 +134,20 @@ export function formatReport(result: ScanResult, fix: boolean, quiet?: boolean):
 
   if (aiViolations.length > 0) {
     lines.push(`  ${pc.blue("[AI]")} ${pc.bold("fixes available:")}`);
-    formatViolationGroup(lines, aiViolations);
+    formatViolationGroup(lines, aiViolations, customRules);
     lines.push("");
   }
 
   if (deterministicViolations.length > 0) {
     lines.push(pc.bold("  Auto fixes available:"));
-    formatViolationGroup(lines, deterministicViolations);
+    formatViolationGroup(lines, deterministicViolations, customRules);
     lines.push("");
   }
 
   const allWarnings = [...detectOnlyViolations, ...nextViolations, ...otherWarnings];
   if (allWarnings.length > 0) {
     lines.push(pc.yellow(pc.bold("  Warnings (manual review needed):")));
-    formatViolationGroup(lines, allWarnings);
+    formatViolationGroup(lines, allWarnings, customRules);
     lines.push("");
   }
 
@@ -122,7 +157,9 @@ export function formatReport(result: ScanResult, fix: boolean, quiet?: boolean):
   const warnings = warningViolations.length;
   lines.push(pc.dim("  " + "-".repeat(40)));
 
-  if (fix && result.fixedCount > 0) {
+  if (fix && result.fixedCount > 0 && result.patch !== undefined) {
+    lines.push(`  ${pc.cyan(`[DRY RUN]`)} ${result.fixedCount} fixes not written · ${warnings} warnings`);
+  } else if (fix && result.fixedCount > 0) {
     lines.push(`  ${pc.green(`[FIXED]`)} ${result.fixedCount} · ${warnings} warnings`);
   } else {
     lines.push(
@@ -130,6 +167,18 @@ export function formatReport(result: ScanResult, fix: boolean, quiet?: boolean):
     );
   }
 
+  if (result.baselineSuppressed) {
+    lines.push(pc.dim(`  ${result.baselineSuppressed} known violations suppressed by baseline`));
+  }
+
+  if (result.conflicts?.length) {
+    const cwd = process.cwd() + "/";
+    lines.push(pc.yellow(`  ${result.conflicts.length} fix${result.conflicts.length === 1 ? "" : "es"} skipped — same element already fixed:`));
+    for (const { violation, conflictsWith } of result.conflicts) {
+      lines.push(pc.dim(`    ${violation.filePath.replace(cwd, "")}:${violation.line}  ${violation.rule} (conflicts with ${conflictsWith.rule})`));
+    }
+  }
+
   if (warningViolations.length > 0) {
     const cwd = process.cwd() + "/";
     const uniquePaths = [...new Set(warningViolations.map((v) => v.filePath.replace(cwd, "")))].sort();
@@ -140,6 +189,11 @@ export function formatReport(result: ScanResult, fix: boolean, quiet?: boolean):
     }
   }
 
+  if (result.suppressionProblems?.length) {
+    lines.push("");
+    formatSuppressionProblems(lines, result);
+  }
+
   // Delta
   if (result.previousScore !== undefined) {
     const delta = result.score - result.previousScore;
@@ -156,7 +210,126 @@ export function formatReport(result: ScanResult, fix: boolean, quiet?: boolean):
   return lines.join("\n");
 }
 
-function formatViolationGroup(lines: string[], violations: Violation[]): void {
+/**
+ * --estimate output: AI requests, tokens and projected cost of a --fix run.
+ */
+export function formatEstimate(estimate: AiEstimate, customRules: CustomRule[] = []): string {
+  const lines: string[] = [];
+  const model = estimate.provider ? `${estimate.provider}/${estimate.model}` : estimate.model;
+  lines.push("");
+  lines.push(pc.bold(`  AI estimate (${model})`));
+  lines.push("");
+
+  if (estimate.rules.length === 0) {
+    lines.push(pc.green("  No pending AI fixes."));
+    lines.push("");
+    return lines.join("\n");
+  }
+
+  for (const r of estimate.rules) {
+    const extras = [
+      r.cached > 0 ? `${r.cached} cached` : "",
+      r.skipped > 0 ? `${r.skipped} unresolvable` : "",
+    ].filter(Boolean);
+    lines.push(
+      `    [${getRuleIcon(r.rule, customRules)}] ${pc.bold(String(r.requests).padStart(3))} request${r.requests === 1 ? " " : "s"}` +
+        `  ~${(r.inputTokens + r.outputTokens).toLocaleString()} tokens` +
+        (extras.length > 0 ? pc.dim(`  (${extras.join(", ")})`) : "")
+    );
+  }
+
+  const totalTokens = estimate.inputTokens + estimate.outputTokens;
+  const cost =
+    estimate.costUsd === undefined
+      ? pc.dim("cost unknown — set ai.pricing")
+      : `~$${estimate.costUsd < 0.01 ? estimate.costUsd.toFixed(4) : estimate.costUsd.toFixed(2)}`;
+  lines.push("");
+  lines.push(`  ${"-".repeat(40)}`);
+  lines.push(
+    `  ${estimate.requests} requests · ${estimate.cached} cached · ~${totalTokens.toLocaleString()} tokens ` +
+      `(${estimate.inputTokens.toLocaleString()} in / ${estimate.outputTokens.toLocaleString()} out) · ${cost}`
+  );
+  if (estimate.remoteImages > 0) {
+    lines.push(pc.dim(`  ${estimate.remoteImages} remote image${estimate.remoteImages === 1 ? "" : "s"} not downloaded — counted as uncached`));
+  }
+  if (estimate.maxTokens !== undefined && totalTokens > estimate.maxTokens) {
+    lines.push(
+      pc.yellow(`  Exceeds the ${estimate.maxTokens.toLocaleString()} token budget — AI fixes past it will be left as warnings`)
+    );
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Colorize a unified diff for the terminal.
+ */
+export function formatPatch(patch: string): string {
+  if (!patch) return pc.dim("  No changes.\n");
+  return patch
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("---") || line.startsWith("+++")) return pc.bold(line);
+      if (line.startsWith("@@")) return pc.cyan(line);
+      if (line.startsWith("+")) return pc.green(line);
+      if (line.startsWith("-")) return pc.red(line);
+      return line;
+    })
+    .join("\n");
+}
+
+/**
+ * Incremental watch-mode output: what changed since the last run.
+ */
+export function formatWatchUpdate(update: WatchUpdate, customRules: CustomRule[] = []): string {
+  const cwd = process.cwd() + "/";
+  const lines: string[] = [];
+  const time = new Date().toLocaleTimeString();
+  const files = update.files.map((f) => f.replace(cwd, ""));
+  lines.push(`  ${pc.dim(`[${time}]`)} ${files.join(", ")}`);
+
+  for (const v of update.introduced) {
+    const icon = getRuleIcon(v.rule, customRules);
+    lines.push(`    ${pc.red("+")} ${pc.dim(icon)} ${pc.dim(`${v.filePath.replace(cwd, "")}:${v.line}`)}  ${v.message}`);
+  }
+  for (const v of update.resolved) {
+    const icon = getRuleIcon(v.rule, customRules);
+    lines.push(`    ${pc.green("-")} ${pc.dim(icon)} ${pc.dim(`${v.filePath.replace(cwd, "")}:${v.line}`)}  ${pc.strikethrough(v.message)}`);
+  }
+  if (update.introduced.length === 0 && update.resolved.length === 0) {
+    lines.push(pc.dim("    no change in violations"));
+  }
+
+  const { result } = update;
+  const badge = getScoreBadge(result.score);
+  const colorFn =
+    badge.color === "green"
+      ? pc.green
+      : badge.color === "yellow"
+        ? pc.yellow
+        : pc.red;
+  const delta = result.previousScore !== undefined ? result.score - result.previousScore : 0;
+  const deltaStr = delta > 0 ? pc.green(` (+${delta})`) : delta < 0 ? pc.red(` (${delta})`) : "";
+  lines.push(
+    `    ${colorFn(`${result.score}/100`)}${deltaStr} · ${result.violations.length} violation${result.violations.length === 1 ? "" : "s"}`
+  );
+  lines.push("");
+  return lines.join("\n");
+}
+
+function formatSuppressionProblems(lines: string[], result: ScanResult): void {
+  const problems = result.suppressionProblems ?? [];
+  if (problems.length === 0) return;
+
+  const cwd = process.cwd() + "/";
+  lines.push(pc.yellow(`  Suppression comments (${problems.length}):`));
+  for (const p of problems) {
+    const shortPath = p.filePath.replace(cwd, "");
+    lines.push(pc.dim(`    ${shortPath}:${p.line} — ${p.message} (${p.directive})`));
+  }
+}
+
+function formatViolationGroup(lines: string[], violations: Violation[], customRules: CustomRule[]): void {
   // Group by rule
   const byRule = new Map<RuleId, Violation[]>();
   for (const v of violations) {
@@ -169,10 +342,10 @@ function formatViolationGroup(lines: string[], violations: Violation[]): void {
 
   for (const [rule, ruleViolations] of byRule) {
     const count = ruleViolations.length;
-    const weight = WEIGHT_TABLE[rule] ?? 1;
+    const weight = getRuleWeight(rule, customRules);
     const totalPts = count * weight;
     const displayPts = Math.min(totalPts, MAX_DISPLAY_PTS);
-    const icon = RULE_ICONS[rule] ?? "???";
+    const icon = getRuleIcon(rule, customRules);
 
     const ptsSuffix =
       totalPts > 0
@@ -180,7 +353,7 @@ function formatViolationGroup(lines: string[], violations: Violation[]): void {
         : "";
 
     lines.push(
-      `    [${icon}] ${pc.bold(String(count).padStart(2))} ${formatRuleDescription(rule)}${ptsSuffix}`
+      `    [${icon}] ${pc.bold(String(count).padStart(2))} ${formatRuleDescription(rule, customRules)}${ptsSuffix}`
     );
 
     const cwd = process.cwd() + "/";
@@ -191,12 +364,15 @@ function formatViolationGroup(lines: string[], violations: Violation[]): void {
   }
 }
 
-function formatRuleDescription(rule: RuleId): string {
-  const descriptions: Record<RuleId, string> = {
+function formatRuleDescription(rule: RuleId, customRules: CustomRule[]): string {
+  const descriptions: Record<BuiltinRuleId, string> = {
     "img-alt": "images missing alt text",
     "button-label": "buttons without accessible name",
     "link-label": "links without accessible name",
     "input-label": "inputs without label",
+    "iframe-title": "iframes without title",
+    "media-captions": "media without captions or controls",
+    "svg-label": "svg graphics without accessible name",
     "html-lang": "missing lang on <html>",
     "emoji-alt": "emoji without role=\"img\"",
     "no-positive-tabindex": "positive tabIndex values",
@@ -208,14 +384,18 @@ function formatRuleDescription(rule: RuleId): string {
     "next-skip-nav": "missing skip navigation link",
     "heading-order": "heading hierarchy violations",
     "no-div-interactive": "div used as interactive element",
+    "aria-valid": "invalid or redundant ARIA",
   };
-  return descriptions[rule] ?? rule;
+  if (isBuiltinRule(rule)) return descriptions[rule];
+  return getCustomRule(customRules, rule)?.description ?? rule;
 }
 
 function getFixActionSummary(
   rule: string,
   fixValue?: string,
-  fixElement?: string
+  fixElement?: string,
+  fixAttribute?: string,
+  fixType?: string
 ): string {
   const quote = (s: string) => `"${s.replace(/"/g, '\\"')}"`;
   switch (rule) {
@@ -225,6 +405,13 @@ function getFixActionSummary(
     case "link-label":
     case "input-label":
       return fixValue ? `added aria-label ${quote(fixValue)}` : "added aria-label";
+    case "iframe-title":
+      return fixValue ? `added title ${quote(fixValue)}` : "added title";
+    case "svg-label":
+      if (fixAttribute === "aria-hidden") return "added aria-hidden=\"true\"";
+      return fixValue ? `added role="img" aria-label ${quote(fixValue)}` : "added aria-label";
+    case "media-captions":
+      return fixValue ? "added controls and captions <track>" : "added controls";
     case "html-lang":
       return fixValue ? `added lang ${quote(fixValue)}` : "added lang attribute";
     case "emoji-alt":
@@ -241,6 +428,12 @@ function getFixActionSummary(
       return fixValue ? `added metadata.title ${quote(fixValue)}` : "added metadata.title";
     case "next-link-no-nested-a":
       return "removed nested <a>";
+    case "no-div-interactive":
+      return fixValue === "button" ? "converted to <button>" : "added role, tabIndex and onKeyDown";
+    case "aria-valid":
+      if (fixType === "rename-attr") return `renamed ${fixAttribute} to ${fixValue}`;
+      if (fixType === "remove-attr") return `removed redundant ${fixAttribute}`;
+      return `set ${fixAttribute}=${quote(fixValue ?? "")}`;
     default:
       return fixValue ? `added ${rule} ${quote(fixValue)}` : rule;
   }
@@ -256,7 +449,7 @@ export function formatFixApplied(
   fixElement?: string
 ): string {
   const shortPath = filePath.replace(process.cwd() + "/", "");
-  const action = getFixActionSummary(rule, fixValue, fixElement);
+  const action = getFixActionSummary(rule, fixValue, fixElement, fixAttribute, fixType);
   return `  ${pc.green("[FIXED]")}  ${pc.dim(shortPath + ":" + line)}  ${action}`;
 }
 
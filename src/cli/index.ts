@@ -5,6 +5,7 @@ import { Command } from "commander";
 import { registerScanCommand } from "./scan-command.js";
 import { registerInitCommand } from "./init-command.js";
 import { registerCacheCommand } from "./cache-command.js";
+import { registerBaselineCommand } from "./baseline-command.js";
 
 const pkgPath = path.resolve(__dirname, "../../package.json");
 const pkg = JSON.parse(fs.readFileSync(pkgPath, "utf-8"));
@@ -24,5 +25,6 @@ program
 registerScanCommand(program);
 registerInitCommand(program);
 registerCacheCommand(program);
+registerBaselineCommand(program);
 
 program.parse();
@@ -207,6 +207,9 @@ ${providerLine}${modelLine}
     "button-label": "fix",
     "link-label": "fix",
     "input-label": "fix",
+    "iframe-title": "fix",
+    "media-captions": "fix",
+    "svg-label": "fix",
     "html-lang": "fix",
     "emoji-alt": "fix",
     "no-positive-tabindex": "fix",
@@ -217,6 +220,7 @@ ${providerLine}${modelLine}
     "next-skip-nav": "warn",
     "heading-order": "warn",
     "no-div-interactive": "warn",
+    "aria-valid": "fix",
   },
 });
 `;
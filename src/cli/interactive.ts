@@ -7,7 +7,9 @@ export type ReviewAction = "yes" | "no" | "skip" | "quit";
 
 export async function interactiveReview(
   violations: Violation[],
-  onAccept: (violation: Violation) => Promise<void>
+  onAccept: (violation: Violation) => Promise<void>,
+  /** AI suggestions below this confidence are highlighted */
+  minConfidence = 0.5
 ): Promise<{ applied: number; skipped: number }> {
   const fixable = violations.filter((v) => v.fix);
 
@@ -40,6 +42,10 @@ export async function interactiveReview(
       } else {
         console.log(`    ${value}`);
       }
+      if (violation.fix.confidence !== undefined) {
+        const confidence = `${Math.round(violation.fix.confidence * 100)}% confidence`;
+        console.log(`  ${violation.fix.confidence < minConfidence ? pc.yellow(confidence) : pc.dim(confidence)}${violation.fix.rationale ? pc.dim(` — ${violation.fix.rationale}`) : ""}`);
+      }
     }
 
     const action = await promptAction();
@@ -3,10 +3,19 @@ import * as path from "node:path";
 import { config as dotenvConfig } from "dotenv";
 import type { Command } from "commander";
 import pc from "picocolors";
-import { loadConfigFile, resolveConfig, detectLocaleFromProject } from "../config/resolve.js";
+import { loadConfigFile, resolveConfig, detectLocalesFromProject } from "../config/resolve.js";
 import { detect, resolveAi, applyAllFixes, fixViolation, finalize, scan } from "../scan/scan.js";
-import { formatReport, formatFixApplied } from "./format.js";
+import { watchScan } from "../scan/watch.js";
+import { formatReport, formatFixApplied, formatWatchUpdate, formatPatch, formatEstimate } from "./format.js";
+import { estimateAiFixes } from "../ai/estimate.js";
+import { formatJsonReport } from "../report/json-report.js";
+import { formatSarifReport } from "../report/sarif-report.js";
 import { interactiveReview } from "./interactive.js";
+import type { ResolvedConfig } from "../config/schema.js";
+import type { ScanResult } from "../scan/types.js";
+
+const REPORT_FORMATS = ["text", "json", "sarif"] as const;
+type ReportFormat = (typeof REPORT_FORMATS)[number];
 
 export function registerScanCommand(program: Command): void {
   const version = program.version() as string | undefined;
@@ -16,14 +25,25 @@ export function registerScanCommand(program: Command): void {
     .description("Scan files for accessibility issues")
     .argument("<path>", "Path to scan")
     .option("--fix", "Auto-fix issues")
+    .option("--dry-run", "With --fix: apply fixes in memory and print a unified diff instead of writing files")
+    .option("--patch <file>", "With --fix: write the fixes to a .patch file instead of the source files")
     .option("-i, --interactive", "Review each fix interactively")
     .option("--no-ai", "Skip AI-powered fixes (not recommended for best results)")
     .option("--provider <provider>", "Override AI provider")
     .option("--model <model>", "Override AI model")
     .option("--fill-alt", "Replace empty alt=\"\" with AI-generated text")
     .option("--locale <locale>", "Locale for generated content (e.g. en, pl, de)")
+    .option("--concurrency <n>", "Parallel AI requests (default 4, ollama 1)", parseInt)
+    .option("--budget <tokens>", "Stop AI generation after this many tokens; the rest stay warnings", parseInt)
+    .option("--estimate", "Estimate AI requests, tokens and cost of --fix without calling the model")
     .option("--min-score <score>", "Minimum heuristic score threshold (exit code 1 if below)", parseInt)
     .option("-q, --quiet", "Reduce output (no progress, minimal report)")
+    .option("--format <format>", `Report format (${REPORT_FORMATS.join(", ")})`, "text")
+    .option("--output <file>", "Write the report to a file (text report still printed)")
+    .option("--baseline <file>", "Suppress violations recorded in a baseline file; exit code 1 on new ones")
+    .option("--changed", "Only scan files with uncommitted changes (incl. untracked)")
+    .option("--since <ref>", "Only scan files changed since a git ref (e.g. origin/main)")
+    .option("-w, --watch", "Re-scan files on save and print introduced/resolved violations")
     .action(async (targetPath: string, options: any) => {
       // Also load .env files from the scan target directory
       let envDir = path.resolve(targetPath);
@@ -43,20 +63,109 @@ export function registerScanCommand(program: Command): void {
         searchDir = path.dirname(searchDir);
       }
 
+      const format = options.format as ReportFormat;
+      if (!REPORT_FORMATS.includes(format)) {
+        console.error(pc.red(`\n  Error: Unknown report format "${options.format}". Use one of: ${REPORT_FORMATS.join(", ")}\n`));
+        process.exit(1);
+      }
+      // Machine-readable report on stdout — keep progress logs out of it
+      const machineStdout = format !== "text" && !options.output;
+
+      // --patch implies --dry-run
+      const dryRun = Boolean(options.dryRun || options.patch);
+      if (dryRun && !options.fix) {
+        console.error(pc.red("\n  Error: --dry-run and --patch require --fix\n"));
+        process.exit(1);
+      }
+
       const fileConfig = await loadConfigFile(process.cwd());
-      const detectedLocale = await detectLocaleFromProject(process.cwd());
-      const config = resolveConfig(fileConfig, {
-        fix: options.fix,
-        interactive: options.interactive,
-        noAi: !options.ai, // commander inverts --no-ai to options.ai = false
-        fillAlt: options.fillAlt,
-        provider: options.provider,
-        model: options.model,
-        locale: options.locale,
-        detectedLocale,
-        minScore: options.minScore,
-        quiet: options.quiet,
-      });
+      const { defaultLocale: detectedLocale, locales: detectedLocales } = await detectLocalesFromProject(process.cwd());
+      let config: ResolvedConfig;
+      try {
+        config = resolveConfig(fileConfig, {
+          fix: options.fix,
+          dryRun,
+          interactive: options.interactive,
+          noAi: !options.ai, // commander inverts --no-ai to options.ai = false
+          fillAlt: options.fillAlt,
+          provider: options.provider,
+          model: options.model,
+          locale: options.locale,
+          detectedLocale,
+          detectedLocales,
+          minScore: options.minScore,
+          concurrency: options.concurrency,
+          budget: options.budget,
+          quiet: options.quiet || machineStdout,
+          baseline: options.baseline,
+          changedSince: options.since ?? (options.changed ? "HEAD" : undefined),
+        });
+      } catch (err: any) {
+        // Invalid plugin rules surface here
+        console.error(pc.red(`\n  Error: ${err.message}\n`));
+        process.exit(1);
+      }
+
+      const printReport = async (scanResult: ScanResult, fix: boolean) => {
+        if (options.output) {
+          fs.writeFileSync(path.resolve(options.output), await renderReport(scanResult, format, fix, config, version));
+        }
+        if (machineStdout) {
+          process.stdout.write(await renderReport(scanResult, format, fix, config, version));
+        } else {
+          console.log(formatReport(scanResult, fix, config.quiet, config.customRules));
+        }
+        if (scanResult.patch !== undefined) {
+          if (options.patch) {
+            fs.writeFileSync(path.resolve(options.patch), scanResult.patch);
+            if (!machineStdout) console.log(pc.dim(`  Patch written to ${options.patch} (apply with: git apply ${options.patch})\n`));
+          } else if (!machineStdout) {
+            console.log(formatPatch(scanResult.patch));
+          }
+        }
+      };
+
+      if (options.estimate) {
+        if (format === "sarif" || options.watch) {
+          console.error(pc.red("\n  Error: --estimate prints a text or JSON estimate; it can't be combined with --watch or --format sarif\n"));
+          process.exit(1);
+        }
+        try {
+          const ctx = await detect(targetPath, config);
+          const estimate = await estimateAiFixes({ config, project: ctx.project, violations: ctx.violations });
+          const output = format === "json" ? JSON.stringify(estimate, null, 2) + "\n" : stripAnsi(formatEstimate(estimate, config.customRules));
+          if (options.output) fs.writeFileSync(path.resolve(options.output), output);
+          if (format === "json" && !options.output) process.stdout.write(output);
+          else console.log(formatEstimate(estimate, config.customRules));
+        } catch (err: any) {
+          console.error(pc.red(`\n  Error: ${err.message}\n`));
+          process.exit(1);
+        }
+        return;
+      }
+
+      if (options.watch) {
+        if (config.fix || format !== "text" || options.output) {
+          console.error(pc.red("\n  Error: --watch only reports; it can't be combined with --fix, --format or --output\n"));
+          process.exit(1);
+        }
+        try {
+          const session = await watchScan(targetPath, config, {
+            onUpdate: (update) => console.log(formatWatchUpdate(update, config.customRules)),
+            onError: (err) => console.error(pc.red(`  Error: ${err.message}`)),
+          });
+          console.log(formatReport(session.initial, false, config.quiet, config.customRules));
+          console.log(pc.dim("  Watching for changes... (Ctrl+C to exit)\n"));
+          process.on("SIGINT", () => {
+            session.close();
+            process.exit(0);
+          });
+        } catch (err: any) {
+          console.error(pc.red(`\n  Error: ${err.message}\n`));
+          process.exit(1);
+        }
+        return;
+      }
 
       let result;
 
@@ -74,11 +183,12 @@ export function registerScanCommand(program: Command): void {
           ctx.violations,
           async (violation) => {
             await fixViolation(ctx, violation);
-          }
+          },
+          config.ai.minConfidence
         );
 
         result = await finalize(ctx, applied);
-        console.log(formatReport(result, true, config.quiet));
+        await printReport(result, true);
       } else if (config.fix) {
         // Auto-fix mode: detect → resolve AI → fix all → list
         const ctx = await detect(targetPath, config);
@@ -91,17 +201,17 @@ export function registerScanCommand(program: Command): void {
         result = await finalize(ctx, fixedCount, fixed);
 
         if (fixed.length > 0 && !config.quiet) {
-          console.log(pc.bold("\n  Fixes applied:\n"));
+          console.log(pc.bold(config.dryRun ? "\n  Fixes (dry run, no files written):\n" : "\n  Fixes applied:\n"));
           for (const f of fixed) {
             console.log(formatFixApplied(f.filePath, f.line, f.rule, f.fixAttribute, f.fixType, f.fixValue, f.fixElement));
           }
         }
 
-        console.log(formatReport(result, true, config.quiet));
+        await printReport(result, true);
       } else {
         // Report-only mode
         result = await scan(targetPath, config);
-        console.log(formatReport(result, false, config.quiet));
+        await printReport(result, false);
       }
 
       // CI gate
@@ -112,9 +222,38 @@ export function registerScanCommand(program: Command): void {
         process.exit(1);
       }
 
+      // Baseline gate — only violations not in the baseline fail the run
+      if (config.baseline && result.violations.length > 0) {
+        console.error(
+          `  ${result.violations.length} new violation${result.violations.length === 1 ? "" : "s"} not in baseline`
+        );
+        process.exit(1);
+      }
+
       } catch (err: any) {
         console.error(pc.red(`\n  Error: ${err.message}\n`));
         process.exit(1);
       }
     });
 }
+
+async function renderReport(
+  result: ScanResult,
+  format: ReportFormat,
+  fix: boolean,
+  config: ResolvedConfig,
+  version = "0.0.0"
+): Promise<string> {
+  switch (format) {
+    case "json":
+      return formatJsonReport(result, { version });
+    case "sarif":
+      return formatSarifReport(result, { version, rules: config.rules, customRules: config.customRules });
+    default:
+      return stripAnsi(formatReport(result, fix, false, config.customRules));
+  }
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*m/g, "");
+}
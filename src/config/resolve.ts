@@ -1,17 +1,21 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
-import type { A11yConfig, ResolvedConfig, ProviderName } from "./schema.js";
+import type { A11yConfig, ResolvedConfig, ProviderName, RuleConfig } from "./schema.js";
 import {
   DEFAULT_CONFIG,
   DEFAULT_RULES,
   PROVIDER_DEFAULTS,
   PROVIDER_ENV,
+  resolveProviderOptions,
+  resolveComponentConfig,
   resolveRuleConfig,
 } from "./schema.js";
 import type { RuleId } from "../scan/types.js";
+import { loadPluginRules } from "../rules/registry.js";
 
 export interface CLIFlags {
   fix?: boolean;
+  dryRun?: boolean;
   interactive?: boolean;
   noAi?: boolean;
   fillAlt?: boolean;
@@ -19,8 +23,14 @@ export interface CLIFlags {
   model?: string;
   locale?: string;
   detectedLocale?: string;
+  /** Locales from next.config / next-intl routing */
+  detectedLocales?: string[];
   minScore?: number;
   quiet?: boolean;
+  baseline?: string;
+  changedSince?: string;
+  concurrency?: number;
+  budget?: number;
 }
  
 export async function loadConfigFile(cwd: string): Promise<A11yConfig> {
@@ -64,13 +74,18 @@ export function resolveConfig(
     merged.model ??
     (provider ? PROVIDER_DEFAULTS[provider] : "gpt-4o-mini");
 
-  const rawRules = { ...DEFAULT_RULES, ...merged.rules };
+  const customRules = loadPluginRules(fileConfig.plugins ?? []);
+
+  const rawRules: Partial<Record<RuleId, RuleConfig>> = { ...DEFAULT_RULES, ...merged.rules };
   const rules = Object.fromEntries(
     (Object.keys(DEFAULT_RULES) as RuleId[]).map((id) => [
       id,
       resolveRuleConfig(id, rawRules[id]),
     ])
   ) as ResolvedConfig["rules"];
+  for (const rule of customRules) {
+    rules[rule.id] = resolveRuleConfig(rule.id, rawRules[rule.id], rule.defaultLevel);
+  }
 
   // CLI --fill-alt overrides img-alt.fillAlt
   if (cliFlags.fillAlt !== undefined) {
@@ -82,34 +97,75 @@ export function resolveConfig(
     model,
     locale: cliFlags.locale ?? merged.locale ?? cliFlags.detectedLocale ?? "en",
     cache: merged.cache ?? ".a11y-cache",
+    providerOptions: resolveProviderOptions(provider, provider ? merged.providers?.[provider] : undefined),
+    ai: {
+      // Local models serve one request at a time
+      concurrency: Math.max(1, cliFlags.concurrency ?? merged.ai?.concurrency ?? (provider === "ollama" ? 1 : 4)),
+      requestsPerMinute: merged.ai?.requestsPerMinute,
+      tokensPerMinute: merged.ai?.tokensPerMinute,
+      maxTokens: cliFlags.budget ?? merged.ai?.maxTokens,
+      pricing: merged.ai?.pricing,
+      minConfidence: merged.ai?.minConfidence ?? 0.5,
+      validationRetries: Math.max(0, merged.ai?.validationRetries ?? 1),
+    },
     scanner: {
       include: merged.scanner?.include ?? DEFAULT_CONFIG.scanner!.include!,
       exclude: merged.scanner?.exclude ?? DEFAULT_CONFIG.scanner!.exclude!,
     },
     rules,
+    components: Object.fromEntries(
+      Object.entries(merged.components ?? {}).map(([name, c]) => [name, resolveComponentConfig(name, c)])
+    ),
+    prompts: merged.prompts ?? {},
+    i18n: {
+      enabled: merged.i18n?.enabled ?? false,
+      messages: merged.i18n?.messages,
+      locales: merged.i18n?.locales ?? cliFlags.detectedLocales,
+      keyPrefix: merged.i18n?.keyPrefix ?? "a11y",
+    },
+    customRules,
+    suppressions: {
+      requireReason: merged.suppressions?.requireReason ?? false,
+      reportUnused: merged.suppressions?.reportUnused ?? true,
+    },
     fix: cliFlags.fix ?? false,
+    dryRun: cliFlags.dryRun ?? false,
     interactive: cliFlags.interactive ?? false,
     noAi: cliFlags.noAi ?? false,
     minScore: cliFlags.minScore,
     quiet: cliFlags.quiet ?? false,
+    baseline: cliFlags.baseline ? path.resolve(cliFlags.baseline) : undefined,
+    changedSince: cliFlags.changedSince,
   };
 }
 
+/** Locales declared in the project's Next.js / next-intl config */
+export interface ProjectLocales {
+  defaultLocale?: string;
+  locales?: string[];
+}
+
 /**
  * Auto-detect locale from Next.js / next-intl config. Returns undefined if not found.
  */
 export async function detectLocaleFromProject(cwd: string): Promise<string | undefined> {
+  return (await detectLocalesFromProject(cwd)).defaultLocale;
+}
+
+/**
+ * Auto-detect default locale and locale list from Next.js / next-intl config.
+ */
+export async function detectLocalesFromProject(cwd: string): Promise<ProjectLocales> {
   const projectRoot = findProjectRoot(cwd);
-  if (!projectRoot) return undefined;
+  if (!projectRoot) return {};
 
   // 1. next.config.js/mjs/ts — i18n.defaultLocale (Pages Router)
   for (const name of ["next.config.js", "next.config.mjs", "next.config.ts"]) {
     const configPath = path.join(projectRoot, name);
     if (fs.existsSync(configPath)) {
       try {
-        const content = fs.readFileSync(configPath, "utf-8");
-        const m = content.match(/defaultLocale\s*:\s*['"`]([a-z]{2}(-[A-Za-z0-9]+)?)['"`]/);
-        if (m) return m[1];
+        const found = readLocales(fs.readFileSync(configPath, "utf-8"));
+        if (found.defaultLocale) return found;
       } catch {
         // ignore
       }
@@ -127,19 +183,26 @@ export async function detectLocaleFromProject(cwd: string): Promise<string | und
     const filePath = path.join(projectRoot, p);
     if (fs.existsSync(filePath)) {
       try {
-        const content = fs.readFileSync(filePath, "utf-8");
-        const m = content.match(/defaultLocale\s*:\s*['"`]([a-z]{2}(-[A-Za-z0-9]+)?)['"`]/);
-        if (m) return m[1];
+        const found = readLocales(fs.readFileSync(filePath, "utf-8"));
+        if (found.defaultLocale) return found;
       } catch {
         // ignore
       }
     }
   }
 
-  return undefined;
+  return {};
+}
+
+function readLocales(content: string): ProjectLocales {
+  const m = content.match(/defaultLocale\s*:\s*['"`]([a-z]{2}(-[A-Za-z0-9]+)?)['"`]/);
+  if (!m) return {};
+  const list = content.match(/\blocales\s*:\s*\[([^\]]*)\]/);
+  const locales = list ? [...list[1].matchAll(/['"`]([a-z]{2}(?:-[A-Za-z0-9]+)?)['"`]/g)].map((l) => l[1]) : [];
+  return { defaultLocale: m[1], ...(locales.length > 0 ? { locales } : {}) };
 }
 
-function findProjectRoot(dir: string): string | undefined {
+export function findProjectRoot(dir: string): string | undefined {
   let current = path.resolve(dir);
   if (fs.statSync(current).isFile()) current = path.dirname(current);
   while (current !== path.dirname(current)) {
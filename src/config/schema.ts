@@ -1,22 +1,160 @@
-import type { RuleId, RuleSetting } from "../scan/types.js";
+import type { BuiltinRuleId, CustomRule, RuleId, RuleSetting } from "../scan/types.js";
 
-export type ProviderName = "openai" | "anthropic" | "google" | "ollama" | "openrouter";
+export type ProviderName = "openai" | "anthropic" | "google" | "ollama" | "openrouter" | "openai-compatible" | "mock";
+
+/** Connection settings for an AI provider, e.g. a company gateway or a remote Ollama host */
+export interface ProviderOptions {
+  /** API base URL — required for openai-compatible (e.g. http://vllm:8000/v1); ollama: http://host:11434/api */
+  baseURL?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Env var holding the API key (default: the provider's standard one, e.g. OPENAI_API_KEY) */
+  apiKeyEnv?: string;
+  /** Per-request timeout in ms (default: none) */
+  timeout?: number;
+}
+
+/** How a mock request fails: a 500, a 429 with a retry hint, or no answer until the timeout */
+export type MockFailure = "error" | "rate-limit" | "timeout";
+
+/** A structured mock answer, e.g. to simulate a low-confidence label */
+export interface MockAnswer {
+  label: string;
+  /** Default 0.9 */
+  confidence?: number;
+  decorative?: boolean;
+  rationale?: string;
+}
+
+/** A prompt received by the mock provider */
+export interface MockRequest {
+  system: string;
+  prompt: string;
+  hasImage: boolean;
+}
+
+/** Built-in offline provider: deterministic answers for tests and dry runs */
+export interface MockProviderOptions extends Pick<ProviderOptions, "timeout"> {
+  /** Prompt substring → answer; the first key found in the prompt wins (default: derived from the prompt) */
+  responses?: Record<string, string | MockAnswer>;
+  /** Prompt substring → failure; `times` fails only the first n matching requests */
+  failures?: Record<string, MockFailure | { type: MockFailure; times: number }>;
+  /** Simulated latency per request in ms (default 0) */
+  latency?: number;
+  /** Called with every prompt the mock receives */
+  onRequest?: (request: MockRequest) => void;
+}
+
+/**
+ * How the no-div-interactive fix makes an element keyboard accessible:
+ * - "button": convert to <button type="button"> when its content and classes
+ *   allow it, otherwise fall back to "keyboard"
+ * - "keyboard": add role="button", tabIndex={0} and an onKeyDown handler
+ */
+export type NoDivInteractiveStrategy = "button" | "keyboard";
+
+export const NO_DIV_INTERACTIVE_STRATEGIES: NoDivInteractiveStrategy[] = ["button", "keyboard"];
 
 /** Per-rule config: shorthand "fix"|"warn"|"off" or object with level + rule-specific options. */
 export type RuleConfig =
   | RuleSetting
-  | { level: RuleSetting; scanCustomComponents?: boolean; fillAlt?: boolean };
+  | { level: RuleSetting; scanCustomComponents?: boolean; fillAlt?: boolean; strategy?: NoDivInteractiveStrategy };
+
+/** Native elements a design-system component can be mapped to */
+export type NativeElement = "button" | "a" | "img" | "input" | "select" | "textarea";
+
+export const NATIVE_ELEMENTS: NativeElement[] = ["button", "a", "img", "input", "select", "textarea"];
+
+/**
+ * Design-system component mapping: the native element it renders, shorthand or
+ * object with the prop carrying the accessible name and the import source.
+ */
+export type ComponentConfig =
+  | NativeElement
+  | {
+      as: NativeElement;
+      /** Prop that becomes the accessible name (default "alt" for img, else "aria-label") */
+      nameProp?: string;
+      /** Only match when imported from this module (or a subpath of it) */
+      from?: string;
+    };
+
+/** Prompt customization for an AI rule, e.g. a brand voice guide and glossary */
+export interface PromptConfig {
+  /** Replaces the built-in system prompt */
+  system?: string;
+  /** Appended to the system prompt */
+  instructions?: string;
+  /** Example answers to follow, e.g. "ShoppingBagIcon → Add to bag" */
+  examples?: string[];
+  /** Term to avoid → preferred term, e.g. { cart: "bag" } */
+  glossary?: Record<string, string>;
+}
+
+/** A named set of custom rules, registered via config `plugins` */
+export interface A11yPlugin {
+  name: string;
+  rules: CustomRule[];
+}
 
 export interface A11yConfig {
   provider?: ProviderName;
   model?: string;
   locale?: string;
   cache?: string;
+  /** Per-provider connection settings; the active provider's entry is used */
+  providers?: Partial<Record<Exclude<ProviderName, "mock">, ProviderOptions>> & {
+    mock?: MockProviderOptions;
+  };
+  /** AI request scheduling */
+  ai?: {
+    /** Parallel AI requests (default 4, ollama 1) */
+    concurrency?: number;
+    /** Client-side requests-per-minute limit (default: none) */
+    requestsPerMinute?: number;
+    /** Client-side tokens-per-minute limit, estimated before each request (default: none) */
+    tokensPerMinute?: number;
+    /** Token budget per run; once reached, remaining AI fixes are left as warnings */
+    maxTokens?: number;
+    /** Model price in USD per 1M tokens for --estimate (built in for common models) */
+    pricing?: { input: number; output: number };
+    /** AI fixes below this confidence (0-1) are left as warnings, or reviewed with --interactive (default 0.5) */
+    minConfidence?: number;
+    /** Retries with feedback when a generated value fails validation; then the fix is dropped (default 1) */
+    validationRetries?: number;
+  };
   scanner?: {
     include?: string[];
     exclude?: string[];
   };
   rules?: Partial<Record<RuleId, RuleConfig>>;
+  /** Component name → native element, e.g. { IconButton: { as: "button", nameProp: "label" } } */
+  components?: Record<string, ComponentConfig>;
+  /**
+   * Message catalogs: in components with a next-intl / react-i18next translation
+   * function, labels are added to the catalogs and inserted as t("...")
+   */
+  i18n?: {
+    /** Default false (opt-in); catalogs are only written for files that already use a translation function */
+    enabled?: boolean;
+    /** Catalog path from the project root, with {locale} and optionally {namespace} (default: detected, e.g. messages/{locale}.json) */
+    messages?: string;
+    /** Supported locales: catalogs and `[locale]` page titles are written for each (default: from next.config / next-intl routing, else every catalog found) */
+    locales?: string[];
+    /** Key prefix for generated entries (default "a11y") */
+    keyPrefix?: string;
+  };
+  /** Prompt customization per AI rule; "*" applies to all of them. Changing it invalidates cached values */
+  prompts?: Partial<Record<RuleId | "*", PromptConfig>>;
+  /** Custom rules; their ids can be configured in `rules` like built-ins */
+  plugins?: A11yPlugin[];
+  /** Inline `a11y-ignore-next-line` / `a11y-disable` comments */
+  suppressions?: {
+    /** Ignore (and report) suppressions without a `-- reason` (default false) */
+    requireReason?: boolean;
+    /** Report suppressions that matched no violation (default true) */
+    reportUnused?: boolean;
+  };
 }
 
 export interface ResolvedRuleConfig {
@@ -25,6 +163,24 @@ export interface ResolvedRuleConfig {
   scanCustomComponents?: boolean;
   /** img-alt: fillAlt (default true) */
   fillAlt?: boolean;
+  /** no-div-interactive: fix strategy (default none — detection only) */
+  strategy?: NoDivInteractiveStrategy;
+}
+
+export interface ResolvedComponentConfig {
+  as: NativeElement;
+  nameProp: string;
+  from?: string;
+}
+
+export interface ResolvedProviderOptions {
+  baseURL?: string;
+  headers: Record<string, string>;
+  /** Null when the provider needs no key (ollama, keyless openai-compatible servers) */
+  apiKeyEnv: string | null;
+  timeout?: number;
+  /** Mock provider only */
+  mock?: MockProviderOptions;
 }
 
 export interface ResolvedConfig {
@@ -32,16 +188,47 @@ export interface ResolvedConfig {
   model: string;
   locale: string;
   cache: string;
+  /** Options of the active provider */
+  providerOptions: ResolvedProviderOptions;
+  ai: {
+    concurrency: number;
+    requestsPerMinute?: number;
+    tokensPerMinute?: number;
+    maxTokens?: number;
+    pricing?: { input: number; output: number };
+    minConfidence: number;
+    validationRetries: number;
+  };
   scanner: {
     include: string[];
     exclude: string[];
   };
   rules: Record<RuleId, ResolvedRuleConfig>;
+  components: Record<string, ResolvedComponentConfig>;
+  prompts: Partial<Record<RuleId | "*", PromptConfig>>;
+  i18n: {
+    enabled: boolean;
+    messages?: string;
+    locales?: string[];
+    keyPrefix: string;
+  };
+  /** Rules registered by config plugins */
+  customRules: CustomRule[];
+  suppressions: {
+    requireReason: boolean;
+    reportUnused: boolean;
+  };
   fix: boolean;
+  /** With fix: apply fixes in memory only and produce a patch */
+  dryRun: boolean;
   interactive: boolean;
   noAi: boolean;
   quiet: boolean;
   minScore?: number;
+  /** Absolute path to a baseline file — known violations are suppressed */
+  baseline?: string;
+  /** Git ref — only files changed relative to it are scanned and fixed */
+  changedSince?: string;
 }
 
 export const PROVIDER_DEFAULTS: Record<ProviderName, string> = {
@@ -50,6 +237,9 @@ export const PROVIDER_DEFAULTS: Record<ProviderName, string> = {
   google: "gemini-2.0-flash-lite",
   ollama: "llava",
   openrouter: "openai/gpt-4o-mini",
+  // No sensible default — the model depends on the server
+  "openai-compatible": "",
+  mock: "mock",
 };
 
 export const PROVIDER_ENV: Record<ProviderName, string | null> = {
@@ -58,13 +248,18 @@ export const PROVIDER_ENV: Record<ProviderName, string | null> = {
   google: "GOOGLE_GENERATIVE_AI_API_KEY",
   ollama: null,
   openrouter: "OPENROUTER_API_KEY",
+  "openai-compatible": null,
+  mock: null,
 };
 
-export const DEFAULT_RULES: Record<RuleId, RuleConfig> = {
+export const DEFAULT_RULES: Record<BuiltinRuleId, RuleConfig> = {
   "img-alt": "fix",
   "button-label": "fix",
   "link-label": "fix",
   "input-label": "fix",
+  "iframe-title": "fix",
+  "media-captions": "fix",
+  "svg-label": "fix",
   "html-lang": "fix",
   "emoji-alt": "fix",
   "no-positive-tabindex": "fix",
@@ -76,27 +271,68 @@ export const DEFAULT_RULES: Record<RuleId, RuleConfig> = {
   "next-skip-nav": "warn",
   "heading-order": "warn",
   "no-div-interactive": "warn",
+  "aria-valid": "fix",
 };
 
-const RULE_OPTION_DEFAULTS: Partial<Record<RuleId, Partial<ResolvedRuleConfig>>> = {
+const RULE_OPTION_DEFAULTS: Partial<Record<BuiltinRuleId, Partial<ResolvedRuleConfig>>> = {
   "button-type": { scanCustomComponents: false },
   "img-alt": { fillAlt: true },
 };
 
 export function resolveRuleConfig(
   ruleId: RuleId,
-  config: RuleConfig | undefined
+  config: RuleConfig | undefined,
+  defaultLevel: RuleSetting = "warn"
 ): ResolvedRuleConfig {
-  const merged = config ?? DEFAULT_RULES[ruleId];
+  const merged = config ?? DEFAULT_RULES[ruleId as BuiltinRuleId] ?? defaultLevel;
   const level = typeof merged === "string" ? merged : merged.level;
   const opts: Partial<ResolvedRuleConfig> = typeof merged === "string" ? {} : merged;
-  const defaults = (RULE_OPTION_DEFAULTS[ruleId] ?? {}) as Partial<ResolvedRuleConfig>;
+  const defaults = (RULE_OPTION_DEFAULTS[ruleId as BuiltinRuleId] ?? {}) as Partial<ResolvedRuleConfig>;
+  if (opts.strategy !== undefined && !NO_DIV_INTERACTIVE_STRATEGIES.includes(opts.strategy)) {
+    throw new Error(`Rule "${ruleId}" has unknown strategy "${opts.strategy}" (expected ${NO_DIV_INTERACTIVE_STRATEGIES.join(", ")})`);
+  }
   return {
     level,
     // button-type: explicitly false by default
     scanCustomComponents: opts.scanCustomComponents ?? defaults.scanCustomComponents ?? false,
     // img-alt: explicitly true by default
     fillAlt: opts.fillAlt ?? defaults.fillAlt ?? true,
+    strategy: opts.strategy,
+  };
+}
+
+export function resolveComponentConfig(
+  name: string,
+  config: ComponentConfig
+): ResolvedComponentConfig {
+  const { as, nameProp, from } = typeof config === "string" ? { as: config } as Exclude<ComponentConfig, string> : config;
+  if (!NATIVE_ELEMENTS.includes(as)) {
+    throw new Error(`Component "${name}" maps to unknown element "${as}" (expected ${NATIVE_ELEMENTS.join(", ")})`);
+  }
+  return {
+    as,
+    nameProp: nameProp ?? (as === "img" ? "alt" : "aria-label"),
+    ...(from ? { from } : {}),
+  };
+}
+
+export function resolveProviderOptions(
+  provider: ProviderName | undefined,
+  options: ProviderOptions | MockProviderOptions = {}
+): ResolvedProviderOptions {
+  const { baseURL, headers, apiKeyEnv, timeout } = options as ProviderOptions;
+  if (baseURL !== undefined && !/^https?:\/\/[^/]/.test(baseURL)) {
+    throw new Error(`Provider "${provider}" has an invalid baseURL "${baseURL}" (expected http:// or https://)`);
+  }
+  if (timeout !== undefined && !(typeof timeout === "number" && timeout > 0)) {
+    throw new Error(`Provider "${provider}" timeout must be a positive number of milliseconds`);
+  }
+  return {
+    ...(baseURL ? { baseURL } : {}),
+    headers: headers ?? {},
+    apiKeyEnv: apiKeyEnv ?? (provider ? PROVIDER_ENV[provider] : null),
+    ...(timeout ? { timeout } : {}),
+    ...(provider === "mock" ? { mock: options as MockProviderOptions } : {}),
   };
 }
 
@@ -108,8 +344,20 @@ export const DEFAULT_CONFIG: A11yConfig = {
     exclude: ["**/*.test.*", "**/*.spec.*", "**/*.stories.*", "**/node_modules/**"],
   },
   rules: DEFAULT_RULES,
+  suppressions: {
+    requireReason: false,
+    reportUnused: true,
+  },
 };
 
 export function defineConfig(config: A11yConfig): A11yConfig {
   return config;
 }
+
+export function definePlugin(plugin: A11yPlugin): A11yPlugin {
+  return plugin;
+}
+
+export function defineRule(rule: CustomRule): CustomRule {
+  return rule;
+}
@@ -0,0 +1,200 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+/** Common catalog layouts, relative to the project root */
+const CATALOG_PATTERNS = [
+  "messages/{locale}.json",
+  "src/messages/{locale}.json",
+  "locales/{locale}.json",
+  "src/locales/{locale}.json",
+  "public/locales/{locale}/{namespace}.json",
+  "locales/{locale}/{namespace}.json",
+];
+
+const LOCALE_PATTERN = /^[a-z]{2}(-[A-Za-z0-9]+)?$/;
+
+/** First known layout with a catalog for the default locale */
+export function detectCatalogPattern(root: string, defaultLocale: string): string | undefined {
+  return CATALOG_PATTERNS.find((pattern) => {
+    const filePath = path.join(root, pattern.replace("{locale}", defaultLocale));
+    return pattern.includes("{namespace}")
+      ? fs.existsSync(path.dirname(filePath))
+      : fs.existsSync(filePath);
+  });
+}
+
+/** Locales that have a catalog on disk, e.g. messages/en.json, messages/pl.json → ["en", "pl"] */
+export function findCatalogLocales(root: string, pattern: string): string[] {
+  const [before, after] = pattern.split("{locale}");
+  const dir = path.join(root, before);
+  if (!fs.existsSync(dir)) return [];
+  const locales: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    // "{locale}.json" names files, "{locale}/{namespace}.json" directories
+    const locale = after.startsWith("/")
+      ? entry.isDirectory() ? entry.name : undefined
+      : entry.isFile() && entry.name.endsWith(after) ? entry.name.slice(0, -after.length) : undefined;
+    if (locale && LOCALE_PATTERN.test(locale)) locales.push(locale);
+  }
+  return locales.sort();
+}
+
+export interface CatalogChange {
+  filePath: string;
+  /** File content before the change; empty for a new file */
+  original: string;
+  content: string;
+}
+
+interface CatalogFile {
+  original: string;
+  data: Record<string, unknown>;
+  /** False for files that are not a JSON object; those are never written */
+  valid: boolean;
+}
+
+interface StagedEntry {
+  filePath: string;
+  keyPath: string[];
+  value: string;
+  /** Violations whose fix uses this entry — written only if one is applied */
+  owners: Set<object>;
+}
+
+/**
+ * JSON message catalogs of a project. Entries are staged per fix and only
+ * written for fixes that were applied.
+ */
+export class MessageCatalogs {
+  private files = new Map<string, CatalogFile>();
+  private staged = new Map<string, StagedEntry>();
+
+  constructor(
+    readonly root: string,
+    readonly pattern: string,
+    readonly defaultLocale: string,
+    readonly locales: string[]
+  ) {}
+
+  /**
+   * Catalog file and key path of a translation key. With a {namespace} layout
+   * (react-i18next) the namespace picks the file; otherwise it prefixes the key (next-intl).
+   */
+  locate(locale: string, namespace: string | undefined, key: string): { filePath: string; keyPath: string[] } {
+    const relative = this.pattern.replace("{locale}", locale);
+    if (this.pattern.includes("{namespace}")) {
+      return {
+        filePath: path.join(this.root, relative.replace("{namespace}", namespace ?? this.defaultNamespace(locale))),
+        keyPath: key.split("."),
+      };
+    }
+    return {
+      filePath: path.join(this.root, relative),
+      keyPath: [...(namespace ? namespace.split(".") : []), ...key.split(".")],
+    };
+  }
+
+  /** Current value: staged, else on disk. Non-string values (nested messages) are returned as-is */
+  get(locale: string, namespace: string | undefined, key: string): unknown {
+    const { filePath, keyPath } = this.locate(locale, namespace, key);
+    const staged = this.staged.get(stageKey(filePath, keyPath));
+    if (staged) return staged.value;
+    let node: unknown = this.load(filePath).data;
+    for (const segment of keyPath) {
+      if (!isObject(node) || !Object.prototype.hasOwnProperty.call(node, segment)) return undefined;
+      node = node[segment];
+    }
+    return node;
+  }
+
+  /**
+   * Whether an entry for the key can be written on commit: the catalog parses
+   * and no non-object value sits on the key path. An existing string message is fine.
+   */
+  isWritable(locale: string, namespace: string | undefined, key: string): boolean {
+    const { filePath, keyPath } = this.locate(locale, namespace, key);
+    const file = this.load(filePath);
+    if (!file.valid) return false;
+    let node: unknown = file.data;
+    for (const segment of keyPath) {
+      if (!isObject(node)) return false;
+      if (!Object.prototype.hasOwnProperty.call(node, segment)) return true;
+      node = node[segment];
+    }
+    return typeof node === "string";
+  }
+
+  stage(owner: object, locale: string, namespace: string | undefined, key: string, value: string): void {
+    const { filePath, keyPath } = this.locate(locale, namespace, key);
+    const id = stageKey(filePath, keyPath);
+    const entry = this.staged.get(id) ?? { filePath, keyPath, value, owners: new Set() };
+    entry.owners.add(owner);
+    this.staged.set(id, entry);
+  }
+
+  /** Catalog files changed by the staged entries of applied fixes */
+  commit(isApplied: (owner: object) => boolean): CatalogChange[] {
+    const changed = new Set<string>();
+    for (const entry of this.staged.values()) {
+      if (![...entry.owners].some(isApplied)) continue;
+      const file = this.load(entry.filePath);
+      // Never rewrite a catalog we could not parse
+      if (!file.valid) continue;
+      if (setPath(file.data, entry.keyPath, entry.value)) changed.add(entry.filePath);
+    }
+    return [...changed].map((filePath) => {
+      const { original, data } = this.load(filePath);
+      const indent = original.match(/^[ \t]+(?=")/m)?.[0] ?? 2;
+      const newline = original === "" || original.endsWith("\n") ? "\n" : "";
+      return { filePath, original, content: JSON.stringify(data, null, indent) + newline };
+    });
+  }
+
+  private load(filePath: string): CatalogFile {
+    let file = this.files.get(filePath);
+    if (!file) {
+      const original = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : "";
+      let data: Record<string, unknown> = {};
+      let valid = true;
+      try {
+        const parsed = original.trim() ? JSON.parse(original) : {};
+        if (isObject(parsed)) data = parsed;
+        else valid = false;
+      } catch {
+        valid = false;
+      }
+      file = { original, data, valid };
+      this.files.set(filePath, file);
+    }
+    return file;
+  }
+
+  /** react-i18next default namespace: "common" when the project has one, else "translation" */
+  private defaultNamespace(locale: string): string {
+    const common = path.join(this.root, this.pattern.replace("{locale}", locale).replace("{namespace}", "common"));
+    return fs.existsSync(common) ? "common" : "translation";
+  }
+}
+
+function stageKey(filePath: string, keyPath: string[]): string {
+  return `${filePath}\0${keyPath.join("\0")}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Set a nested value; false when the path is blocked by a non-object or already set */
+function setPath(data: Record<string, unknown>, keyPath: string[], value: string): boolean {
+  let node = data;
+  for (const segment of keyPath.slice(0, -1)) {
+    if (node[segment] === undefined) node[segment] = {};
+    const next = node[segment];
+    if (!isObject(next)) return false;
+    node = next;
+  }
+  const last = keyPath[keyPath.length - 1];
+  if (node[last] !== undefined) return false;
+  node[last] = value;
+  return true;
+}
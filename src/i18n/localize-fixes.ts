@@ -0,0 +1,201 @@
+import type { LanguageModel } from "ai";
+import type { Project } from "ts-morph";
+import pc from "picocolors";
+import type { Violation, RuleId } from "../scan/types.js";
+import type { ResolvedConfig } from "../config/schema.js";
+import { detectLocalesFromProject, findProjectRoot } from "../config/resolve.js";
+import { createProvider } from "../ai/create-provider.js";
+import { generate } from "../ai/generate.js";
+import { validateGeneratedValue } from "../ai/validate.js";
+import { FsCache } from "../cache/fs-cache.js";
+import { resolveAnchoredElement } from "../apply/anchor.js";
+import { MessageCatalogs, detectCatalogPattern, findCatalogLocales } from "./catalog.js";
+import { findTranslationFunction } from "./translation-function.js";
+import type { TranslationFunction } from "./translation-function.js";
+
+/** Rules whose fix is user-facing text that belongs in a catalog */
+const LOCALIZED_RULES: RuleId[] = ["img-alt", "button-label", "link-label", "input-label", "iframe-title"];
+
+const TRANSLATE_SYSTEM = `You are a professional software localizer. Translate accessibility text for a web UI.
+Rules:
+- Return ONLY the translation, nothing else
+- Keep it as short as the original
+- Keep brand and product names unchanged
+- Use the wording screen reader users expect in the target language`;
+
+export interface LocalizeOptions {
+  config: ResolvedConfig;
+  project: Project;
+  /** Absolute directory that was scanned */
+  root: string;
+  violations: Violation[];
+}
+
+type Translate = (text: string, locale: string, rule: RuleId) => Promise<string | undefined>;
+
+/**
+ * Move fix values into message catalogs for elements rendered with a
+ * next-intl / react-i18next translation function: the fix inserts
+ * `{t("a11y.addToCart")}` and the text is staged for the default locale,
+ * translated for the others. Returns the catalogs to write on finalize,
+ * or undefined when nothing was localized.
+ */
+export async function localizeFixes(opts: LocalizeOptions): Promise<MessageCatalogs | undefined> {
+  const { config, project, root, violations } = opts;
+
+  const candidates: { violation: Violation; t: TranslationFunction }[] = [];
+  for (const violation of violations) {
+    const fix = violation.fix;
+    if (!fix || !LOCALIZED_RULES.includes(violation.rule)) continue;
+    if (fix.type !== "insert-attr" && fix.type !== "replace-attr") continue;
+    const sourceFile = project.getSourceFile(violation.filePath);
+    const el = sourceFile && resolveAnchoredElement(sourceFile, violation);
+    const t = el && findTranslationFunction(el);
+    if (t) candidates.push({ violation, t });
+  }
+  if (candidates.length === 0) return undefined;
+
+  const projectRoot = findProjectRoot(root) ?? root;
+  const pattern = config.i18n.messages ?? detectCatalogPattern(projectRoot, config.locale);
+  if (!pattern) {
+    if (!config.quiet) {
+      console.log(pc.dim(`  i18n: no message catalog found for "${config.locale}" — set i18n.messages in a11y.config.ts\n`));
+    }
+    return undefined;
+  }
+  const locales =
+    config.i18n.locales ??
+    (await detectLocalesFromProject(projectRoot)).locales ??
+    findCatalogLocales(projectRoot, pattern);
+  const catalogs = new MessageCatalogs(
+    projectRoot,
+    pattern,
+    config.locale,
+    [config.locale, ...locales.filter((l) => l !== config.locale)]
+  );
+
+  const translate = createTranslator(config);
+  let added = 0;
+  let untranslated = 0;
+  const unwritable: string[] = [];
+
+  for (const { violation, t } of candidates) {
+    const fix = violation.fix!;
+    let value: string;
+    try {
+      value = typeof fix.value === "function" ? await fix.value() : fix.value;
+    } catch {
+      continue;
+    }
+    fix.value = value;
+    // Expressions (variables in scope), decorative alt="" and placeholders stay as they are
+    if (!value || value.startsWith("{") || value.startsWith("[AI-generated")) continue;
+
+    const key = pickKey(catalogs, t, value, violation.rule, config.i18n.keyPrefix);
+    // t() must never point at a message that can't be saved — keep the literal text
+    const blocked = catalogs.locales.filter((locale) => !catalogs.isWritable(locale, t.namespace, key));
+    if (blocked.length > 0) {
+      unwritable.push(`${t.namespace ? `${t.namespace}.` : ""}${key} (${blocked.join(", ")})`);
+      continue;
+    }
+    if (catalogs.get(config.locale, t.namespace, key) === undefined) added++;
+    catalogs.stage(violation, config.locale, t.namespace, key, value);
+
+    for (const locale of catalogs.locales.slice(1)) {
+      if (catalogs.get(locale, t.namespace, key) !== undefined) continue;
+      const translated = translate && (await translate(value, locale, violation.rule));
+      if (!translated) untranslated++;
+      catalogs.stage(violation, locale, t.namespace, key, translated || value);
+    }
+
+    fix.value = `{${t.name}("${key}")}`;
+  }
+
+  if (added > 0 && !config.quiet) {
+    console.log(pc.dim(`  i18n: ${added} message${added === 1 ? "" : "s"} staged for ${catalogs.locales.join(", ")}\n`));
+  }
+  if (unwritable.length > 0 && !config.quiet) {
+    console.log(
+      pc.yellow(`  i18n: could not write ${unwritable.join(", ")} — catalog is not valid JSON or the key path is taken; the text was inserted inline\n`)
+    );
+  }
+  if (untranslated > 0 && !config.quiet) {
+    console.log(
+      pc.yellow(`  i18n: ${untranslated} translation${untranslated === 1 ? "" : "s"} could not be generated — the ${config.locale} text was used instead\n`)
+    );
+  }
+  return catalogs;
+}
+
+/**
+ * `${prefix}.${camelCase of the first words}`, e.g. "Add to cart" → "a11y.addToCart".
+ * A key holding a different message gets a numeric suffix; one holding the
+ * same message is reused.
+ */
+function pickKey(
+  catalogs: MessageCatalogs,
+  t: TranslationFunction,
+  value: string,
+  rule: RuleId,
+  prefix: string
+): string {
+  const words = value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .match(/[A-Za-z0-9]+/g) ?? rule.split("-");
+  const slug = words
+    .slice(0, 5)
+    .map((word, i) => (i === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()))
+    .join("");
+  const base = prefix ? `${prefix}.${slug}` : slug;
+  for (let n = 1; ; n++) {
+    const key = n === 1 ? base : `${base}${n}`;
+    const existing = catalogs.get(catalogs.defaultLocale, t.namespace, key);
+    if (existing === undefined || existing === value) return key;
+  }
+}
+
+/** AI translation into a catalog locale; undefined when there is no provider or the answer is unusable */
+function createTranslator(config: ResolvedConfig): Translate | undefined {
+  if (config.noAi || !config.provider) return undefined;
+  let model: LanguageModel;
+  try {
+    model = createProvider(config.provider, config.model, config.providerOptions);
+  } catch {
+    return undefined;
+  }
+  const cache = new FsCache(config.cache);
+
+  return async (text, locale, rule) => {
+    const cacheKey = FsCache.createKey(`translate:${rule}:${config.locale}:${text}`, {
+      system: TRANSLATE_SYSTEM,
+      model: config.model,
+      locale,
+    });
+    const cached = cache.get(cacheKey);
+    if (cached && !validateGeneratedValue(rule, cached.value, { locale }).problem) return cached.value;
+
+    const kind = rule === "img-alt" ? "image alt text" : "accessible label";
+    try {
+      const result = await generate({
+        model,
+        system: TRANSLATE_SYSTEM,
+        prompt: `Translate this ${kind} from "${config.locale}" to "${locale}":\n${text}`,
+        timeout: config.providerOptions.timeout,
+      });
+      const { value, problem } = validateGeneratedValue(rule, result.text, { locale });
+      if (problem || !value) return undefined;
+      cache.set(cacheKey, {
+        value,
+        model: config.model,
+        locale,
+        rule,
+        generatedAt: new Date().toISOString(),
+        promptHash: FsCache.hashContent(TRANSLATE_SYSTEM),
+      });
+      return value;
+    } catch {
+      return undefined;
+    }
+  };
+}
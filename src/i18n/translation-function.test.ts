@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { Project, SyntaxKind } from "ts-morph";
+import { findTranslationFunction } from "./translation-function.js";
+
+function findButton(code: string) {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const file = project.createSourceFile("test.tsx", code);
+  return file.getDescendantsOfKind(SyntaxKind.JsxOpeningElement).find((el) => el.getTagNameNode().getText() === "button")!;
+}
+
+describe("findTranslationFunction", () => {
+  it("finds next-intl useTranslations with its namespace", () => {
+    const button = findButton(`
+      import { useTranslations } from "next-intl";
+      export function Header() {
+        const t = useTranslations("Header");
+        return <button><MenuIcon /></button>;
+      }
+    `);
+    expect(findTranslationFunction(button)).toEqual({ name: "t", namespace: "Header", library: "next-intl" });
+  });
+
+  it("finds awaited getTranslations in server components", () => {
+    const button = findButton(`
+      import { getTranslations } from "next-intl/server";
+      export default async function Page() {
+        const messages = await getTranslations({ locale: "en", namespace: "Home" });
+        return <button><MenuIcon /></button>;
+      }
+    `);
+    expect(findTranslationFunction(button)).toEqual({ name: "messages", namespace: "Home", library: "next-intl" });
+  });
+
+  it("finds t destructured from react-i18next useTranslation", () => {
+    const button = findButton(`
+      import { useTranslation as useT } from "react-i18next";
+      export function Cart() {
+        const { t: translate } = useT("shop");
+        return <button><TrashIcon /></button>;
+      }
+    `);
+    expect(findTranslationFunction(button)).toEqual({ name: "translate", namespace: "shop", library: "react-i18next" });
+  });
+
+  it("ignores components without a translation function", () => {
+    const button = findButton(`
+      import { useTranslations } from "next-intl";
+      const t = (key: string) => key;
+      export function Footer() {
+        return <button><MenuIcon /></button>;
+      }
+    `);
+    expect(findTranslationFunction(button)).toBeUndefined();
+  });
+
+  it("ignores look-alike hooks from other modules", () => {
+    const button = findButton(`
+      import { useTranslations } from "./my-i18n";
+      export function Header() {
+        const t = useTranslations("Header");
+        return <button><MenuIcon /></button>;
+      }
+    `);
+    expect(findTranslationFunction(button)).toBeUndefined();
+  });
+});
@@ -0,0 +1,78 @@
+import { Node } from "ts-morph";
+
+export type I18nLibrary = "next-intl" | "react-i18next";
+
+/** A translation function in scope of an element, e.g. `const t = useTranslations("Header")` */
+export interface TranslationFunction {
+  /** Local name to call, usually "t" */
+  name: string;
+  /** next-intl: key prefix; react-i18next: catalog namespace */
+  namespace?: string;
+  library: I18nLibrary;
+}
+
+/** Hooks / server helpers that return a translation function, by module */
+const TRANSLATION_SOURCES: Record<string, { library: I18nLibrary; exports: string[] }> = {
+  "next-intl": { library: "next-intl", exports: ["useTranslations"] },
+  "next-intl/server": { library: "next-intl", exports: ["getTranslations"] },
+  "react-i18next": { library: "react-i18next", exports: ["useTranslation"] },
+  "next-i18next": { library: "react-i18next", exports: ["useTranslation"] },
+};
+
+/**
+ * Find the translation function declared in an enclosing component, walking
+ * up from the element. Only hooks imported from a known i18n library count.
+ */
+export function findTranslationFunction(node: Node): TranslationFunction | undefined {
+  const file = node.getSourceFile();
+  const hooks = new Map<string, I18nLibrary>();
+  for (const decl of file.getImportDeclarations()) {
+    const source = TRANSLATION_SOURCES[decl.getModuleSpecifierValue()];
+    if (!source) continue;
+    for (const named of decl.getNamedImports()) {
+      if (source.exports.includes(named.getName())) {
+        hooks.set(named.getAliasNode()?.getText() ?? named.getName(), source.library);
+      }
+    }
+  }
+  if (hooks.size === 0) return undefined;
+
+  for (const fn of node.getAncestors()) {
+    if (!Node.isFunctionDeclaration(fn) && !Node.isArrowFunction(fn) && !Node.isFunctionExpression(fn)) continue;
+    const body = fn.getBody();
+    if (!body || !Node.isBlock(body)) continue;
+
+    for (const decl of body.getVariableStatements().flatMap((s) => s.getDeclarations())) {
+      let init = decl.getInitializer();
+      if (init && Node.isAwaitExpression(init)) init = init.getExpression();
+      if (!init || !Node.isCallExpression(init)) continue;
+      const library = hooks.get(init.getExpression().getText());
+      if (!library) continue;
+
+      const namespace = readNamespace(init.getArguments()[0]);
+      const nameNode = decl.getNameNode();
+      if (library === "react-i18next") {
+        // const { t } = useTranslation("common")
+        if (!Node.isObjectBindingPattern(nameNode)) continue;
+        const binding = nameNode
+          .getElements()
+          .find((e) => (e.getPropertyNameNode()?.getText() ?? e.getName()) === "t");
+        if (binding) return { name: binding.getName(), namespace, library };
+      } else if (Node.isIdentifier(nameNode)) {
+        // const t = useTranslations("Header") / await getTranslations({ namespace: "Header" })
+        return { name: nameNode.getText(), namespace, library };
+      }
+    }
+  }
+  return undefined;
+}
+
+function readNamespace(arg: Node | undefined): string | undefined {
+  if (!arg) return undefined;
+  if (Node.isStringLiteral(arg) || Node.isNoSubstitutionTemplateLiteral(arg)) return arg.getLiteralText();
+  if (Node.isObjectLiteralExpression(arg)) {
+    const prop = arg.getProperty("namespace");
+    if (prop && Node.isPropertyAssignment(prop)) return readNamespace(prop.getInitializer());
+  }
+  return undefined;
+}
@@ -1,12 +1,28 @@
-export { defineConfig } from "./config/schema.js";
-export type { A11yConfig, ResolvedConfig, ProviderName } from "./config/schema.js";
+export { defineConfig, definePlugin, defineRule } from "./config/schema.js";
+export type { A11yConfig, A11yPlugin, ComponentConfig, NativeElement, PromptConfig, ResolvedConfig, ProviderName, ProviderOptions, MockProviderOptions, MockAnswer, MockRequest } from "./config/schema.js";
 export type {
   Rule,
   RuleId,
+  BuiltinRuleId,
+  CustomRule,
   RuleSetting,
   RuleType,
   Violation,
   Fix,
   FixType,
+  FixedViolation,
+  FixConflict,
+  NodeAnchor,
   ScanResult,
 } from "./scan/types.js";
+export type { SuppressionProblem } from "./scan/suppressions.js";
+export { JSON_REPORT_SCHEMA_VERSION } from "./report/json-report.js";
+export type {
+  JsonReport,
+  JsonReportViolation,
+  JsonReportFix,
+  JsonReportFixed,
+  JsonReportSuppressionProblem,
+} from "./report/json-report.js";
+export { SARIF_SCHEMA } from "./report/sarif-report.js";
+export type { SarifLog, SarifResult, SarifFix, SarifRuleDescriptor } from "./report/sarif-report.js";
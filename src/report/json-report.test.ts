@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { buildJsonReport, formatJsonReport, JSON_REPORT_SCHEMA_VERSION } from "./json-report.js";
+import type { ScanResult, Violation } from "../scan/types.js";
+
+function makeResult(violations: Violation[], overrides?: Partial<ScanResult>): ScanResult {
+  return {
+    violations,
+    filesScanned: 2,
+    elementsScanned: 40,
+    score: 96,
+    fixedCount: 0,
+    ...overrides,
+  };
+}
+
+const buttonType: Violation = {
+  rule: "button-type",
+  filePath: "/project/src/Nav.tsx",
+  line: 4,
+  column: 7,
+  element: "<button>",
+  message: "missing type",
+  fix: { type: "insert-attr", attribute: "type", value: "button" },
+};
+
+describe("json report", () => {
+  it("serializes summary and violations with relative paths", () => {
+    const report = buildJsonReport(
+      makeResult([buttonType, { ...buttonType, rule: "heading-order", fix: undefined }], {
+        previousScore: 90,
+      }),
+      { version: "1.2.3", root: "/project" }
+    );
+
+    expect(report.schemaVersion).toBe(JSON_REPORT_SCHEMA_VERSION);
+    expect(report.tool).toEqual({ name: "next-a11y", version: "1.2.3" });
+    expect(report.summary).toEqual({
+      filesScanned: 2,
+      elementsScanned: 40,
+      score: 96,
+      previousScore: 90,
+      violations: 2,
+      fixable: 1,
+      warnings: 1,
+      fixed: 0,
+      baselineSuppressed: 0,
+    });
+    expect(report.violations[0]).toEqual({
+      rule: "button-type",
+      file: "src/Nav.tsx",
+      line: 4,
+      column: 7,
+      element: "<button>",
+      message: "missing type",
+      fix: { type: "insert-attr", attribute: "type", value: "button" },
+    });
+    expect(report.violations[1].fix).toBeNull();
+  });
+
+  it("emits null for unresolved async fix values and missing previous score", () => {
+    const report = buildJsonReport(
+      makeResult([
+        {
+          ...buttonType,
+          rule: "img-alt",
+          fix: { type: "insert-attr", attribute: "alt", value: async () => "x" },
+        },
+      ]),
+      { version: "1.0.0", root: "/project" }
+    );
+    expect(report.summary.previousScore).toBeNull();
+    expect(report.violations[0].fix?.value).toBeNull();
+  });
+
+  it("includes the fixed list", () => {
+    const json = formatJsonReport(
+      makeResult([], {
+        fixedCount: 1,
+        fixed: [
+          {
+            filePath: "/project/src/Nav.tsx",
+            line: 4,
+            rule: "button-type",
+            message: "missing type",
+            fixAttribute: "type",
+            fixType: "insert-attr",
+            fixValue: "button",
+          },
+        ],
+      }),
+      { version: "1.0.0", root: "/project" }
+    );
+    const parsed = JSON.parse(json);
+    expect(parsed.fixed).toEqual([
+      {
+        rule: "button-type",
+        file: "src/Nav.tsx",
+        line: 4,
+        message: "missing type",
+        fix: { type: "insert-attr", attribute: "type", value: "button" },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+import * as path from "node:path";
+import type { FixType, RuleId, ScanResult, Violation } from "../scan/types.js";
+
+/**
+ * Version of the JSON report schema. Bump on any breaking change to the shape
+ * below so consumers (dashboards, CI bots) can detect incompatible reports.
+ */
+export const JSON_REPORT_SCHEMA_VERSION = 1;
+
+export interface JsonReportFix {
+  type: FixType;
+  attribute: string | null;
+  /** null when the value is generated lazily (AI) and was not resolved in this run */
+  value: string | null;
+}
+
+export interface JsonReportViolation {
+  rule: RuleId;
+  /** Path relative to the report root, always with forward slashes */
+  file: string;
+  line: number;
+  column: number;
+  element: string;
+  message: string;
+  fix: JsonReportFix | null;
+}
+
+export interface JsonReportFixed {
+  rule: string;
+  file: string;
+  line: number;
+  message: string;
+  fix: {
+    type: string | null;
+    attribute: string | null;
+    value: string | null;
+  };
+}
+
+export interface JsonReportSuppressionProblem {
+  kind: "unused" | "missing-reason" | "unknown-rule";
+  file: string;
+  line: number;
+  directive: string;
+  message: string;
+}
+
+export interface JsonReport {
+  schemaVersion: typeof JSON_REPORT_SCHEMA_VERSION;
+  tool: { name: "next-a11y"; version: string };
+  generatedAt: string;
+  summary: {
+    filesScanned: number;
+    elementsScanned: number;
+    score: number;
+    previousScore: number | null;
+    violations: number;
+    fixable: number;
+    warnings: number;
+    fixed: number;
+    /** Violations hidden by --baseline (0 when no baseline is used) */
+    baselineSuppressed: number;
+  };
+  violations: JsonReportViolation[];
+  fixed: JsonReportFixed[];
+  suppressionProblems: JsonReportSuppressionProblem[];
+}
+
+export interface JsonReportOptions {
+  version: string;
+  /** Base directory for relative file paths (default: process.cwd()) */
+  root?: string;
+}
+
+export function buildJsonReport(result: ScanResult, options: JsonReportOptions): JsonReport {
+  const root = options.root ?? process.cwd();
+  const fixable = result.violations.filter((v) => v.fix).length;
+
+  return {
+    schemaVersion: JSON_REPORT_SCHEMA_VERSION,
+    tool: { name: "next-a11y", version: options.version },
+    generatedAt: new Date().toISOString(),
+    summary: {
+      filesScanned: result.filesScanned,
+      elementsScanned: result.elementsScanned,
+      score: result.score,
+      previousScore: result.previousScore ?? null,
+      violations: result.violations.length,
+      fixable,
+      warnings: result.violations.length - fixable,
+      fixed: result.fixedCount,
+      baselineSuppressed: result.baselineSuppressed ?? 0,
+    },
+    violations: result.violations.map((v) => toJsonViolation(v, root)),
+    fixed: (result.fixed ?? []).map((f) => ({
+      rule: f.rule,
+      file: toReportPath(f.filePath, root),
+      line: f.line,
+      message: f.message,
+      fix: {
+        type: f.fixType ?? null,
+        attribute: f.fixAttribute ?? null,
+        value: f.fixValue ?? null,
+      },
+    })),
+    suppressionProblems: (result.suppressionProblems ?? []).map((p) => ({
+      kind: p.kind,
+      file: toReportPath(p.filePath, root),
+      line: p.line,
+      directive: p.directive,
+      message: p.message,
+    })),
+  };
+}
+
+export function formatJsonReport(result: ScanResult, options: JsonReportOptions): string {
+  return JSON.stringify(buildJsonReport(result, options), null, 2) + "\n";
+}
+
+function toJsonViolation(v: Violation, root: string): JsonReportViolation {
+  return {
+    rule: v.rule,
+    file: toReportPath(v.filePath, root),
+    line: v.line,
+    column: v.column,
+    element: v.element,
+    message: v.message,
+    fix: v.fix
+      ? {
+          type: v.fix.type,
+          attribute: v.fix.attribute ?? null,
+          value: typeof v.fix.value === "string" ? v.fix.value : null,
+        }
+      : null,
+  };
+}
+
+export function toReportPath(filePath: string, root: string): string {
+  return path.relative(root, filePath).replace(/\\/g, "/");
+}
@@ -0,0 +1,145 @@
+import type { BuiltinRuleId, CustomRule, RuleId } from "../scan/types.js";
+import { getCustomRule, isBuiltinRule } from "../rules/registry.js";
+
+export interface WcagCriterion {
+  id: string;
+  name: string;
+  level: "A" | "AA" | "AAA";
+  /** Slug of the W3C "Understanding WCAG 2.2" page */
+  slug: string;
+}
+
+export interface RuleHelp {
+  /** One-line summary (SARIF shortDescription) */
+  summary: string;
+  /** What the rule checks and how it fixes it (from the rule reference) */
+  help: string;
+  wcag: WcagCriterion[];
+}
+
+const WCAG = {
+  "1.1.1": { id: "1.1.1", name: "Non-text Content", level: "A", slug: "non-text-content" },
+  "1.3.1": { id: "1.3.1", name: "Info and Relationships", level: "A", slug: "info-and-relationships" },
+  "1.2.1": { id: "1.2.1", name: "Audio-only and Video-only (Prerecorded)", level: "A", slug: "audio-only-and-video-only-prerecorded" },
+  "1.2.2": { id: "1.2.2", name: "Captions (Prerecorded)", level: "A", slug: "captions-prerecorded" },
+  "1.4.2": { id: "1.4.2", name: "Audio Control", level: "A", slug: "audio-control" },
+  "2.1.1": { id: "2.1.1", name: "Keyboard", level: "A", slug: "keyboard" },
+  "2.2.2": { id: "2.2.2", name: "Pause, Stop, Hide", level: "A", slug: "pause-stop-hide" },
+  "2.4.1": { id: "2.4.1", name: "Bypass Blocks", level: "A", slug: "bypass-blocks" },
+  "2.4.2": { id: "2.4.2", name: "Page Titled", level: "A", slug: "page-titled" },
+  "2.4.3": { id: "2.4.3", name: "Focus Order", level: "A", slug: "focus-order" },
+  "2.4.4": { id: "2.4.4", name: "Link Purpose (In Context)", level: "A", slug: "link-purpose-in-context" },
+  "3.1.1": { id: "3.1.1", name: "Language of Page", level: "A", slug: "language-of-page" },
+  "3.3.2": { id: "3.3.2", name: "Labels or Instructions", level: "A", slug: "labels-or-instructions" },
+  "4.1.2": { id: "4.1.2", name: "Name, Role, Value", level: "A", slug: "name-role-value" },
+} satisfies Record<string, WcagCriterion>;
+
+export const RULE_HELP: Record<BuiltinRuleId, RuleHelp> = {
+  "img-alt": {
+    summary: "Images must have meaningful alt text",
+    help: "Finds <img> and next/image <Image> elements with missing or meaningless alt text (e.g. \"image\", a filename). Fix: the image is sent to a vision model with page context and the generated alt text is inserted.",
+    wcag: [WCAG["1.1.1"]],
+  },
+  "button-label": {
+    summary: "Buttons must have an accessible name",
+    help: "Finds <button> elements with no text content, aria-label or aria-labelledby — typically icon-only buttons. Fix: an action-oriented aria-label is generated from the icon name and component context.",
+    wcag: [WCAG["4.1.2"]],
+  },
+  "link-label": {
+    summary: "Links must have an accessible name",
+    help: "Finds <a> and next/link <Link> elements wrapping only an icon or an image without alt text. Fix: an aria-label is generated from the icon name and component context.",
+    wcag: [WCAG["2.4.4"], WCAG["4.1.2"]],
+  },
+  "input-label": {
+    summary: "Form controls must have a label",
+    help: "Finds <input>, <select> and <textarea> elements without an associated <label htmlFor>, wrapping <label> or aria-label. Fix: an aria-label is generated from placeholder, name and form context.",
+    wcag: [WCAG["1.3.1"], WCAG["3.3.2"], WCAG["4.1.2"]],
+  },
+  "iframe-title": {
+    summary: "Frames must have a title",
+    help: "Finds <iframe> elements (YouTube, maps, Calendly and other embeds) without a title, aria-label or aria-labelledby. Fix: a title describing the embedded content is generated from the src host and path and the page context.",
+    wcag: [WCAG["4.1.2"]],
+  },
+  "media-captions": {
+    summary: "Media must have captions and user controls",
+    help: "Finds <video> without a captions track (unless muted), <audio> without a transcript track or aria-describedby, and autoPlay media without controls. Fix: inserts controls and, when a matching .vtt file exists in public/, a <track kind=\"captions\">.",
+    wcag: [WCAG["1.2.1"], WCAG["1.2.2"], WCAG["1.4.2"], WCAG["2.2.2"]],
+  },
+  "svg-label": {
+    summary: "Inline SVG graphics must be named or hidden",
+    help: "Finds inline <svg> outside buttons and links with no aria-label, aria-labelledby or <title>. Icons (by component or class name, or unnamed graphics beside text) are decorative — fix: aria-hidden=\"true\". Logos, charts and other standalone graphics — fix: role=\"img\" with a generated aria-label.",
+    wcag: [WCAG["1.1.1"]],
+  },
+  "html-lang": {
+    summary: "The <html> element must have a lang attribute",
+    help: "Checks the root layout or _document for <html> without lang. Fix: inserts the locale from next.config.js, next-intl config or the configured locale.",
+    wcag: [WCAG["3.1.1"]],
+  },
+  "emoji-alt": {
+    summary: "Emoji must be labelled for screen readers",
+    help: "Finds inline emoji in JSX text that are not wrapped in <span role=\"img\" aria-label=\"...\">. Fix: wraps the emoji with its CLDR name as the label.",
+    wcag: [WCAG["1.1.1"]],
+  },
+  "no-positive-tabindex": {
+    summary: "Avoid positive tabIndex values",
+    help: "Finds tabIndex with positive values, which break the natural tab order. Fix: replaces the value with tabIndex={0}.",
+    wcag: [WCAG["2.4.3"]],
+  },
+  "button-type": {
+    summary: "Buttons should declare an explicit type",
+    help: "Finds native <button> elements without a type attribute; the default type=\"submit\" causes unexpected form submissions. Fix: inserts type=\"button\".",
+    wcag: [],
+  },
+  "link-noopener": {
+    summary: "target=\"_blank\" links need rel=\"noopener noreferrer\"",
+    help: "Finds <a target=\"_blank\"> and next/link <Link target=\"_blank\"> without rel=\"noopener noreferrer\". Fix: inserts or completes the rel attribute.",
+    wcag: [],
+  },
+  "next-metadata-title": {
+    summary: "Pages must export a metadata title",
+    help: "Checks App Router page files for export const metadata with a title or generateMetadata(). Without a title the Next.js route announcer is silent on navigation. Fix: generates a title from the route and page headings.",
+    wcag: [WCAG["2.4.2"]],
+  },
+  "next-image-sizes": {
+    summary: "<Image fill> should declare sizes",
+    help: "Finds next/image <Image fill> without a sizes prop, which makes the browser download the largest variant on every viewport.",
+    wcag: [],
+  },
+  "next-link-no-nested-a": {
+    summary: "next/link must not wrap a nested <a>",
+    help: "Finds <Link> with a nested <a> (a Next.js 12 → 13 migration artifact) which renders a double anchor. Fix: removes the inner <a> and hoists its props to <Link>.",
+    wcag: [WCAG["4.1.2"]],
+  },
+  "next-skip-nav": {
+    summary: "Root layout should have a skip navigation link",
+    help: "Checks layout files for a link to #main-content or a \"skip\" link so keyboard users can bypass navigation.",
+    wcag: [WCAG["2.4.1"]],
+  },
+  "heading-order": {
+    summary: "Heading levels should not be skipped",
+    help: "Detects heading level skips such as <h1> followed by <h3>. Detection only — restructuring headings needs human review.",
+    wcag: [WCAG["1.3.1"]],
+  },
+  "no-div-interactive": {
+    summary: "Interactive elements should be buttons",
+    help: "Finds <div> or <span> with onClick but no role and tabIndex. Convert to <button> or add role=\"button\", tabIndex={0} and a keyboard handler. Fix (with the strategy option): \"button\" converts the element when its content and classes allow it, \"keyboard\" adds role, tabIndex and an onKeyDown handler for Enter and Space.",
+    wcag: [WCAG["2.1.1"], WCAG["4.1.2"]],
+  },
+  "aria-valid": {
+    summary: "ARIA roles and attributes must be valid",
+    help: "Checks role and aria-* attributes against WAI-ARIA 1.2: unknown or abstract roles, unknown attributes, invalid values, attributes the element's role doesn't support, and roles the element already has implicitly. Fix: corrects misspellings with a single close match (aria-lable → aria-label, role=\"buton\" → role=\"button\") and removes redundant roles.",
+    wcag: [WCAG["4.1.2"]],
+  },
+};
+
+export function wcagUrl(criterion: WcagCriterion): string {
+  return `https://www.w3.org/WAI/WCAG22/Understanding/${criterion.slug}.html`;
+}
+
+/** Help for a built-in or custom rule; custom rules carry no WCAG mapping */
+export function getRuleHelp(id: RuleId, customRules: CustomRule[] = []): RuleHelp {
+  if (isBuiltinRule(id)) return RULE_HELP[id];
+  const rule = getCustomRule(customRules, id);
+  const summary = rule?.description ?? id;
+  return { summary, help: rule?.help ?? summary, wcag: [] };
+}
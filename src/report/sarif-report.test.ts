@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { buildSarifReport, computeFixReplacement } from "./sarif-report.js";
+import { RULE_HELP } from "./rule-help.js";
+import type { ScanResult, Violation } from "../scan/types.js";
+
+let tmpDir: string;
+let filePath: string;
+const SOURCE = `export function Nav() {\n  return <button onClick={go}>Go</button>;\n}\n`;
+
+beforeAll(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "next-a11y-sarif-"));
+  filePath = path.join(tmpDir, "Nav.tsx");
+  fs.writeFileSync(filePath, SOURCE, "utf-8");
+});
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true });
+});
+
+function makeResult(violations: Violation[]): ScanResult {
+  return { violations, filesScanned: 1, elementsScanned: 10, score: 99, fixedCount: 0 };
+}
+
+function buttonType(): Violation {
+  return {
+    rule: "button-type",
+    filePath,
+    line: 2,
+    column: 10,
+    element: "<button>",
+    message: "missing type",
+    fix: { type: "insert-attr", attribute: "type", value: "button" },
+  };
+}
+
+describe("sarif report", () => {
+  it("describes every built-in rule with WCAG criteria", async () => {
+    const log = await buildSarifReport(makeResult([]), { version: "1.0.0", root: tmpDir });
+    expect(log.version).toBe("2.1.0");
+    const rules = log.runs[0].tool.driver.rules;
+    expect(rules.map((r) => r.id)).toEqual(Object.keys(RULE_HELP));
+
+    const imgAlt = rules.find((r) => r.id === "img-alt")!;
+    expect(imgAlt.properties.wcag).toEqual(["1.1.1"]);
+    expect(imgAlt.help.markdown).toContain("WCAG 1.1.1 Non-text Content");
+    expect(imgAlt.helpUri).toContain("non-text-content");
+  });
+
+  it("maps violations to results with physical locations", async () => {
+    const log = await buildSarifReport(
+      makeResult([buttonType(), { ...buttonType(), rule: "heading-order", fix: undefined }]),
+      { version: "1.0.0", root: tmpDir }
+    );
+    const [fixable, warning] = log.runs[0].results;
+    expect(fixable.ruleId).toBe("button-type");
+    expect(log.runs[0].tool.driver.rules[fixable.ruleIndex].id).toBe("button-type");
+    expect(fixable.level).toBe("error");
+    expect(fixable.locations[0].physicalLocation.artifactLocation.uri).toBe("Nav.tsx");
+    expect(fixable.locations[0].physicalLocation.region).toMatchObject({ startLine: 2, startColumn: 11 });
+    expect(warning.level).toBe("warning");
+    expect(warning.fixes).toBeUndefined();
+  });
+
+  it("takes the level from the configured rule severity", async () => {
+    const unfixed = { ...buttonType(), fix: undefined };
+    const log = await buildSarifReport(makeResult([unfixed, { ...buttonType(), rule: "aria-valid" }]), {
+      version: "1.0.0",
+      root: tmpDir,
+      rules: { "aria-valid": { level: "warn" } },
+    });
+    expect(log.runs[0].results.map((r) => r.level)).toEqual(["error", "warning"]);
+  });
+
+  it("attaches resolved fixes as replacements against the original text", async () => {
+    const log = await buildSarifReport(makeResult([buttonType()]), {
+      version: "1.0.0",
+      root: tmpDir,
+    });
+    const replacement = log.runs[0].results[0].fixes![0].artifactChanges[0].replacements[0];
+    const { charOffset, charLength } = replacement.deletedRegion;
+    const patched =
+      SOURCE.slice(0, charOffset) + replacement.insertedContent.text + SOURCE.slice(charOffset + charLength);
+    expect(patched).toContain('<button onClick={go} type="button">');
+  });
+
+  it("skips fixes whose value is not resolved", async () => {
+    const v = buttonType();
+    v.fix!.value = async () => "button";
+    const log = await buildSarifReport(makeResult([v]), { version: "1.0.0", root: tmpDir });
+    expect(log.runs[0].results[0].fixes).toBeUndefined();
+    expect(await computeFixReplacement({ ...buttonType(), line: 99 }, SOURCE)).toBeUndefined();
+  });
+});
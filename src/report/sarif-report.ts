@@ -0,0 +1,249 @@
+import * as fs from "node:fs";
+import { pathToFileURL } from "node:url";
+import { Project } from "ts-morph";
+import type { CustomRule, RuleId, ScanResult, Violation } from "../scan/types.js";
+import type { ResolvedRuleConfig } from "../config/schema.js";
+import { resolveRuleConfig } from "../config/schema.js";
+import { applyFix } from "../apply/apply.js";
+import { RULE_HELP, getRuleHelp, wcagUrl } from "./rule-help.js";
+import { toReportPath } from "./json-report.js";
+
+/**
+ * SARIF 2.1.0 output for code-scanning UIs (GitHub, Azure DevOps, etc.).
+ * Only the subset of the spec we populate is typed here.
+ */
+export const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+export interface SarifReplacement {
+  deletedRegion: { charOffset: number; charLength: number };
+  insertedContent: { text: string };
+}
+
+export interface SarifFix {
+  description: { text: string };
+  artifactChanges: {
+    artifactLocation: { uri: string; uriBaseId: string };
+    replacements: SarifReplacement[];
+  }[];
+}
+
+export interface SarifRuleDescriptor {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  help: { text: string; markdown: string };
+  helpUri?: string;
+  properties: { tags: string[]; wcag: string[] };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: "error" | "warning";
+  message: { text: string };
+  locations: {
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region: { startLine: number; startColumn: number; snippet: { text: string } };
+    };
+  }[];
+  fixes?: SarifFix[];
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: {
+    tool: {
+      driver: {
+        name: "next-a11y";
+        version: string;
+        informationUri: string;
+        rules: SarifRuleDescriptor[];
+      };
+    };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    results: SarifResult[];
+  }[];
+}
+
+export interface SarifReportOptions {
+  version: string;
+  /** Base directory for artifact URIs (default: process.cwd()) */
+  root?: string;
+  /** Configured rules — "fix" rules report as errors, "warn" rules as warnings (default: built-in levels) */
+  rules?: Partial<Record<RuleId, ResolvedRuleConfig>>;
+  /** Plugin rules of the config (`config.customRules`), described alongside the built-in ones */
+  customRules?: CustomRule[];
+}
+
+const SRCROOT = "%SRCROOT%";
+
+export async function buildSarifReport(
+  result: ScanResult,
+  options: SarifReportOptions
+): Promise<SarifLog> {
+  const root = options.root ?? process.cwd();
+  const customRules = options.customRules ?? [];
+  const ruleIds: RuleId[] = [
+    ...(Object.keys(RULE_HELP) as RuleId[]),
+    ...customRules.map((rule) => rule.id),
+  ];
+  const rules = ruleIds.map((id) => buildRuleDescriptor(id, customRules));
+  const sources = new Map<string, string | null>();
+
+  const results: SarifResult[] = [];
+  for (const v of result.violations) {
+    const uri = toReportPath(v.filePath, root);
+    const sarifResult: SarifResult = {
+      ruleId: v.rule,
+      ruleIndex: ruleIds.indexOf(v.rule),
+      level: getRuleLevel(v.rule, options) === "fix" ? "error" : "warning",
+      message: { text: v.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri, uriBaseId: SRCROOT },
+            // SARIF columns are 1-based
+            region: { startLine: v.line, startColumn: v.column + 1, snippet: { text: v.element } },
+          },
+        },
+      ],
+    };
+
+    if (v.fix && typeof v.fix.value === "string") {
+      if (!sources.has(v.filePath)) sources.set(v.filePath, readSource(v.filePath));
+      const source = sources.get(v.filePath);
+      const replacement = source != null
+        ? await computeFixReplacement(v, source, customRules)
+        : undefined;
+      if (replacement) {
+        sarifResult.fixes = [
+          {
+            description: { text: describeFix(v) },
+            artifactChanges: [
+              {
+                artifactLocation: { uri, uriBaseId: SRCROOT },
+                replacements: [replacement],
+              },
+            ],
+          },
+        ];
+      }
+    }
+
+    results.push(sarifResult);
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "next-a11y",
+            version: options.version,
+            informationUri: "https://github.com/MaciejWiatr/next-a11y",
+            rules,
+          },
+        },
+        originalUriBaseIds: {
+          [SRCROOT]: { uri: pathToFileURL(root).href.replace(/\/?$/, "/") },
+        },
+        results,
+      },
+    ],
+  };
+}
+
+export async function formatSarifReport(
+  result: ScanResult,
+  options: SarifReportOptions
+): Promise<string> {
+  return JSON.stringify(await buildSarifReport(result, options), null, 2) + "\n";
+}
+
+function getRuleLevel(rule: RuleId, options: SarifReportOptions) {
+  return (options.rules?.[rule] ?? resolveRuleConfig(rule, undefined)).level;
+}
+
+function buildRuleDescriptor(id: RuleId, customRules: CustomRule[]): SarifRuleDescriptor {
+  const { summary, help, wcag } = getRuleHelp(id, customRules);
+  const wcagLines = wcag.map((c) => `- [WCAG ${c.id} ${c.name} (Level ${c.level})](${wcagUrl(c)})`);
+  return {
+    id,
+    name: id.replace(/(^|-)(\w)/g, (_, _sep, ch: string) => ch.toUpperCase()),
+    shortDescription: { text: summary },
+    fullDescription: { text: help },
+    help: {
+      text: wcag.length > 0
+        ? `${help}\n\nWCAG: ${wcag.map((c) => `${c.id} ${c.name}`).join(", ")}`
+        : help,
+      markdown: wcagLines.length > 0 ? `${help}\n\n${wcagLines.join("\n")}` : help,
+    },
+    ...(wcag.length > 0 ? { helpUri: wcagUrl(wcag[0]) } : {}),
+    properties: {
+      tags: ["accessibility", ...wcag.map((c) => `wcag${c.id.replace(/\./g, "")}`)],
+      wcag: wcag.map((c) => c.id),
+    },
+  };
+}
+
+function readSource(filePath: string): string | null {
+  try {
+    return fs.readFileSync(filePath, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Apply the fix to an in-memory copy of the file and express the change as a
+ * single replacement relative to the original text.
+ */
+export async function computeFixReplacement(
+  violation: Violation,
+  source: string,
+  customRules: CustomRule[] = []
+): Promise<SarifReplacement | undefined> {
+  const project = new Project({
+    useInMemoryFileSystem: true,
+    compilerOptions: { jsx: 4, allowJs: true },
+  });
+  const file = project.createSourceFile(violation.filePath, source, { overwrite: true });
+
+  try {
+    if (!(await applyFix(file, violation, customRules))) return undefined;
+  } catch {
+    return undefined;
+  }
+
+  const updated = file.getFullText();
+  if (updated === source) return undefined;
+
+  let start = 0;
+  while (start < source.length && start < updated.length && source[start] === updated[start]) {
+    start++;
+  }
+  let suffix = 0;
+  while (
+    suffix < source.length - start &&
+    suffix < updated.length - start &&
+    source[source.length - 1 - suffix] === updated[updated.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return {
+    deletedRegion: { charOffset: start, charLength: source.length - start - suffix },
+    insertedContent: { text: updated.slice(start, updated.length - suffix) },
+  };
+}
+
+function describeFix(v: Violation): string {
+  const value = typeof v.fix?.value === "string" ? v.fix.value : "";
+  if (v.fix?.attribute) return `Set ${v.fix.attribute}="${value}"`;
+  return `Apply ${v.rule} fix`;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { createUnifiedDiff } from "./unified-diff.js";
+
+describe("createUnifiedDiff", () => {
+  it("returns an empty string for identical text", () => {
+    expect(createUnifiedDiff("a.tsx", "x\n", "x\n")).toBe("");
+  });
+
+  it("emits a single hunk with three lines of context", () => {
+    const before = ["1", "2", "3", "4", "<img src={a} />", "6", "7", "8", "9"].join("\n") + "\n";
+    const after = before.replace("<img src={a} />", '<img src={a} alt="Logo" />');
+
+    expect(createUnifiedDiff("src/a.tsx", before, after)).toBe(
+      [
+        "--- a/src/a.tsx",
+        "+++ b/src/a.tsx",
+        "@@ -2,7 +2,7 @@",
+        " 2",
+        " 3",
+        " 4",
+        "-<img src={a} />",
+        '+<img src={a} alt="Logo" />',
+        " 6",
+        " 7",
+        " 8",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("splits distant changes into separate hunks", () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const before = lines.join("\n") + "\n";
+    const changed = [...lines];
+    changed[1] = "changed 2";
+    changed[17] = "changed 18";
+    const diff = createUnifiedDiff("a.tsx", before, changed.join("\n") + "\n");
+
+    expect(diff.match(/^@@ .* @@$/gm)).toEqual(["@@ -1,5 +1,5 @@", "@@ -15,6 +15,6 @@"]);
+  });
+
+  it("counts inserted lines in the new range", () => {
+    const before = "<div>\n  <p>Hi 🔥</p>\n</div>\n";
+    const after = "<div>\n  <p>\n    Hi <span role=\"img\" aria-label=\"fire\">🔥</span>\n  </p>\n</div>\n";
+    const diff = createUnifiedDiff("a.tsx", before, after);
+
+    expect(diff).toContain("@@ -1,3 +1,5 @@");
+    expect(diff).toContain("-  <p>Hi 🔥</p>");
+    expect(diff.split("\n").filter((l) => l.startsWith("+") && !l.startsWith("+++"))).toHaveLength(3);
+  });
+
+  it("marks a missing newline at end of file", () => {
+    const diff = createUnifiedDiff("a.tsx", "<html>", '<html lang="en">');
+    expect(diff).toBe(
+      [
+        "--- a/a.tsx",
+        "+++ b/a.tsx",
+        "@@ -1 +1 @@",
+        "-<html>",
+        "\\ No newline at end of file",
+        '+<html lang="en">',
+        "\\ No newline at end of file",
+        "",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Minimal unified diff (the format `git apply` / `patch -p1` consume).
+ * Fixes touch a few lines per file, so common prefix/suffix lines are trimmed
+ * first and only the remaining window is diffed with an LCS table.
+ */
+
+const CONTEXT_LINES = 3;
+/** Marks a final line without "\n" so it never matches one that has it */
+const NO_EOL = "\0no-eol";
+
+type Edit = { op: " " | "-" | "+"; line: string };
+
+export function createUnifiedDiff(
+  filePath: string,
+  oldText: string,
+  newText: string
+): string {
+  if (oldText === newText) return "";
+
+  const edits = diffLines(splitLines(oldText), splitLines(newText));
+  const header = [`--- a/${filePath}`, `+++ b/${filePath}`];
+  return [...header, ...buildHunks(edits)].join("\n") + "\n";
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  else lines[lines.length - 1] += NO_EOL;
+  return lines;
+}
+
+function diffLines(a: string[], b: string[]): Edit[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () =>
+    new Array<number>(midB.length + 1).fill(0)
+  );
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const edits: Edit[] = a.slice(0, prefix).map((line) => ({ op: " ", line }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      edits.push({ op: " ", line: midA[i++] });
+      j++;
+    } else if (j < midB.length && (i === midA.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      edits.push({ op: "+", line: midB[j++] });
+    } else {
+      edits.push({ op: "-", line: midA[i++] });
+    }
+  }
+  // Removals before additions within a change block, like git
+  normalizeChangeBlocks(edits, prefix);
+  edits.push(...a.slice(a.length - suffix).map((line) => ({ op: " " as const, line })));
+  return edits;
+}
+
+function normalizeChangeBlocks(edits: Edit[], from: number): void {
+  let start = from;
+  while (start < edits.length) {
+    if (edits[start].op === " ") {
+      start++;
+      continue;
+    }
+    let end = start;
+    while (end < edits.length && edits[end].op !== " ") end++;
+    const block = edits.slice(start, end);
+    edits.splice(
+      start,
+      block.length,
+      ...block.filter((e) => e.op === "-"),
+      ...block.filter((e) => e.op === "+")
+    );
+    start = end;
+  }
+}
+
+function buildHunks(edits: Edit[]): string[] {
+  const changed = edits.map((e, i) => (e.op !== " " ? i : -1)).filter((i) => i >= 0);
+  const lines: string[] = [];
+
+  let k = 0;
+  while (k < changed.length) {
+    const start = Math.max(0, changed[k] - CONTEXT_LINES);
+    let end = changed[k];
+    // Merge changes whose context windows overlap into one hunk
+    while (k + 1 < changed.length && changed[k + 1] - end <= CONTEXT_LINES * 2) {
+      end = changed[++k];
+    }
+    k++;
+    end = Math.min(edits.length - 1, end + CONTEXT_LINES);
+
+    let oldStart = 1;
+    let newStart = 1;
+    for (let i = 0; i < start; i++) {
+      if (edits[i].op !== "+") oldStart++;
+      if (edits[i].op !== "-") newStart++;
+    }
+    const hunk = edits.slice(start, end + 1);
+    const oldCount = hunk.filter((e) => e.op !== "+").length;
+    const newCount = hunk.filter((e) => e.op !== "-").length;
+
+    lines.push(`@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`);
+    for (const e of hunk) {
+      if (e.line.endsWith(NO_EOL)) {
+        lines.push(`${e.op}${e.line.slice(0, -NO_EOL.length)}`, "\\ No newline at end of file");
+      } else {
+        lines.push(`${e.op}${e.line}`);
+      }
+    }
+  }
+
+  return lines;
+}
+
+function formatRange(start: number, count: number): string {
+  if (count === 0) return `${start - 1},0`;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
@@ -0,0 +1,277 @@
+/**
+ * WAI-ARIA 1.2 roles and states/properties, trimmed to what aria-valid checks:
+ * value types, which roles support which attributes, and HTML implicit roles
+ * (HTML-AAM) for redundancy and allowed-attribute checks.
+ */
+
+export type AriaValueType =
+  | "boolean"
+  /** true | false | undefined */
+  | "boolean-undefined"
+  /** true | false | mixed */
+  | "tristate"
+  | "token"
+  | "tokens"
+  | "integer"
+  | "number"
+  | "idref"
+  | "idrefs"
+  | "string";
+
+export interface AriaAttribute {
+  type: AriaValueType;
+  /** Allowed tokens for token and tokens types */
+  values?: string[];
+  /** Supported on every role */
+  global?: boolean;
+}
+
+export const ARIA_ATTRIBUTES: Record<string, AriaAttribute> = {
+  // Global states and properties
+  "aria-atomic": { type: "boolean", global: true },
+  "aria-busy": { type: "boolean", global: true },
+  "aria-controls": { type: "idrefs", global: true },
+  "aria-current": { type: "token", values: ["page", "step", "location", "date", "time", "true", "false"], global: true },
+  "aria-describedby": { type: "idrefs", global: true },
+  "aria-details": { type: "idref", global: true },
+  "aria-disabled": { type: "boolean", global: true },
+  "aria-dropeffect": { type: "tokens", values: ["copy", "execute", "link", "move", "none", "popup"], global: true },
+  "aria-errormessage": { type: "idref", global: true },
+  "aria-flowto": { type: "idrefs", global: true },
+  "aria-grabbed": { type: "boolean-undefined", global: true },
+  "aria-haspopup": { type: "token", values: ["false", "true", "menu", "listbox", "tree", "grid", "dialog"], global: true },
+  "aria-hidden": { type: "boolean-undefined", global: true },
+  "aria-invalid": { type: "token", values: ["grammar", "false", "spelling", "true"], global: true },
+  "aria-keyshortcuts": { type: "string", global: true },
+  "aria-label": { type: "string", global: true },
+  "aria-labelledby": { type: "idrefs", global: true },
+  "aria-live": { type: "token", values: ["assertive", "off", "polite"], global: true },
+  "aria-owns": { type: "idrefs", global: true },
+  "aria-relevant": { type: "tokens", values: ["additions", "all", "removals", "text"], global: true },
+  "aria-roledescription": { type: "string", global: true },
+  // Role-specific
+  "aria-activedescendant": { type: "idref" },
+  "aria-autocomplete": { type: "token", values: ["inline", "list", "both", "none"] },
+  "aria-checked": { type: "tristate" },
+  "aria-colcount": { type: "integer" },
+  "aria-colindex": { type: "integer" },
+  "aria-colspan": { type: "integer" },
+  "aria-expanded": { type: "boolean-undefined" },
+  "aria-level": { type: "integer" },
+  "aria-modal": { type: "boolean" },
+  "aria-multiline": { type: "boolean" },
+  "aria-multiselectable": { type: "boolean" },
+  "aria-orientation": { type: "token", values: ["horizontal", "vertical", "undefined"] },
+  "aria-placeholder": { type: "string" },
+  "aria-posinset": { type: "integer" },
+  "aria-pressed": { type: "tristate" },
+  "aria-readonly": { type: "boolean" },
+  "aria-required": { type: "boolean" },
+  "aria-rowcount": { type: "integer" },
+  "aria-rowindex": { type: "integer" },
+  "aria-rowspan": { type: "integer" },
+  "aria-selected": { type: "boolean-undefined" },
+  "aria-setsize": { type: "integer" },
+  "aria-sort": { type: "token", values: ["ascending", "descending", "none", "other"] },
+  "aria-valuemax": { type: "number" },
+  "aria-valuemin": { type: "number" },
+  "aria-valuenow": { type: "number" },
+  "aria-valuetext": { type: "string" },
+};
+
+const RANGE = ["aria-valuemax", "aria-valuemin", "aria-valuenow", "aria-valuetext"];
+const CELL = ["aria-colindex", "aria-colspan", "aria-rowindex", "aria-rowspan"];
+const HEADER = [...CELL, "aria-expanded", "aria-readonly", "aria-required", "aria-selected", "aria-sort"];
+const SET_ITEM = ["aria-posinset", "aria-setsize"];
+const TEXT_INPUT = ["aria-activedescendant", "aria-autocomplete", "aria-multiline", "aria-placeholder", "aria-readonly", "aria-required"];
+const MENU_ITEM_CHECKABLE = ["aria-checked", "aria-expanded", ...SET_ITEM];
+const TREE = ["aria-activedescendant", "aria-expanded", "aria-multiselectable", "aria-orientation", "aria-required"];
+const GRID = ["aria-activedescendant", "aria-colcount", "aria-expanded", "aria-multiselectable", "aria-readonly", "aria-rowcount"];
+
+/** Concrete roles → supported non-global attributes (inherited ones included) */
+export const ROLES: Record<string, string[]> = {
+  alert: [],
+  alertdialog: ["aria-modal"],
+  application: ["aria-activedescendant", "aria-expanded"],
+  article: SET_ITEM,
+  banner: [],
+  blockquote: [],
+  button: ["aria-expanded", "aria-pressed"],
+  caption: [],
+  cell: CELL,
+  checkbox: ["aria-checked", "aria-expanded", "aria-readonly", "aria-required"],
+  code: [],
+  columnheader: HEADER,
+  combobox: ["aria-activedescendant", "aria-autocomplete", "aria-expanded", "aria-readonly", "aria-required"],
+  complementary: [],
+  contentinfo: [],
+  definition: [],
+  deletion: [],
+  dialog: ["aria-modal"],
+  directory: [],
+  document: ["aria-expanded"],
+  emphasis: [],
+  feed: [],
+  figure: [],
+  form: [],
+  generic: [],
+  grid: GRID,
+  gridcell: [...CELL, "aria-expanded", "aria-readonly", "aria-required", "aria-selected"],
+  group: ["aria-activedescendant", "aria-expanded"],
+  heading: ["aria-level"],
+  img: [],
+  insertion: [],
+  link: ["aria-expanded"],
+  list: [],
+  listbox: ["aria-activedescendant", "aria-expanded", "aria-multiselectable", "aria-orientation", "aria-readonly", "aria-required"],
+  listitem: ["aria-level", ...SET_ITEM],
+  log: [],
+  main: [],
+  marquee: [],
+  math: [],
+  menu: ["aria-activedescendant", "aria-orientation"],
+  menubar: ["aria-activedescendant", "aria-orientation"],
+  menuitem: ["aria-expanded", ...SET_ITEM],
+  menuitemcheckbox: MENU_ITEM_CHECKABLE,
+  menuitemradio: MENU_ITEM_CHECKABLE,
+  meter: RANGE,
+  navigation: [],
+  none: [],
+  note: [],
+  option: ["aria-checked", "aria-selected", ...SET_ITEM],
+  paragraph: [],
+  presentation: [],
+  progressbar: RANGE,
+  radio: ["aria-checked", ...SET_ITEM],
+  radiogroup: ["aria-activedescendant", "aria-expanded", "aria-readonly", "aria-required"],
+  region: [],
+  row: ["aria-activedescendant", "aria-colindex", "aria-expanded", "aria-level", "aria-rowindex", "aria-selected", ...SET_ITEM],
+  rowgroup: [],
+  rowheader: HEADER,
+  scrollbar: ["aria-orientation", ...RANGE],
+  search: [],
+  searchbox: TEXT_INPUT,
+  separator: ["aria-orientation", ...RANGE],
+  slider: ["aria-orientation", "aria-readonly", ...RANGE],
+  spinbutton: ["aria-activedescendant", "aria-readonly", "aria-required", ...RANGE],
+  status: [],
+  strong: [],
+  subscript: [],
+  superscript: [],
+  switch: ["aria-checked", "aria-expanded", "aria-readonly", "aria-required"],
+  tab: ["aria-expanded", "aria-selected", ...SET_ITEM],
+  table: ["aria-colcount", "aria-rowcount"],
+  tablist: ["aria-activedescendant", "aria-multiselectable", "aria-orientation"],
+  tabpanel: [],
+  term: [],
+  textbox: TEXT_INPUT,
+  time: [],
+  timer: [],
+  toolbar: ["aria-activedescendant", "aria-orientation"],
+  tooltip: [],
+  tree: TREE,
+  treegrid: [...new Set([...GRID, ...TREE])],
+  treeitem: ["aria-checked", "aria-expanded", "aria-level", "aria-selected", ...SET_ITEM],
+};
+
+/** Abstract roles are for the ontology only — never valid in content */
+export const ABSTRACT_ROLES = [
+  "command", "composite", "input", "landmark", "range", "roletype", "section",
+  "sectionhead", "select", "structure", "widget", "window",
+];
+
+/** DPUB-ARIA and Graphics-ARIA roles are valid; their attributes are not checked */
+export const EXTENSION_ROLE = /^(doc|graphics)-[a-z]+$/;
+
+/**
+ * Implicit role of an HTML element, or undefined when it depends on context
+ * (header, footer, section, img) or the element has none worth checking.
+ */
+export function getImplicitRole(tag: string, attrs: { type?: string; href?: boolean; multiple?: boolean }): string | undefined {
+  switch (tag) {
+    case "a":
+    case "area":
+      return attrs.href ? "link" : undefined;
+    case "input":
+      return getInputRole(attrs.type ?? "text");
+    case "select":
+      return attrs.multiple ? "listbox" : "combobox";
+    default:
+      return IMPLICIT_ROLES[tag];
+  }
+}
+
+const IMPLICIT_ROLES: Record<string, string> = {
+  article: "article",
+  aside: "complementary",
+  blockquote: "blockquote",
+  button: "button",
+  code: "code",
+  datalist: "listbox",
+  del: "deletion",
+  details: "group",
+  dialog: "dialog",
+  div: "generic",
+  em: "emphasis",
+  fieldset: "group",
+  figure: "figure",
+  h1: "heading",
+  h2: "heading",
+  h3: "heading",
+  h4: "heading",
+  h5: "heading",
+  h6: "heading",
+  hr: "separator",
+  ins: "insertion",
+  li: "listitem",
+  main: "main",
+  menu: "list",
+  meter: "meter",
+  nav: "navigation",
+  ol: "list",
+  optgroup: "group",
+  option: "option",
+  output: "status",
+  p: "paragraph",
+  progress: "progressbar",
+  span: "generic",
+  strong: "strong",
+  sub: "subscript",
+  sup: "superscript",
+  table: "table",
+  tbody: "rowgroup",
+  td: "cell",
+  textarea: "textbox",
+  tfoot: "rowgroup",
+  thead: "rowgroup",
+  time: "time",
+  tr: "row",
+  ul: "list",
+};
+
+function getInputRole(type: string): string | undefined {
+  switch (type) {
+    case "button":
+    case "image":
+    case "reset":
+    case "submit":
+      return "button";
+    case "checkbox":
+      return "checkbox";
+    case "radio":
+      return "radio";
+    case "range":
+      return "slider";
+    case "number":
+      return "spinbutton";
+    case "search":
+      return "searchbox";
+    case "email":
+    case "tel":
+    case "text":
+    case "url":
+      return "textbox";
+    default:
+      return undefined;
+  }
+}
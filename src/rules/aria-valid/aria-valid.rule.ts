@@ -0,0 +1,221 @@
+import type { SourceFile } from "ts-morph";
+import { SyntaxKind } from "ts-morph";
+import type { Fix, JsxElement, Rule, Violation } from "../../scan/types.js";
+import { createAnchor } from "../../apply/anchor.js";
+import { getLiteralValue } from "../../utils/jsx-attribute.js";
+import { ABSTRACT_ROLES, ARIA_ATTRIBUTES, EXTENSION_ROLE, ROLES, getImplicitRole } from "./aria-data.js";
+
+/** Allowed values for the single-token value types */
+const LITERAL_VALUES: Record<string, string[]> = {
+  boolean: ["true", "false"],
+  "boolean-undefined": ["true", "false", "undefined"],
+  tristate: ["true", "false", "mixed"],
+};
+
+/** Roles that drop the element's semantics — any non-global ARIA on them is ignored */
+const PRESENTATIONAL_ROLES = new Set(["none", "presentation"]);
+
+export const ariaValidRule: Rule = {
+  id: "aria-valid",
+  type: "deterministic",
+
+  scan(file: SourceFile): Violation[] {
+    const violations: Violation[] = [];
+    const filePath = file.getFilePath();
+
+    const elements = [
+      ...file.getDescendantsOfKind(SyntaxKind.JsxOpeningElement),
+      ...file.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement),
+    ];
+
+    for (const el of elements) {
+      const tag = el.getTagNameNode().getText();
+      // Components forward props anywhere; only HTML elements are checked
+      if (!/^[a-z][a-z0-9]*$/.test(tag)) continue;
+
+      const report = (message: string, attribute: string, fix?: Fix) =>
+        violations.push({
+          rule: "aria-valid",
+          filePath,
+          line: el.getStartLineNumber(),
+          column: el.getStart() - el.getStartLinePos(),
+          element: el.getText().slice(0, 80),
+          message,
+          fix,
+          anchor: createAnchor(el),
+        });
+
+      const role = checkRole(el, tag, report);
+      const attributes = getAriaAttributes(el);
+
+      for (const name of attributes) {
+        const info = ARIA_ATTRIBUTES[name];
+        if (!info) {
+          const suggestion = suggestAttribute(name);
+          const canRename = suggestion !== undefined && !el.getAttribute(suggestion);
+          report(
+            `Unknown ARIA attribute "${name}"${suggestion ? ` — did you mean "${suggestion}"?` : ""}`,
+            name,
+            canRename ? { type: "rename-attr", attribute: name, value: suggestion! } : undefined
+          );
+          continue;
+        }
+
+        checkValue(el, name, report);
+
+        if (info.global || role === undefined || PRESENTATIONAL_ROLES.has(role)) continue;
+        if (!ROLES[role]?.includes(name)) {
+          report(`"${name}" is not supported on role "${role}"`, name);
+        }
+      }
+    }
+
+    return violations;
+  },
+};
+
+type Report = (message: string, attribute: string, fix?: Fix) => void;
+
+/**
+ * Checks the explicit role and returns the role the attributes are checked
+ * against: the explicit role, else the implicit one. Undefined when it can't
+ * be known statically (dynamic role, spread props, context-dependent elements).
+ */
+function checkRole(el: JsxElement, tag: string, report: Report): string | undefined {
+  const hasSpread = el.getAttributes().some((attr) => attr.isKind(SyntaxKind.JsxSpreadAttribute));
+  const type = getLiteralValue(el, "type");
+  // <input type={kind}> — the role depends on a runtime value
+  const dynamicType = type === undefined && el.getAttribute("type") !== undefined;
+  const implicit = dynamicType ? undefined : getImplicitRole(tag, {
+    type,
+    href: el.getAttribute("href") !== undefined,
+    multiple: el.getAttribute("multiple") !== undefined,
+  });
+
+  if (!el.getAttribute("role")) return hasSpread ? undefined : implicit;
+  const value = getLiteralValue(el, "role");
+  if (value === undefined) return undefined;
+
+  // role="switch checkbox" — later tokens are fallbacks for older browsers
+  const tokens = value.trim().split(/\s+/).filter(Boolean);
+  for (const token of tokens.filter((t) => ABSTRACT_ROLES.includes(t))) {
+    report(`Abstract role "${token}" must not be used in content`, "role");
+  }
+
+  const unknown = tokens.filter((t) => !isKnownRole(t) && !ABSTRACT_ROLES.includes(t));
+  if (unknown.length > 0) {
+    const suggestions = new Map(unknown.map((t) => [t, suggest(t, Object.keys(ROLES))]));
+    const described = unknown.map((t) => {
+      const suggestion = suggestions.get(t);
+      return `"${t}"${suggestion ? ` (did you mean "${suggestion}"?)` : ""}`;
+    });
+    const fixable = unknown.every((t) => suggestions.get(t));
+    report(
+      `Unknown role ${described.join(", ")}`,
+      "role",
+      fixable
+        ? { type: "replace-attr", attribute: "role", value: tokens.map((t) => suggestions.get(t) ?? t).join(" ") }
+        : undefined
+    );
+    return undefined;
+  }
+
+  // The browser uses the first role it supports
+  const explicit = tokens.find(isKnownRole);
+  if (!explicit || EXTENSION_ROLE.test(explicit)) return undefined;
+
+  // ul/ol styled with list-style: none lose list semantics in Safari; role="list" restores them
+  const safariList = explicit === "list" && (tag === "ul" || tag === "ol");
+  if (tokens.length === 1 && explicit === implicit && !safariList) {
+    report(`Redundant role "${explicit}" — <${tag}> already has this role`, "role", {
+      type: "remove-attr",
+      attribute: "role",
+      value: "",
+    });
+  }
+  return explicit;
+}
+
+function isKnownRole(token: string): boolean {
+  return ROLES[token] !== undefined || EXTENSION_ROLE.test(token);
+}
+
+function checkValue(el: JsxElement, name: string, report: Report): void {
+  const info = ARIA_ATTRIBUTES[name];
+  const raw = getLiteralValue(el, name);
+  if (raw === undefined || info.type === "string" || info.type === "idref" || info.type === "idrefs") return;
+  const value = raw.trim();
+
+  if (info.type === "integer" || info.type === "number") {
+    const valid = info.type === "integer" ? /^-?\d+$/.test(value) : value !== "" && Number.isFinite(Number(value));
+    if (!valid) report(`"${name}" must be ${info.type === "integer" ? "an integer" : "a number"}, got "${raw}"`, name);
+    return;
+  }
+
+  const allowed = info.values ?? LITERAL_VALUES[info.type];
+  const tokens = info.type === "tokens" ? value.split(/\s+/) : [value];
+  const invalid = tokens.filter((token) => !allowed.includes(token));
+  if (invalid.length === 0) return;
+
+  const suggestion = invalid.length === 1 && tokens.length === 1 ? suggest(value, allowed) : undefined;
+  report(
+    `Invalid value "${raw}" for "${name}"` +
+      (suggestion ? ` — did you mean "${suggestion}"?` : ` (allowed: ${allowed.join(", ")})`),
+    name,
+    suggestion ? { type: "replace-attr", attribute: name, value: suggestion } : undefined
+  );
+}
+
+/** aria-* attributes, plus camelCase `ariaLabel` which React passes through unchanged */
+function getAriaAttributes(el: JsxElement): string[] {
+  return el
+    .getAttributes()
+    .filter((attr) => attr.isKind(SyntaxKind.JsxAttribute))
+    .map((attr) => attr.asKindOrThrow(SyntaxKind.JsxAttribute).getNameNode().getText())
+    .filter((name) => name.startsWith("aria-") || /^aria[A-Z]/.test(name));
+}
+
+/** Closest known attribute: `ariaLabel` → `aria-label`, `aria-lable` → `aria-label` */
+function suggestAttribute(name: string): string | undefined {
+  const kebab = name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+  if (ARIA_ATTRIBUTES[kebab]) return kebab;
+  return suggest(kebab.toLowerCase(), Object.keys(ARIA_ATTRIBUTES));
+}
+
+/**
+ * Nearest candidate within 2 edits, or undefined when there is none or the
+ * nearest is ambiguous (a wrong autofix is worse than none).
+ */
+export function suggest(value: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = 3;
+  let tie = false;
+  for (const candidate of candidates) {
+    const distance = getEditDistance(value, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+      tie = false;
+    } else if (distance === bestDistance) {
+      tie = true;
+    }
+  }
+  return tie ? undefined : best;
+}
+
+/** Levenshtein distance, counting an adjacent transposition as one edit */
+function getEditDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import { Project } from "ts-morph";
+import { ariaValidRule, suggest } from "./aria-valid.rule.js";
+import { applyFix } from "../../apply/apply.js";
+
+function createSourceFile(code: string) {
+  const project = new Project({
+    useInMemoryFileSystem: true,
+    compilerOptions: { jsx: 2 /* JsxEmit.React */ },
+  });
+  return project.createSourceFile("/app/page.tsx", code);
+}
+
+describe("ariaValidRule", () => {
+  it("renames a misspelled attribute", async () => {
+    const file = createSourceFile(`
+      export default function Nav() {
+        return <nav aria-lable="Main">Links</nav>;
+      }
+    `);
+
+    const violations = ariaValidRule.scan(file);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toBe(`Unknown ARIA attribute "aria-lable" — did you mean "aria-label"?`);
+    expect(violations[0].fix).toEqual({ type: "rename-attr", attribute: "aria-lable", value: "aria-label" });
+
+    expect(await applyFix(file, violations[0])).toBe(true);
+    expect(file.getFullText()).toContain(`<nav aria-label="Main">`);
+  });
+
+  it("suggests kebab-case for camelCase attributes", () => {
+    const file = createSourceFile(`
+      export default function Menu() {
+        return <ul ariaExpanded="true" aria-foo="x"><li>Item</li></ul>;
+      }
+    `);
+
+    const violations = ariaValidRule.scan(file);
+
+    expect(violations.map((v) => v.fix?.value)).toEqual(["aria-expanded", undefined]);
+    expect(violations[1].message).toBe(`Unknown ARIA attribute "aria-foo"`);
+  });
+
+  it("does not rename onto an attribute that already exists", () => {
+    const file = createSourceFile(`
+      export default function Nav() {
+        return <nav aria-label="Main" aria-lable="Main">Links</nav>;
+      }
+    `);
+
+    const [violation] = ariaValidRule.scan(file);
+    expect(violation.fix).toBeUndefined();
+  });
+
+  it("fixes misspelled roles and reports abstract ones", async () => {
+    const file = createSourceFile(`
+      export default function Toolbar() {
+        return (
+          <div>
+            <div role="buton" onClick={() => {}}>Save</div>
+            <div role="widget">Panel</div>
+            <div role="banana">?</div>
+          </div>
+        );
+      }
+    `);
+
+    const violations = ariaValidRule.scan(file);
+
+    expect(violations.map((v) => v.message)).toEqual([
+      `Unknown role "buton" (did you mean "button"?)`,
+      `Abstract role "widget" must not be used in content`,
+      `Unknown role "banana"`,
+    ]);
+    expect(violations.map((v) => v.fix?.type)).toEqual(["replace-attr", undefined, undefined]);
+
+    expect(await applyFix(file, violations[0])).toBe(true);
+    expect(file.getFullText()).toContain(`<div role="button" onClick={() => {}}>`);
+  });
+
+  it("checks values against the attribute type", async () => {
+    const file = createSourceFile(`
+      export default function Status() {
+        return (
+          <div>
+            <span aria-live="polit">Saved</span>
+            <span aria-hidden="yes">*</span>
+            <h2 aria-level="two">Title</h2>
+            <span aria-relevant="additions text" aria-hidden aria-busy={false}>Ok</span>
+          </div>
+        );
+      }
+    `);
+
+    const violations = ariaValidRule.scan(file);
+
+    expect(violations.map((v) => v.message)).toEqual([
+      `Invalid value "polit" for "aria-live" — did you mean "polite"?`,
+      `Invalid value "yes" for "aria-hidden" (allowed: true, false, undefined)`,
+      `"aria-level" must be an integer, got "two"`,
+    ]);
+
+    expect(await applyFix(file, violations[0])).toBe(true);
+    expect(file.getFullText()).toContain(`<span aria-live="polite">`);
+  });
+
+  it("reports attributes the role does not support", () => {
+    const file = createSourceFile(`
+      export default function List() {
+        return (
+          <div>
+            <a href="/" aria-checked="true">Home</a>
+            <div role="checkbox" aria-checked="true" tabIndex={0}>Agree</div>
+            <button aria-pressed="true" aria-label="Bold">B</button>
+            <section aria-expanded="false">…</section>
+          </div>
+        );
+      }
+    `);
+
+    const violations = ariaValidRule.scan(file);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toBe(`"aria-checked" is not supported on role "link"`);
+    expect(violations[0].fix).toBeUndefined();
+  });
+
+  it("removes redundant roles but keeps role=list", async () => {
+    const file = createSourceFile(`
+      export default function Layout() {
+        return (
+          <main role="main">
+            <ul role="list"><li>One</li></ul>
+            <input type="checkbox" role="checkbox" />
+            <input type="checkbox" role="switch" />
+          </main>
+        );
+      }
+    `);
+
+    const violations = ariaValidRule.scan(file);
+
+    expect(violations.map((v) => v.message)).toEqual([
+      `Redundant role "main" — <main> already has this role`,
+      `Redundant role "checkbox" — <input> already has this role`,
+    ]);
+
+    for (const v of violations) expect(await applyFix(file, v)).toBe(true);
+    expect(file.getFullText()).toContain(`<main>`);
+    expect(file.getFullText()).toContain(`<input type="checkbox" />`);
+  });
+
+  it("skips components, dynamic values and spread props", () => {
+    const file = createSourceFile(`
+      export default function Page(props: object) {
+        const role = "tab";
+        return (
+          <div>
+            <Tabs role="tablist" aria-lable="x" />
+            <div role={role} aria-selected="true" />
+            <span aria-live={mode} />
+            <div {...props} aria-expanded="true" />
+            <input type={kind} aria-checked="true" />
+          </div>
+        );
+      }
+    `);
+
+    expect(ariaValidRule.scan(file)).toHaveLength(0);
+  });
+});
+
+describe("suggest", () => {
+  it("returns a unique close match only", () => {
+    expect(suggest("aira-label", ["aria-label", "aria-level"])).toBe("aria-label");
+    expect(suggest("aria-lebel", ["aria-label", "aria-level"])).toBeUndefined();
+    expect(suggest("banana", ["button", "banner"])).toBeUndefined();
+  });
+});
@@ -6,8 +6,11 @@ import {
   findLabelVariableInScope,
   wrapLabelWithVariable,
 } from "../../utils/find-label-variable.js";
+import { createAnchor } from "../../apply/anchor.js";
+import { getMappedComponent } from "../../utils/component-map.js";
+import type { ComponentMap } from "../../utils/component-map.js";
 
-export function createButtonLabelRule(options: { locale?: string }): Rule {
+export function createButtonLabelRule(options: { locale?: string; components?: ComponentMap }): Rule {
   const locale = options.locale ?? "en";
 
   return {
@@ -24,9 +27,12 @@ export function createButtonLabelRule(options: { locale?: string }): Rule {
 
     for (const el of elements) {
       const tagName = el.getTagNameNode().getText();
-      if (tagName !== "button") continue;
+      // <button> or a design-system component mapped to it (e.g. <IconButton label>)
+      const mapped = getMappedComponent(file, tagName, options.components);
+      if (tagName !== "button" && mapped?.as !== "button") continue;
+      const nameProp = mapped?.nameProp ?? "aria-label";
 
-      const ariaLabelAttr = el.getAttribute("aria-label");
+      const ariaLabelAttr = el.getAttribute(nameProp) ?? el.getAttribute("aria-label");
       if (el.getAttribute("aria-labelledby")) continue;
 
       // Generic aria-label in map: suggest using variable (e.g. section.label)
@@ -49,9 +55,10 @@ export function createButtonLabelRule(options: { locale?: string }): Rule {
               message: "Use variable in aria-label for better screen reader context",
               fix: {
                 type: "replace-attr",
-                attribute: "aria-label",
+                attribute: ariaLabelAttr.asKind(SyntaxKind.JsxAttribute)!.getNameNode().getText(),
                 value: wrapLabelWithVariable(currentLabel, varRef),
               },
+              anchor: createAnchor(el),
             });
             continue;
           }
@@ -60,8 +67,12 @@ export function createButtonLabelRule(options: { locale?: string }): Rule {
 
       if (ariaLabelAttr) continue;
 
-      // Get icon and content context
-      const iconName = getIconName(el);
+      // Get icon and content context. Mapped components may take the icon as a prop;
+      // a self-closing one has no children to look at.
+      const iconName = mapped
+        ? getIconPropName(el) ??
+          (el.getKind() === SyntaxKind.JsxOpeningElement ? getIconName(el) : undefined)
+        : getIconName(el);
       const buttonElement = el.getKind() === SyntaxKind.JsxOpeningElement ? el.getParent() : null;
 
       let hasTextContent = false;
@@ -111,7 +122,7 @@ export function createButtonLabelRule(options: { locale?: string }): Rule {
         message: "Button has no accessible name",
         fix: {
           type: "insert-attr",
-          attribute: "aria-label",
+          attribute: nameProp,
           value: async () => {
             // Prefer nested text content when available
             const nestedText = buttonElement
@@ -130,6 +141,7 @@ export function createButtonLabelRule(options: { locale?: string }): Rule {
             return base;
           },
         },
+        anchor: createAnchor(el),
       });
     }
 
@@ -175,6 +187,19 @@ function getIconName(
   return undefined;
 }
 
+/** Icon passed as a prop, e.g. <IconButton icon={<TrashIcon />} /> */
+function getIconPropName(
+  el: ReturnType<SourceFile["getDescendantsOfKind"]>[number]
+): string | undefined {
+  for (const attr of el.getDescendantsOfKind(SyntaxKind.JsxAttribute)) {
+    for (const child of attr.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement)) {
+      const tag = child.getTagNameNode().getText();
+      if (tag.endsWith("Icon") || tag === "svg" || isUpperCase(tag[0])) return tag;
+    }
+  }
+  return undefined;
+}
+
 function isUpperCase(ch: string): boolean {
   return ch === ch.toUpperCase() && ch !== ch.toLowerCase();
 }
@@ -246,3 +246,39 @@ describe("button-label rule", () => {
     expect(text).toContain("section.label");
   });
 });
+
+describe("button-label rule with component mapping", () => {
+  const rule = createButtonLabelRule({
+    locale: "en",
+    components: { IconButton: { as: "button", nameProp: "label", from: "@acme/ui" } },
+  });
+
+  it("detects a mapped component without its name prop", () => {
+    const file = createFile(`import { IconButton } from "@acme/ui";
+const x = <IconButton icon={<TrashIcon />} onClick={remove} />;`);
+    const violations = rule.scan(file);
+    expect(violations).toHaveLength(1);
+    expect(violations[0].fix?.attribute).toBe("label");
+  });
+
+  it("accepts the mapped name prop or aria-label", () => {
+    const file = createFile(`import { IconButton } from "@acme/ui";
+const a = <IconButton icon={<TrashIcon />} label="Delete" />;
+const b = <IconButton icon={<TrashIcon />} aria-label="Delete" />;`);
+    expect(rule.scan(file)).toHaveLength(0);
+  });
+
+  it("ignores components imported from another module", () => {
+    const file = createFile(`import { IconButton } from "@other/ui";
+const x = <IconButton icon={<TrashIcon />} />;`);
+    expect(rule.scan(file)).toHaveLength(0);
+  });
+
+  it("fixes with the mapped name prop", async () => {
+    const file = createFile(`import { IconButton as Btn } from "@acme/ui";
+const x = <Btn icon={<TrashIcon />} />;`);
+    const [v] = rule.scan(file);
+    expect(await applyFix(file, { ...v, fix: { ...v.fix!, value: "Delete" } })).toBe(true);
+    expect(file.getFullText()).toContain(`<Btn icon={<TrashIcon />} label="Delete" />`);
+  });
+});
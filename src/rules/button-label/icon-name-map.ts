@@ -112,7 +112,12 @@ export function getGenericLabel(term: "Button" | "Link", locale: string): string
   return GENERIC_LABELS[locale]?.[term] ?? GENERIC_LABELS.en[term];
 }
 
-function iconNameToLabelFallback(iconName: string): string {
+/** Icon component names: known icons and the *Icon naming convention */
+export function isIconName(name: string): boolean {
+  return name in ICON_LABEL_OVERRIDES || name.endsWith("Icon");
+}
+
+export function iconNameToLabelFallback(iconName: string): string {
   const name = iconName
     .replace(/Icon$/, "")
     .replace(/([a-z])([A-Z])/g, "$1 $2")
@@ -1,6 +1,7 @@
 import { SyntaxKind } from "ts-morph";
 import type { SourceFile } from "ts-morph";
 import type { Rule, Violation } from "../../scan/types.js";
+import { createAnchor } from "../../apply/anchor.js";
 
 export function createButtonTypeRule(options: {
   scanCustomComponents?: boolean;
@@ -48,6 +49,7 @@ export function createButtonTypeRule(options: {
           attribute: "type",
           value: "button",
         },
+        anchor: createAnchor(element),
       });
     }
 
@@ -84,6 +86,7 @@ export function createButtonTypeRule(options: {
               attribute: "type",
               value: "button",
             },
+            anchor: createAnchor(element),
           });
         }
         continue;
@@ -116,6 +119,7 @@ export function createButtonTypeRule(options: {
           attribute: "type",
           value: "button",
         },
+        anchor: createAnchor(element),
       });
     }
 
@@ -151,6 +155,7 @@ export function createButtonTypeRule(options: {
               attribute: "type",
               value: "button",
             },
+            anchor: createAnchor(element),
           });
         }
       }
@@ -1,6 +1,7 @@
 import { SyntaxKind } from "ts-morph";
 import type { SourceFile } from "ts-morph";
 import type { Violation } from "../../scan/types.js";
+import { resolveAnchor, resolveAnchorOffset } from "../../apply/anchor.js";
 
 /**
  * Applies the emoji-alt fix by finding the JsxText node at the violation
@@ -22,6 +23,23 @@ export function applyEmojiAltFix(file: SourceFile, violation: Violation): void {
   if (!ariaLabel) return;
 
   const emoji = violation.element;
+
+  // Anchored: the anchor points at the emoji itself inside its JsxText node
+  if (violation.anchor) {
+    const textNode = resolveAnchor(file, violation.anchor)?.asKind(SyntaxKind.JsxText);
+    const emojiPos = resolveAnchorOffset(file, violation.anchor);
+    if (!textNode || emojiPos === undefined) return;
+
+    const text = textNode.getText();
+    const emojiIndex = emojiPos - textNode.getStart();
+    if (text.substring(emojiIndex, emojiIndex + emoji.length) !== emoji) return;
+
+    textNode.replaceWithText(
+      `${text.substring(0, emojiIndex)}<span role="img" aria-label="${ariaLabel}">${emoji}</span>${text.substring(emojiIndex + emoji.length)}`
+    );
+    return;
+  }
+
   const jsxTextNodes = file.getDescendantsOfKind(SyntaxKind.JsxText);
 
   for (const textNode of jsxTextNodes) {
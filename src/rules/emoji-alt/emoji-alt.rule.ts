@@ -2,6 +2,7 @@ import { SyntaxKind } from "ts-morph";
 import type { SourceFile } from "ts-morph";
 import type { Rule, Violation } from "../../scan/types.js";
 import { getEmojiName } from "./emoji-names.js";
+import { createAnchor } from "../../apply/anchor.js";
 
 /**
  * Regex that matches emoji characters across common Unicode ranges.
@@ -117,6 +118,7 @@ export const emojiAltRule: Rule = {
             type: "wrap-element",
             value: emojiName,
           },
+          anchor: createAnchor(textNode, emojiPos),
         });
       }
     }
@@ -1,6 +1,7 @@
 import { SyntaxKind } from "ts-morph";
 import type { SourceFile } from "ts-morph";
 import type { Rule, Violation } from "../../scan/types.js";
+import { createAnchor } from "../../apply/anchor.js";
 
 const HEADING_TAGS = new Set(["h1", "h2", "h3", "h4", "h5", "h6"]);
 
@@ -78,6 +79,7 @@ export const headingOrderRule: Rule = {
           column: curr.column,
           element: `<${curr.tag}>`,
           message: `Expected ${expectedTag} after ${prev.tag}, found ${curr.tag}${textSuffix}`,
+          anchor: createAnchor(curr.element),
         });
       }
     }
@@ -1,5 +1,12 @@
-import { SyntaxKind } from "ts-morph";
-import type { Rule, Violation } from "../../scan/types.js";
+import { Node, SyntaxKind } from "ts-morph";
+import type { Rule, Violation, Fix, JsxElement } from "../../scan/types.js";
+import { createAnchor } from "../../apply/anchor.js";
+import { getLocaleParam } from "../../scan/context.js";
+
+/** next-intl helpers returning the active locale */
+const LOCALE_GETTERS = ["getLocale", "useLocale"];
+
+const LANG_MESSAGE = "The <html> element must have a `lang` attribute for accessibility (WCAG 3.1.1).";
 
 export function createHtmlLangRule(options: { locale?: string }): Rule {
   const locale = options.locale ?? "en";
@@ -34,19 +41,18 @@ export function createHtmlLangRule(options: { locale?: string }): Rule {
           );
 
         if (!langAttr) {
+          const fix = createLangFix(el, filePath, locale);
           violations.push({
             rule: "html-lang",
             filePath,
             line: el.getStartLineNumber(),
             column: el.getStartLinePos() + 1,
             element: "<html>",
-            message:
-              "The <html> element must have a `lang` attribute for accessibility (WCAG 3.1.1).",
-            fix: {
-              type: "insert-attr",
-              attribute: "lang",
-              value: locale,
-            },
+            message: fix
+              ? LANG_MESSAGE
+              : `${LANG_MESSAGE} Set it from the route param, e.g. lang={${getLocaleParam(filePath)}}.`,
+            fix,
+            anchor: createAnchor(el),
           });
         }
       }
@@ -68,19 +74,18 @@ export function createHtmlLangRule(options: { locale?: string }): Rule {
           );
 
         if (!langAttr) {
+          const fix = createLangFix(el, filePath, locale);
           violations.push({
             rule: "html-lang",
             filePath,
             line: el.getStartLineNumber(),
             column: el.getStartLinePos() + 1,
             element: "<html />",
-            message:
-              "The <html> element must have a `lang` attribute for accessibility (WCAG 3.1.1).",
-            fix: {
-              type: "insert-attr",
-              attribute: "lang",
-              value: locale,
-            },
+            message: fix
+              ? LANG_MESSAGE
+              : `${LANG_MESSAGE} Set it from the route param, e.g. lang={${getLocaleParam(filePath)}}.`,
+            fix,
+            anchor: createAnchor(el),
           });
         }
       }
@@ -95,3 +100,53 @@ function isRootLayoutOrDocument(filePath: string): boolean {
   const normalized = filePath.replace(/\\/g, "/");
   return normalized.includes("layout") || normalized.includes("_document");
 }
+
+/**
+ * `lang` follows the active locale when the layout has one: the `[locale]`
+ * route param or next-intl's getLocale()/useLocale(). Otherwise the
+ * configured locale. Localized layouts without access to the param get no fix.
+ */
+function createLangFix(el: JsxElement, filePath: string, locale: string): Fix | undefined {
+  const fn = el.getFirstAncestor(
+    (n) => Node.isFunctionDeclaration(n) || Node.isArrowFunction(n) || Node.isFunctionExpression(n)
+  );
+  const param = getLocaleParam(filePath);
+  const expression = fn && findLocaleExpression(fn, param);
+  if (expression) return { type: "insert-attr", attribute: "lang", value: `{${expression}}` };
+  if (param) return undefined;
+  return { type: "insert-attr", attribute: "lang", value: locale };
+}
+
+function findLocaleExpression(fn: Node, param: string | undefined): string | undefined {
+  // const locale = await getLocale()
+  for (const decl of fn.getDescendantsOfKind(SyntaxKind.VariableDeclaration)) {
+    let init = decl.getInitializer();
+    if (init && Node.isAwaitExpression(init)) init = init.getExpression();
+    if (init && Node.isCallExpression(init) && LOCALE_GETTERS.includes(init.getExpression().getText())) {
+      return decl.getName();
+    }
+  }
+  if (!param) return undefined;
+
+  // { params: { locale } } or const { locale } = await params
+  const bound = [
+    ...fn.getDescendantsOfKind(SyntaxKind.BindingElement),
+    ...fn.getDescendantsOfKind(SyntaxKind.VariableDeclaration),
+  ].some((b) => b.getName() === param);
+  if (bound) return param;
+
+  if (!Node.isFunctionDeclaration(fn) && !Node.isArrowFunction(fn) && !Node.isFunctionExpression(fn)) return undefined;
+  const props = fn.getParameters()[0]?.getNameNode();
+  let params: string | undefined;
+  if (props && Node.isObjectBindingPattern(props)) {
+    const element = props
+      .getElements()
+      .find((e) => (e.getPropertyNameNode()?.getText() ?? e.getName()) === "params");
+    if (element && Node.isIdentifier(element.getNameNode())) params = element.getName();
+  } else if (props && Node.isIdentifier(props)) {
+    params = `${props.getText()}.params`;
+  }
+  if (!params) return undefined;
+  // Next.js 15 passes params as a promise; awaiting a plain object (14) is harmless
+  return fn.isAsync() ? `(await ${params}).${param}` : `${params}.${param}`;
+}
@@ -229,4 +229,51 @@ describe("applyHtmlLangFix", () => {
     const postFixViolations = htmlLangRule.scan(file);
     expect(postFixViolations).toHaveLength(0);
   });
+
+  it("uses the [locale] route param bound in the layout", () => {
+    const file = createSourceFile(
+      `export default function LocaleLayout({ children, params: { locale } }) {
+  return <html><body>{children}</body></html>;
+}`,
+      "/app/[locale]/layout.tsx",
+    );
+    const violations = htmlLangRule.scan(file);
+    expect(violations[0].fix?.value).toBe("{locale}");
+  });
+
+  it("awaits params in async [locale] layouts", () => {
+    const file = createSourceFile(
+      `export default async function LocaleLayout({ children, params }) {
+  return <html><body>{children}</body></html>;
+}`,
+      "/app/[lang]/layout.tsx",
+    );
+    const violations = htmlLangRule.scan(file);
+    expect(violations[0].fix?.value).toBe("{(await params).lang}");
+  });
+
+  it("uses next-intl getLocale() outside a [locale] route", () => {
+    const file = createSourceFile(
+      `import { getLocale } from "next-intl/server";
+export default async function RootLayout({ children }) {
+  const current = await getLocale();
+  return <html><body>{children}</body></html>;
+}`,
+    );
+    const violations = htmlLangRule.scan(file);
+    expect(violations[0].fix?.value).toBe("{current}");
+  });
+
+  it("reports without a fix when a [locale] layout has no access to params", () => {
+    const file = createSourceFile(
+      `export default function LocaleLayout({ children }) {
+  return <html><body>{children}</body></html>;
+}`,
+      "/app/[locale]/layout.tsx",
+    );
+    const violations = htmlLangRule.scan(file);
+    expect(violations).toHaveLength(1);
+    expect(violations[0].fix).toBeUndefined();
+    expect(violations[0].message).toContain("lang={locale}");
+  });
 });
@@ -0,0 +1,99 @@
+import type { SourceFile } from "ts-morph";
+import { SyntaxKind } from "ts-morph";
+import type { JsxElement, Rule, Violation } from "../../scan/types.js";
+import { createAnchor } from "../../apply/anchor.js";
+import { getStringValue } from "../../utils/jsx-attribute.js";
+
+/** Well-known embeds: host pattern → fallback title when AI is unavailable */
+const KNOWN_EMBEDS: [RegExp, string][] = [
+  [/(^|\.)(youtube\.com|youtube-nocookie\.com|youtu\.be)$/, "YouTube video"],
+  [/(^|\.)vimeo\.com$/, "Vimeo video"],
+  [/(^|\.)loom\.com$/, "Loom video"],
+  [/(^|\.)google\.[a-z.]+$/, "Google Maps"],
+  [/(^|\.)openstreetmap\.org$/, "OpenStreetMap"],
+  [/(^|\.)calendly\.com$/, "Calendly scheduling"],
+  [/(^|\.)spotify\.com$/, "Spotify player"],
+  [/(^|\.)soundcloud\.com$/, "SoundCloud player"],
+  [/(^|\.)codepen\.io$/, "CodePen demo"],
+  [/(^|\.)codesandbox\.io$/, "CodeSandbox demo"],
+  [/(^|\.)figma\.com$/, "Figma design"],
+  [/(^|\.)typeform\.com$/, "Typeform survey"],
+];
+
+export const iframeTitleRule: Rule = {
+  id: "iframe-title",
+  type: "ai",
+
+  scan(file: SourceFile): Violation[] {
+    const violations: Violation[] = [];
+    const filePath = file.getFilePath();
+
+    const elements = [
+      ...file.getDescendantsOfKind(SyntaxKind.JsxOpeningElement),
+      ...file.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement),
+    ];
+
+    for (const el of elements) {
+      if (el.getTagNameNode().getText() !== "iframe") continue;
+      // Frames hidden from assistive technology don't need a name
+      if (isHidden(el)) continue;
+
+      const title = el.getAttribute("title");
+      const hasTitle = title && getStringValue(el, "title") !== "";
+      if (hasTitle || el.getAttribute("aria-label") || el.getAttribute("aria-labelledby")) continue;
+
+      const src = getStringValue(el, "src");
+      violations.push({
+        rule: "iframe-title",
+        filePath,
+        line: el.getStartLineNumber(),
+        column: el.getStart() - el.getStartLinePos(),
+        element: el.getText().slice(0, 80),
+        message: title ? "<iframe> has an empty title" : "<iframe> is missing a title",
+        fix: {
+          type: title ? "replace-attr" : "insert-attr",
+          attribute: "title",
+          value: async () => getHeuristicTitle(src),
+        },
+        anchor: createAnchor(el),
+      });
+    }
+
+    return violations;
+  },
+};
+
+/**
+ * Fallback title from the src host, e.g. youtube.com/embed/… → "YouTube video".
+ * Unknown hosts: "Embedded content from example.com".
+ */
+export function getHeuristicTitle(src: string | undefined): string {
+  const url = parseSrc(src);
+  if (!url) return "Embedded content";
+  const host = url.hostname.replace(/^www\./, "");
+  for (const [pattern, title] of KNOWN_EMBEDS) {
+    // google.com only counts for maps embeds
+    if (pattern.test(host) && (title !== "Google Maps" || url.pathname.startsWith("/maps"))) return title;
+  }
+  return `Embedded content from ${host}`;
+}
+
+/** Absolute or protocol-relative src; undefined for dynamic or relative values */
+export function parseSrc(src: string | undefined): URL | undefined {
+  if (!src) return undefined;
+  try {
+    const url = new URL(src.startsWith("//") ? `https:${src}` : src);
+    return url.protocol === "http:" || url.protocol === "https:" ? url : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isHidden(el: JsxElement): boolean {
+  if (el.getAttribute("hidden")) return true;
+  const ariaHidden = el.getAttribute("aria-hidden")?.asKind(SyntaxKind.JsxAttribute);
+  if (!ariaHidden) return false;
+  const init = ariaHidden.getInitializer();
+  // aria-hidden, aria-hidden="true", aria-hidden={true}
+  return !init || /^(["']true["']|\{\s*true\s*\})$/.test(init.getText());
+}
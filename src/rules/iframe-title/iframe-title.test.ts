@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { Project } from "ts-morph";
+import { iframeTitleRule, getHeuristicTitle } from "./iframe-title.rule.js";
+import { applyFix } from "../../apply/apply.js";
+
+function createSourceFile(code: string) {
+  const project = new Project({
+    useInMemoryFileSystem: true,
+    compilerOptions: { jsx: 2 /* JsxEmit.React */ },
+  });
+  return project.createSourceFile("/app/contact/page.tsx", code);
+}
+
+describe("iframeTitleRule", () => {
+  it("reports an iframe without a title and inserts one", async () => {
+    const file = createSourceFile(`
+      export default function Contact() {
+        return <iframe src="https://www.youtube.com/embed/abc123" />;
+      }
+    `);
+
+    const violations = iframeTitleRule.scan(file);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toBe("<iframe> is missing a title");
+    expect(violations[0].fix!.type).toBe("insert-attr");
+    expect(violations[0].fix!.attribute).toBe("title");
+
+    expect(await applyFix(file, violations[0])).toBe(true);
+    expect(file.getFullText()).toContain(`<iframe src="https://www.youtube.com/embed/abc123" title="YouTube video" />`);
+  });
+
+  it("replaces an empty title", () => {
+    const file = createSourceFile(`
+      export default function Contact() {
+        return <iframe src="/embed" title="" />;
+      }
+    `);
+
+    const violations = iframeTitleRule.scan(file);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toBe("<iframe> has an empty title");
+    expect(violations[0].fix!.type).toBe("replace-attr");
+  });
+
+  it("skips named, hidden and dynamically titled iframes", () => {
+    const file = createSourceFile(`
+      export default function Contact({ label }: { label: string }) {
+        return (
+          <>
+            <iframe src="/a" title="Office map" />
+            <iframe src="/b" title={label} />
+            <iframe src="/c" aria-label="Booking form" />
+            <iframe src="/d" aria-hidden="true" />
+            <iframe src="/e" hidden />
+          </>
+        );
+      }
+    `);
+
+    expect(iframeTitleRule.scan(file)).toHaveLength(0);
+  });
+
+  it("still reports aria-hidden={false}", () => {
+    const file = createSourceFile(`
+      export default function Contact() {
+        return <iframe src="/a" aria-hidden={false} />;
+      }
+    `);
+
+    expect(iframeTitleRule.scan(file)).toHaveLength(1);
+  });
+});
+
+describe("getHeuristicTitle", () => {
+  it("names well-known embeds by host", () => {
+    expect(getHeuristicTitle("https://player.vimeo.com/video/1")).toBe("Vimeo video");
+    expect(getHeuristicTitle("https://www.google.com/maps/embed?pb=1")).toBe("Google Maps");
+    expect(getHeuristicTitle("//calendly.com/acme/intro")).toBe("Calendly scheduling");
+  });
+
+  it("falls back to the host, or a generic title", () => {
+    expect(getHeuristicTitle("https://www.google.com/search?q=a")).toBe("Embedded content from google.com");
+    expect(getHeuristicTitle("https://widgets.example.com/chat")).toBe("Embedded content from widgets.example.com");
+    expect(getHeuristicTitle("/embed/chat")).toBe("Embedded content");
+    expect(getHeuristicTitle(undefined)).toBe("Embedded content");
+  });
+});
@@ -2,8 +2,11 @@ import type { SourceFile, Node } from "ts-morph";
 import { SyntaxKind } from "ts-morph";
 import type { Rule, Violation } from "../../scan/types.js";
 import { classifyAlt } from "./img-alt.classify.js";
+import { createAnchor } from "../../apply/anchor.js";
+import { getMappedComponent } from "../../utils/component-map.js";
+import type { ComponentMap } from "../../utils/component-map.js";
 
-export function createImgAltRule(options: { fillAlt: boolean }): Rule {
+export function createImgAltRule(options: { fillAlt: boolean; components?: ComponentMap }): Rule {
   return {
   id: "img-alt",
   type: "ai",
@@ -19,13 +22,19 @@ export function createImgAltRule(options: { fillAlt: boolean }): Rule {
     for (const el of elements) {
       const tagName = el.getTagNameNode().getText();
 
-      // Only check <img> and <Image> (from next/image)
-      if (tagName !== "img" && tagName !== "Image") continue;
+      // Only check <img>, <Image> (from next/image) and components mapped to "img" (e.g. <Avatar>)
+      const mapped = getMappedComponent(file, tagName, options.components);
+      if (mapped) {
+        if (mapped.as !== "img") continue;
+      } else {
+        if (tagName !== "img" && tagName !== "Image") continue;
 
-      // If it's <Image>, verify it's from next/image
-      if (tagName === "Image" && !isNextImage(file)) continue;
+        // If it's <Image>, verify it's from next/image
+        if (tagName === "Image" && !isNextImage(file)) continue;
+      }
+      const altProp = mapped?.nameProp ?? "alt";
 
-      const altAttr = el.getAttribute("alt");
+      const altAttr = el.getAttribute(altProp);
 
       let altValue: string | undefined | null;
       let isExpression = false;
@@ -69,6 +78,7 @@ export function createImgAltRule(options: { fillAlt: boolean }): Rule {
           column: el.getStart() - el.getStartLinePos(),
           element: el.getText().slice(0, 80),
           message: `Image has unverifiable dynamic alt: {${altValue}}`,
+          anchor: createAnchor(el),
         });
         continue;
       }
@@ -93,11 +103,12 @@ export function createImgAltRule(options: { fillAlt: boolean }): Rule {
                 : `Image has meaningless alt text: "${altValue}"`,
           fix: {
             type: altAttr ? "replace-attr" : "insert-attr",
-            attribute: "alt",
+            attribute: altProp,
             value: async () => {
               return `[AI-generated alt text placeholder]`;
             },
           },
+          anchor: createAnchor(el),
         });
       }
     }
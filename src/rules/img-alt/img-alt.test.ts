@@ -126,3 +126,25 @@ describe("classifyAlt", () => {
     expect(classifyAlt("Company logo", false)).toBe("valid");
   });
 });
+
+describe("img-alt rule with component mapping", () => {
+  const rule = createImgAltRule({
+    fillAlt: false,
+    components: { Avatar: { as: "img", nameProp: "alt" }, Logo: { as: "img", nameProp: "title" } },
+  });
+
+  it("detects mapped components missing their alt prop", () => {
+    const file = createFile(`const a = <Avatar src="/me.png" />;
+const b = <Logo src="/logo.svg" />;`);
+    const violations = rule.scan(file);
+    expect(violations.map((v) => v.fix?.attribute)).toEqual(["alt", "title"]);
+  });
+
+  it("classifies the mapped name prop like alt", () => {
+    const file = createFile(`const a = <Avatar src="/me.png" alt="Jane Doe" />;
+const b = <Logo src="/logo.svg" title="image" />;`);
+    const violations = rule.scan(file);
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toContain("meaningless");
+  });
+});
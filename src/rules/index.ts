@@ -1,33 +1,45 @@
-import type { Rule, RuleId } from "../scan/types.js";
+import type { CustomRule, Rule, RuleId } from "../scan/types.js";
 import type { ResolvedRuleConfig } from "../config/schema.js";
+import type { ComponentMap } from "../utils/component-map.js";
 import { createImgAltRule } from "./img-alt/img-alt.rule.js";
 import { createButtonLabelRule } from "./button-label/button-label.rule.js";
 import { createLinkLabelRule } from "./link-label/link-label.rule.js";
-import { inputLabelRule } from "./input-label/input-label.rule.js";
+import { createInputLabelRule } from "./input-label/input-label.rule.js";
+import { iframeTitleRule } from "./iframe-title/iframe-title.rule.js";
+import { createMediaCaptionsRule } from "./media-captions/media-captions.rule.js";
+import { svgLabelRule } from "./svg-label/svg-label.rule.js";
 import { noPositiveTabindexRule } from "./no-positive-tabindex/no-positive-tabindex.rule.js";
 import { createButtonTypeRule } from "./button-type/button-type.rule.js";
 import { linkNoopenerRule } from "./link-noopener/link-noopener.rule.js";
 import { emojiAltRule } from "./emoji-alt/emoji-alt.rule.js";
 import { createHtmlLangRule } from "./html-lang/html-lang.rule.js";
 import { headingOrderRule } from "./heading-order/heading-order.rule.js";
-import { noDivInteractiveRule } from "./no-div-interactive/no-div-interactive.rule.js";
+import { createNoDivInteractiveRule } from "./no-div-interactive/no-div-interactive.rule.js";
 import { nextMetadataTitleRule } from "./next-metadata-title/next-metadata-title.rule.js";
 import { nextImageSizesRule } from "./next-image-sizes/next-image-sizes.rule.js";
 import { nextSkipNavRule } from "./next-skip-nav/next-skip-nav.rule.js";
 import { nextLinkNoNestedARule } from "./next-link-no-nested-a/next-link-no-nested-a.rule.js";
+import { ariaValidRule } from "./aria-valid/aria-valid.rule.js";
 
 export interface RuleOptions {
   locale?: string;
   rules: Record<RuleId, ResolvedRuleConfig>;
+  /** Design-system components checked as the native element they render */
+  components?: ComponentMap;
+  /** Rules registered by config plugins, run after the built-ins */
+  customRules?: CustomRule[];
 }
 
 function buildAllRules(options: RuleOptions): Rule[] {
-  const { rules, locale = "en" } = options;
+  const { rules, locale = "en", components, customRules = [] } = options;
   return [
-    createImgAltRule({ fillAlt: rules["img-alt"]?.fillAlt ?? true }),
-    createButtonLabelRule({ locale }),
-    createLinkLabelRule({ locale }),
-    inputLabelRule,
+    createImgAltRule({ fillAlt: rules["img-alt"]?.fillAlt ?? true, components }),
+    createButtonLabelRule({ locale, components }),
+    createLinkLabelRule({ locale, components }),
+    createInputLabelRule({ components }),
+    iframeTitleRule,
+    createMediaCaptionsRule({ locale }),
+    svgLabelRule,
     noPositiveTabindexRule,
     createButtonTypeRule({
       scanCustomComponents: rules["button-type"]?.scanCustomComponents ?? false,
@@ -36,20 +48,22 @@ function buildAllRules(options: RuleOptions): Rule[] {
     emojiAltRule,
     createHtmlLangRule({ locale }),
     headingOrderRule,
-    noDivInteractiveRule,
+    createNoDivInteractiveRule({ strategy: rules["no-div-interactive"]?.strategy }),
     nextMetadataTitleRule,
     nextImageSizesRule,
     nextSkipNavRule,
     nextLinkNoNestedARule,
+    ariaValidRule,
+    ...customRules,
   ];
 }
 
 export function getRulesForConfig(
   rules: Record<RuleId, ResolvedRuleConfig>,
   noAi: boolean,
-  options: { locale?: string } = {}
+  options: Omit<RuleOptions, "rules"> = {}
 ): Rule[] {
-  return buildAllRules({ rules, locale: options.locale }).filter((rule) => {
+  return buildAllRules({ ...options, rules }).filter((rule) => {
     const config = rules[rule.id];
     if (!config || config.level === "off") return false;
     // Keep AI rules even when noAi — they produce deterministic violations too
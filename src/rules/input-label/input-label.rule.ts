@@ -5,10 +5,14 @@ import {
   findLabelVariableInScope,
   wrapLabelWithVariable,
 } from "../../utils/find-label-variable.js";
+import { createAnchor } from "../../apply/anchor.js";
+import { getMappedComponent } from "../../utils/component-map.js";
+import type { ComponentMap } from "../../utils/component-map.js";
 
 const INPUT_TAGS = ["input", "select", "textarea"];
 
-export const inputLabelRule: Rule = {
+export function createInputLabelRule(options: { components?: ComponentMap }): Rule {
+  return {
   id: "input-label",
   type: "ai",
   scan(file: SourceFile): Violation[] {
@@ -22,7 +26,11 @@ export const inputLabelRule: Rule = {
 
     for (const el of elements) {
       const tagName = el.getTagNameNode().getText();
-      if (!INPUT_TAGS.includes(tagName)) continue;
+      // Native fields and components mapped to them (e.g. <TextField label>)
+      const mapped = getMappedComponent(file, tagName, options.components);
+      const fieldTag = mapped?.as ?? tagName;
+      if (!INPUT_TAGS.includes(fieldTag)) continue;
+      const nameProp = mapped?.nameProp ?? "aria-label";
 
       // Skip hidden inputs
       const typeAttr = el.getAttribute("type");
@@ -35,8 +43,12 @@ export const inputLabelRule: Rule = {
         }
       }
 
-      // Check for aria-label or aria-labelledby
-      if (el.getAttribute("aria-label") || el.getAttribute("aria-labelledby")) {
+      // Check for aria-label, aria-labelledby or the mapped component's label prop
+      if (
+        el.getAttribute(nameProp) ||
+        el.getAttribute("aria-label") ||
+        el.getAttribute("aria-labelledby")
+      ) {
         continue;
       }
 
@@ -68,7 +80,7 @@ export const inputLabelRule: Rule = {
         message: `<${tagName}> is missing an associated label`,
         fix: {
           type: "insert-attr",
-          attribute: "aria-label",
+          attribute: nameProp,
           value: async () => {
             let base: string;
             if (placeholder) {
@@ -80,9 +92,9 @@ export const inputLabelRule: Rule = {
                 .replace(/^\w/, (c) => c.toUpperCase());
             } else {
               base =
-                tagName === "select"
+                fieldTag === "select"
                   ? "Select option"
-                  : tagName === "textarea"
+                  : fieldTag === "textarea"
                     ? "Text input"
                     : "Input";
             }
@@ -91,12 +103,16 @@ export const inputLabelRule: Rule = {
             return base;
           },
         },
+        anchor: createAnchor(el),
       });
     }
 
     return violations;
   },
-};
+  };
+}
+
+export const inputLabelRule: Rule = createInputLabelRule({});
 
 function hasLabelFor(file: SourceFile, id: string): boolean {
   const allElements = [
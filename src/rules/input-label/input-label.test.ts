@@ -1,6 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { Project } from "ts-morph";
-import { inputLabelRule } from "./input-label.rule.js";
+import { createInputLabelRule, inputLabelRule } from "./input-label.rule.js";
 
 function createFile(code: string) {
   const project = new Project({ useInMemoryFileSystem: true });
@@ -189,3 +189,27 @@ describe("input-label rule", () => {
     expect(value).toContain("field.");
   });
 });
+
+describe("input-label rule with component mapping", () => {
+  const rule = createInputLabelRule({
+    components: { TextField: { as: "input", nameProp: "label" }, Picker: { as: "select", nameProp: "aria-label" } },
+  });
+
+  it("detects mapped fields without label", () => {
+    const file = createFile(`const a = <TextField name="email" />;
+const b = <Picker options={opts} />;`);
+    const violations = rule.scan(file);
+    expect(violations.map((v) => v.fix?.attribute)).toEqual(["label", "aria-label"]);
+  });
+
+  it("skips mapped fields with the name prop", () => {
+    const file = createFile(`const a = <TextField name="email" label="Email" />;`);
+    expect(rule.scan(file)).toHaveLength(0);
+  });
+
+  it("derives a label from the mapped element", async () => {
+    const file = createFile(`const b = <Picker options={opts} />;`);
+    const [v] = rule.scan(file);
+    expect(await (v.fix!.value as Function)()).toBe("Select option");
+  });
+});
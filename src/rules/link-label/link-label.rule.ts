@@ -6,8 +6,11 @@ import {
   findLabelVariableInScope,
   wrapLabelWithVariable,
 } from "../../utils/find-label-variable.js";
+import { createAnchor } from "../../apply/anchor.js";
+import { getMappedComponent } from "../../utils/component-map.js";
+import type { ComponentMap } from "../../utils/component-map.js";
 
-export function createLinkLabelRule(options: { locale?: string }): Rule {
+export function createLinkLabelRule(options: { locale?: string; components?: ComponentMap }): Rule {
   const locale = options.locale ?? "en";
 
   return {
@@ -25,11 +28,17 @@ export function createLinkLabelRule(options: { locale?: string }): Rule {
     for (const el of elements) {
       const tagName = el.getTagNameNode().getText();
 
-      // Check <a> and <Link> (from next/link)
-      if (tagName !== "a" && tagName !== "Link") continue;
-      if (tagName === "Link" && !isNextLink(file)) continue;
+      // Check <a>, <Link> (from next/link) and components mapped to "a" (e.g. <NavLink>)
+      const mapped = getMappedComponent(file, tagName, options.components);
+      if (mapped) {
+        if (mapped.as !== "a") continue;
+      } else {
+        if (tagName !== "a" && tagName !== "Link") continue;
+        if (tagName === "Link" && !isNextLink(file)) continue;
+      }
+      const nameProp = mapped?.nameProp ?? "aria-label";
 
-      const ariaLabelAttr = el.getAttribute("aria-label");
+      const ariaLabelAttr = el.getAttribute(nameProp) ?? el.getAttribute("aria-label");
       if (el.getAttribute("aria-labelledby")) continue;
 
       // Generic aria-label in map: suggest using variable
@@ -52,9 +61,10 @@ export function createLinkLabelRule(options: { locale?: string }): Rule {
               message: "Use variable in aria-label for better screen reader context",
               fix: {
                 type: "replace-attr",
-                attribute: "aria-label",
+                attribute: ariaLabelAttr.asKind(SyntaxKind.JsxAttribute)!.getNameNode().getText(),
                 value: wrapLabelWithVariable(currentLabel, varRef),
               },
+              anchor: createAnchor(el),
             });
             continue;
           }
@@ -107,7 +117,11 @@ export function createLinkLabelRule(options: { locale?: string }): Rule {
         }
       }
 
-      const iconName = getIconName(el);
+      // A self-closing mapped component has no children; its icon may be a prop
+      const iconName = mapped
+        ? getIconPropName(el) ??
+          (el.getKind() === SyntaxKind.JsxOpeningElement ? getIconName(el) : undefined)
+        : getIconName(el);
       const line = el.getStartLineNumber();
 
       violations.push({
@@ -119,7 +133,7 @@ export function createLinkLabelRule(options: { locale?: string }): Rule {
         message: "Link has no accessible name",
         fix: {
           type: "insert-attr",
-          attribute: "aria-label",
+          attribute: nameProp,
           value: async () => {
             const base = iconName
               ? getIconLabel(iconName, locale)
@@ -129,6 +143,7 @@ export function createLinkLabelRule(options: { locale?: string }): Rule {
             return base;
           },
         },
+        anchor: createAnchor(el),
       });
     }
 
@@ -166,6 +181,19 @@ function getIconName(
   return undefined;
 }
 
+/** Icon passed as a prop, e.g. <NavLink icon={<HomeIcon />} /> */
+function getIconPropName(
+  el: ReturnType<SourceFile["getDescendantsOfKind"]>[number]
+): string | undefined {
+  for (const attr of el.getDescendantsOfKind(SyntaxKind.JsxAttribute)) {
+    for (const child of attr.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement)) {
+      const tag = child.getTagNameNode().getText();
+      if (tag.endsWith("Icon") || tag === "svg" || isUpperCase(tag[0])) return tag;
+    }
+  }
+  return undefined;
+}
+
 function isUpperCase(ch: string): boolean {
   return ch === ch.toUpperCase() && ch !== ch.toLowerCase();
 }
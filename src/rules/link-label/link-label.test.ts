@@ -158,3 +158,17 @@ describe("link-label rule", () => {
     expect(value).toContain("item.label");
   });
 });
+
+describe("link-label rule with component mapping", () => {
+  const rule = createLinkLabelRule({ locale: "en", components: { NavLink: { as: "a", nameProp: "aria-label" } } });
+
+  it("detects a mapped link without accessible name", () => {
+    const file = createFile(`const x = <NavLink href="/home"><HomeIcon /></NavLink>;`);
+    expect(rule.scan(file)).toHaveLength(1);
+  });
+
+  it("skips a mapped link with text content", () => {
+    const file = createFile(`const x = <NavLink href="/home">Home</NavLink>;`);
+    expect(rule.scan(file)).toHaveLength(0);
+  });
+});
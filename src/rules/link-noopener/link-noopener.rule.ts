@@ -1,6 +1,7 @@
 import { SyntaxKind } from "ts-morph";
 import type { SourceFile, JsxOpeningElement, JsxSelfClosingElement } from "ts-morph";
 import type { Rule, Violation, Fix, FixType } from "../../scan/types.js";
+import { createAnchor } from "../../apply/anchor.js";
 
 function getAttributeValue(
   element: JsxOpeningElement | JsxSelfClosingElement,
@@ -63,6 +64,7 @@ function checkElement(
     element: element.getText(),
     message: `<${tagName} target="_blank"> is missing rel="noopener noreferrer". This is a security risk.`,
     fix,
+    anchor: createAnchor(element),
   };
 }
 
@@ -0,0 +1,39 @@
+import { Node, SyntaxKind } from "ts-morph";
+import type { SourceFile } from "ts-morph";
+import type { Violation } from "../../scan/types.js";
+import { resolveAnchor } from "../../apply/anchor.js";
+
+/**
+ * Applies the media-captions fix: adds `controls` and, when the rule found a
+ * caption file, the `<track>` from `violation.fix.value` as the last child:
+ *
+ *   Before: <video src="/hero.mp4" autoPlay />
+ *   After:  <video src="/hero.mp4" autoPlay controls>
+ *             <track kind="captions" src="/hero.vtt" srcLang="en" default />
+ *           </video>
+ */
+export function applyMediaCaptionsFix(file: SourceFile, violation: Violation): boolean {
+  if (!violation.fix || !violation.anchor) return false;
+  const el = resolveAnchor(file, violation.anchor);
+  if (!Node.isJsxOpeningElement(el) && !Node.isJsxSelfClosingElement(el)) return false;
+
+  const track = typeof violation.fix.value === "string" ? violation.fix.value : "";
+  const controls = el.getAttribute("controls")?.asKind(SyntaxKind.JsxAttribute);
+  if (!controls) el.addAttribute({ name: "controls" });
+  // controls={false} renders no controls — make it a bare `controls`
+  else if (/^\{\s*false\s*\}$/.test(controls.getInitializer()?.getText() ?? "")) controls.removeInitializer();
+  if (!track) return true;
+
+  const indent = /^[ \t]*/.exec(file.getFullText().slice(el.getStartLinePos()))![0];
+  if (Node.isJsxSelfClosingElement(el)) {
+    const tag = el.getTagNameNode().getText();
+    const opening = el.getText().replace(/\s*\/>$/, ">");
+    file.replaceText([el.getStart(), el.getEnd()], `${opening}\n${indent}  ${track}\n${indent}</${tag}>`);
+    return true;
+  }
+
+  const closing = el.getParentIfKind(SyntaxKind.JsxElement)?.getClosingElement();
+  if (!closing) return false;
+  file.insertText(closing.getStart(), `  ${track}\n${indent}`);
+  return true;
+}
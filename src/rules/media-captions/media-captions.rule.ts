@@ -0,0 +1,141 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { SyntaxKind } from "ts-morph";
+import type { SourceFile } from "ts-morph";
+import type { JsxElement, Rule, Violation } from "../../scan/types.js";
+import { createAnchor } from "../../apply/anchor.js";
+import { getStringValue } from "../../utils/jsx-attribute.js";
+
+const MEDIA_TAGS = new Set(["video", "audio"]);
+
+export function createMediaCaptionsRule(options: { locale?: string }): Rule {
+  const locale = options.locale ?? "en";
+
+  return {
+    id: "media-captions",
+    type: "deterministic",
+
+    scan(file: SourceFile): Violation[] {
+      const violations: Violation[] = [];
+      const filePath = file.getFilePath();
+
+      const elements = [
+        ...file.getDescendantsOfKind(SyntaxKind.JsxOpeningElement),
+        ...file.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement),
+      ];
+
+      for (const el of elements) {
+        const tag = el.getTagNameNode().getText();
+        if (!MEDIA_TAGS.has(tag)) continue;
+
+        const children = getMediaChildren(el);
+        const autoPlay = hasFlag(el, "autoPlay") || hasFlag(el, "autoplay");
+        const muted = hasFlag(el, "muted");
+        const controls = hasFlag(el, "controls");
+        const problems: string[] = [];
+
+        // Children rendered from data (e.g. {tracks.map(...)}) may hold the tracks
+        let missingCaptions = false;
+        if (!children.dynamic) {
+          if (tag === "video" && !muted && !children.hasCaptions) {
+            missingCaptions = true;
+            problems.push("has no captions track");
+          } else if (tag === "audio" && !children.hasTrack && !el.getAttribute("aria-describedby")) {
+            problems.push("has no transcript or text alternative");
+          }
+        }
+        if (autoPlay && !controls) {
+          problems.push(muted ? "autoplays without controls" : "autoplays with sound and no controls");
+        }
+        if (problems.length === 0) continue;
+
+        // Only point a track at captions that exist — a dangling src is worse than none
+        const captions = missingCaptions ? findCaptionFile(filePath, getStringValue(el, "src") ?? children.src, locale) : undefined;
+        const track = captions ? `<track kind="captions" src="${captions}" srcLang="${locale}" default />` : "";
+
+        violations.push({
+          rule: "media-captions",
+          filePath,
+          line: el.getStartLineNumber(),
+          column: el.getStart() - el.getStartLinePos(),
+          element: el.getText().slice(0, 80),
+          message: `<${tag}> ${problems.join(", ")}`,
+          // Nothing to insert when controls are there and no caption file was found
+          fix: track || !controls ? { type: "insert-element", value: track } : undefined,
+          anchor: createAnchor(el),
+        });
+      }
+
+      return violations;
+    },
+  };
+}
+
+interface MediaChildren {
+  hasTrack: boolean;
+  /** A `<track>` of kind captions or subtitles (the default kind) */
+  hasCaptions: boolean;
+  /** First `<source src>` */
+  src?: string;
+  dynamic: boolean;
+}
+
+function getMediaChildren(el: JsxElement): MediaChildren {
+  const result: MediaChildren = { hasTrack: false, hasCaptions: false, dynamic: false };
+  const parent = el.getParent();
+  if (!el.isKind(SyntaxKind.JsxOpeningElement) || !parent?.isKind(SyntaxKind.JsxElement)) return result;
+
+  for (const child of parent.getJsxChildren()) {
+    if (child.isKind(SyntaxKind.JsxExpression)) {
+      // {/* comments */} have no expression
+      if (child.getExpression()) result.dynamic = true;
+      continue;
+    }
+    const childEl = child.isKind(SyntaxKind.JsxElement) ? child.getOpeningElement() : child.asKind(SyntaxKind.JsxSelfClosingElement);
+    if (!childEl) continue;
+
+    const tag = childEl.getTagNameNode().getText();
+    if (tag === "source") {
+      result.src ??= getStringValue(childEl, "src");
+    } else if (tag === "track") {
+      result.hasTrack = true;
+      const kind = getStringValue(childEl, "kind") ?? "subtitles";
+      if (kind === "captions" || kind === "subtitles") result.hasCaptions = true;
+    }
+  }
+  return result;
+}
+
+/**
+ * Caption file for a media src, by convention next to it in `public/`:
+ * /videos/hero.mp4 → /videos/hero.vtt, /videos/hero.en.vtt or /captions/hero.vtt
+ */
+export function findCaptionFile(filePath: string, src: string | undefined, locale: string): string | undefined {
+  if (!src?.startsWith("/") || src.startsWith("//")) return undefined;
+  const publicDir = findPublicDir(filePath);
+  if (!publicDir) return undefined;
+
+  const base = src.replace(/[?#].*$/, "").replace(/\.[a-z0-9]+$/i, "");
+  const candidates = [`${base}.vtt`, `${base}.${locale}.vtt`, `/captions/${path.posix.basename(base)}.vtt`];
+  return candidates.find((candidate) => fs.existsSync(path.join(publicDir, candidate)));
+}
+
+/** Nearest `public/` directory, not looking past the package root */
+function findPublicDir(filePath: string): string | undefined {
+  let dir = path.dirname(filePath);
+  while (dir !== path.dirname(dir)) {
+    const publicDir = path.join(dir, "public");
+    if (fs.existsSync(publicDir) && fs.statSync(publicDir).isDirectory()) return publicDir;
+    if (fs.existsSync(path.join(dir, "package.json"))) return undefined;
+    dir = path.dirname(dir);
+  }
+  return undefined;
+}
+
+/** Boolean attribute that is set: `muted`, `muted={true}` (not `muted={false}`) */
+function hasFlag(el: JsxElement, name: string): boolean {
+  const attr = el.getAttribute(name)?.asKind(SyntaxKind.JsxAttribute);
+  if (!attr) return false;
+  const init = attr.getInitializer();
+  return !init || !/^\{\s*false\s*\}$/.test(init.getText());
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { Project } from "ts-morph";
+import { createMediaCaptionsRule } from "./media-captions.rule.js";
+import { applyFix } from "../../apply/apply.js";
+
+const rule = createMediaCaptionsRule({ locale: "en" });
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "next-a11y-media-"));
+  fs.writeFileSync(path.join(tmpDir, "package.json"), "{}");
+  fs.mkdirSync(path.join(tmpDir, "public", "videos"), { recursive: true });
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function createSourceFile(code: string) {
+  const project = new Project({
+    useInMemoryFileSystem: true,
+    compilerOptions: { jsx: 2 /* JsxEmit.React */ },
+  });
+  return project.createSourceFile(path.join(tmpDir, "app", "page.tsx"), code);
+}
+
+describe("mediaCaptionsRule", () => {
+  it("reports an autoplay video without captions or controls", () => {
+    const file = createSourceFile(`
+      export default function Home() {
+        return <video src="/videos/hero.mp4" autoPlay />;
+      }
+    `);
+
+    const violations = rule.scan(file);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toBe("<video> has no captions track, autoplays with sound and no controls");
+    expect(violations[0].fix).toEqual({ type: "insert-element", value: "" });
+  });
+
+  it("inserts controls and a track pointing at an existing caption file", async () => {
+    fs.writeFileSync(path.join(tmpDir, "public", "videos", "hero.vtt"), "WEBVTT");
+    const file = createSourceFile(`
+      export default function Home() {
+        return (
+          <video autoPlay>
+            <source src="/videos/hero.mp4" type="video/mp4" />
+          </video>
+        );
+      }
+    `);
+
+    const [violation] = rule.scan(file);
+    expect(await applyFix(file, violation)).toBe(true);
+
+    expect(file.getFullText()).toContain(`
+          <video autoPlay controls>
+            <source src="/videos/hero.mp4" type="video/mp4" />
+            <track kind="captions" src="/videos/hero.vtt" srcLang="en" default />
+          </video>`);
+  });
+
+  it("expands a self-closing video to hold the track", async () => {
+    fs.writeFileSync(path.join(tmpDir, "public", "videos", "hero.en.vtt"), "WEBVTT");
+    const file = createSourceFile(`
+      export default function Home() {
+        return <video src="/videos/hero.mp4" controls />;
+      }
+    `);
+
+    const [violation] = rule.scan(file);
+    expect(violation.message).toBe("<video> has no captions track");
+    expect(await applyFix(file, violation)).toBe(true);
+
+    expect(file.getFullText()).toContain(`
+        return <video src="/videos/hero.mp4" controls>
+          <track kind="captions" src="/videos/hero.en.vtt" srcLang="en" default />
+        </video>;`);
+  });
+
+  it("turns controls={false} on", async () => {
+    const file = createSourceFile(`
+      export default function Home() {
+        return <video src="/videos/hero.mp4" autoPlay controls={false} />;
+      }
+    `);
+
+    const [violation] = rule.scan(file);
+    expect(violation.message).toBe("<video> has no captions track, autoplays with sound and no controls");
+    expect(await applyFix(file, violation)).toBe(true);
+
+    expect(file.getFullText()).toContain(`<video src="/videos/hero.mp4" autoPlay controls />`);
+  });
+
+  it("has no fix when controls are present and no caption file exists", () => {
+    const file = createSourceFile(`
+      export default function Home() {
+        return <video src="/videos/hero.mp4" controls />;
+      }
+    `);
+
+    const violations = rule.scan(file);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].fix).toBeUndefined();
+  });
+
+  it("only asks muted videos for controls", () => {
+    const file = createSourceFile(`
+      export default function Home() {
+        return (
+          <>
+            <video src="/videos/loop.mp4" autoPlay muted loop />
+            <video src="/videos/loop.mp4" muted controls />
+          </>
+        );
+      }
+    `);
+
+    const violations = rule.scan(file);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toBe("<video> autoplays without controls");
+  });
+
+  it("accepts captions tracks, transcripts and dynamic children", () => {
+    const file = createSourceFile(`
+      export default function Home({ tracks }: { tracks: string[] }) {
+        return (
+          <>
+            <video src="/a.mp4" controls>
+              <track kind="captions" src="/a.vtt" srcLang="en" />
+            </video>
+            <video src="/b.mp4" controls>
+              {tracks.map((src) => <track key={src} src={src} />)}
+            </video>
+            <audio src="/podcast.mp3" controls aria-describedby="transcript" />
+          </>
+        );
+      }
+    `);
+
+    expect(rule.scan(file)).toHaveLength(0);
+  });
+
+  it("reports audio without a text alternative", () => {
+    const file = createSourceFile(`
+      export default function Home() {
+        return <audio src="/podcast.mp3" controls />;
+      }
+    `);
+
+    const violations = rule.scan(file);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toBe("<audio> has no transcript or text alternative");
+    expect(violations[0].fix).toBeUndefined();
+  });
+});
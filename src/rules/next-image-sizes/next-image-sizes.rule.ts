@@ -5,6 +5,7 @@ import type {
   JsxSelfClosingElement,
 } from "ts-morph";
 import type { Rule, Violation } from "../../scan/types.js";
+import { createAnchor } from "../../apply/anchor.js";
 
 function isNextImageImported(file: SourceFile): boolean {
   const importDecls = file.getImportDeclarations();
@@ -69,6 +70,7 @@ function checkElement(
     element: "<Image>",
     message:
       "<Image fill> without sizes prop loads full-width image on all viewports",
+    anchor: createAnchor(element),
   };
 }
 
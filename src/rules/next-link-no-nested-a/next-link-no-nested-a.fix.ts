@@ -6,11 +6,17 @@ import type {
   JsxAttribute,
 } from "ts-morph";
 import type { Violation } from "../../scan/types.js";
+import { resolveAnchor } from "../../apply/anchor.js";
 
-function findLinkElementAtLine(
+function findLinkElement(
   file: SourceFile,
-  line: number,
+  violation: Violation,
 ): JsxOpeningElement | undefined {
+  if (violation.anchor) {
+    return resolveAnchor(file, violation.anchor)?.asKind(SyntaxKind.JsxOpeningElement);
+  }
+
+  const line = violation.line;
   const openingElements = file.getDescendantsOfKind(
     SyntaxKind.JsxOpeningElement,
   );
@@ -51,7 +57,7 @@ export function applyNextLinkNoNestedAFix(
   file: SourceFile,
   violation: Violation,
 ): void {
-  const linkOpening = findLinkElementAtLine(file, violation.line);
+  const linkOpening = findLinkElement(file, violation);
   if (!linkOpening) return;
 
   const anchorElement = findNestedAnchorElement(linkOpening);
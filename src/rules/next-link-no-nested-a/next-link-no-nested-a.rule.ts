@@ -1,6 +1,7 @@
 import { SyntaxKind } from "ts-morph";
 import type { SourceFile, JsxOpeningElement } from "ts-morph";
 import type { Rule, Violation } from "../../scan/types.js";
+import { createAnchor } from "../../apply/anchor.js";
 
 function isNextLinkImported(file: SourceFile): boolean {
   const importDecls = file.getImportDeclarations();
@@ -62,6 +63,7 @@ export const nextLinkNoNestedARule: Rule = {
           type: "remove-element",
           value: "nested-a",
         },
+        anchor: createAnchor(el),
       });
     }
 
@@ -88,6 +88,8 @@ export const nextMetadataTitleRule: Rule = {
         fix: {
           type: "insert-metadata",
           attribute: "title",
+          // app/[locale]/… pages get a title per supported locale
+          localeParam: context.localeParam,
           value: async () => {
             // Heuristic: use route segment or component name (e.g. /about → "About", Home → "Home")
             const segment = heuristicTitle;
@@ -264,4 +264,39 @@ describe("nextMetadataTitleRule", () => {
     const postFixViolations = nextMetadataTitleRule.scan(file);
     expect(postFixViolations).toHaveLength(0);
   });
+
+  it("marks [locale] pages for per-locale titles and ignores the segment in the route", async () => {
+    const file = createSourceFile(`
+      export default function Page() { return <div>About</div>; }
+    `, "/app/[locale]/about/page.tsx");
+    const [violation] = nextMetadataTitleRule.scan(file);
+    expect(violation.fix!.localeParam).toBe("locale");
+    expect(await (violation.fix!.value as () => Promise<string>)()).toBe("About");
+  });
+
+  it("applies per-locale titles with generateMetadata", async () => {
+    const file = createSourceFile(`export const metadata = { description: "About us" };
+
+export default function Page() { return <div>About</div>; }
+`, "/app/[locale]/about/page.tsx");
+    const [violation] = nextMetadataTitleRule.scan(file);
+    violation.fix!.value = "About";
+    violation.fix!.values = { en: "About", pl: "O nas" };
+    expect(await applyFix(file, violation)).toBe(true);
+    expect(file.getFullText()).toBe(`const baseMetadata = { description: "About us" };
+
+const pageTitles: Record<string, string> = {
+  "en": "About",
+  "pl": "O nas",
+};
+
+export async function generateMetadata({ params }: { params: Promise<{ locale: string }> }) {
+  const { locale } = await params;
+  return { ...baseMetadata, title: pageTitles[locale] ?? pageTitles["en"] };
+}
+
+export default function Page() { return <div>About</div>; }
+`);
+    expect(nextMetadataTitleRule.scan(file)).toHaveLength(0);
+  });
 });
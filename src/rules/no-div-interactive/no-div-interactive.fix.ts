@@ -0,0 +1,59 @@
+import { Node, SyntaxKind } from "ts-morph";
+import type { JsxAttribute, SourceFile } from "ts-morph";
+import type { JsxElement, Violation } from "../../scan/types.js";
+import { resolveAnchor, trackEdit } from "../../apply/anchor.js";
+
+/**
+ * Applies the no-div-interactive fix chosen by the rule's `strategy`:
+ *
+ *   Before: <div onClick={open}>Menu</div>
+ *   After:  <button onClick={open} type="button">Menu</button>              (replace-tag)
+ *   After:  <div onClick={open} role="button" tabIndex={0} onKeyDown={…}>  (insert-attr)
+ */
+export async function applyNoDivInteractiveFix(file: SourceFile, violation: Violation): Promise<boolean> {
+  const fix = violation.fix;
+  if (!fix || typeof fix.value !== "string" || !violation.anchor) return false;
+  const el = resolveAnchor(file, violation.anchor);
+  if (!Node.isJsxOpeningElement(el) && !Node.isJsxSelfClosingElement(el)) return false;
+
+  if (fix.type === "replace-tag") {
+    await convertToButton(file, el, fix.value);
+    return true;
+  }
+
+  if (!el.getAttribute("role")) el.addAttribute({ name: "role", initializer: `"button"` });
+  if (!el.getAttribute("tabIndex")) el.addAttribute({ name: "tabIndex", initializer: "{0}" });
+  if (!el.getAttribute("onKeyDown") && !el.getAttribute("onKeyUp")) {
+    el.addAttribute({ name: "onKeyDown", initializer: fix.value });
+  }
+  return true;
+}
+
+/**
+ * Each tag is tracked as its own edit: one region from `<div` to `</div`
+ * would swallow the anchors of every child, and their fixes would be skipped.
+ */
+async function convertToButton(file: SourceFile, el: JsxElement, tag: string): Promise<void> {
+  await trackEdit(file, () => {
+    // A native button is focusable and has the button role already
+    const role = getAttribute(el, "role");
+    if (role?.getInitializer()?.getText().replace(/^\{?["']|["']\}?$/g, "") === "button") role.remove();
+    const tabIndex = getAttribute(el, "tabIndex");
+    if (tabIndex && /^(["']0["']|\{\s*0\s*\})$/.test(tabIndex.getInitializer()?.getText() ?? "")) tabIndex.remove();
+    if (!el.getAttribute("type")) el.addAttribute({ name: "type", initializer: `"button"` });
+  });
+
+  // Rename the closing tag first so the opening tag's position stays valid
+  const opening = el.getTagNameNode();
+  const closing = el.getParentIfKind(SyntaxKind.JsxElement)?.getClosingElement().getTagNameNode();
+  const openingRange: [number, number] = [opening.getStart(), opening.getEnd()];
+  if (closing) {
+    const closingRange: [number, number] = [closing.getStart(), closing.getEnd()];
+    await trackEdit(file, () => file.replaceText(closingRange, tag));
+  }
+  await trackEdit(file, () => file.replaceText(openingRange, tag));
+}
+
+function getAttribute(el: JsxElement, name: string): JsxAttribute | undefined {
+  return el.getAttribute(name)?.asKind(SyntaxKind.JsxAttribute);
+}
@@ -1,9 +1,22 @@
 import { SyntaxKind } from "ts-morph";
 import type { SourceFile } from "ts-morph";
-import type { Rule, Violation } from "../../scan/types.js";
+import type { Fix, JsxElement, Rule, Violation } from "../../scan/types.js";
+import { createAnchor } from "../../apply/anchor.js";
+import type { NoDivInteractiveStrategy } from "../../config/schema.js";
 
 const INTERACTIVE_TAGS = ["div", "span"];
 
+/** Content a <button> may not hold (phrasing content only) */
+const BLOCK_TAGS = new Set([
+  "div", "p", "section", "article", "aside", "header", "footer", "main", "nav",
+  "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "li", "dl", "table", "form",
+  "figure", "blockquote", "pre", "hr",
+  "button", "a", "input", "select", "textarea", "label", "iframe",
+]);
+
+/** Classes whose layout a <button>'s own display and box styles would break */
+const LAYOUT_CLASS = /^(?:[a-z0-9]+:)*(?:flex|inline-flex|grid|inline-grid|block|contents|table|w-full|h-full|absolute|fixed|sticky|inset-.+|col-span-.+|row-span-.+)$/;
+
 function getElementText(
   element: import("ts-morph").JsxOpeningElement | import("ts-morph").JsxSelfClosingElement
 ): string {
@@ -30,11 +43,15 @@ function hasAttribute(
   );
 }
 
-export const noDivInteractiveRule: Rule = {
-  id: "no-div-interactive",
-  type: "detect",
+export function createNoDivInteractiveRule(options: { strategy?: NoDivInteractiveStrategy }): Rule {
+  const { strategy } = options;
+
+  return {
+    id: "no-div-interactive",
+    // Detection only unless a fix strategy is configured
+    type: strategy ? "deterministic" : "detect",
 
-  scan(file: SourceFile): Violation[] {
+    scan(file: SourceFile): Violation[] {
     const violations: Violation[] = [];
     const filePath = file.getFilePath();
 
@@ -59,6 +76,8 @@ export const noDivInteractiveRule: Rule = {
         column,
         element: `<${tagName}>`,
         message: `Interactive <${tagName}> should be <button> or have role+tabIndex${textSuffix}`,
+        fix: strategy && createFix(element, strategy),
+        anchor: createAnchor(element),
       });
     }
 
@@ -81,9 +100,52 @@ export const noDivInteractiveRule: Rule = {
         column,
         element: `<${tagName}>`,
         message: `Interactive <${tagName}> should be <button> or have role+tabIndex`,
+        fix: strategy && createFix(element, strategy),
+        anchor: createAnchor(element),
       });
     }
 
     return violations;
   },
 };
+}
+
+/** "button" converts the element (value: new tag); otherwise role, tabIndex and onKeyDown are added */
+function createFix(element: JsxElement, strategy: NoDivInteractiveStrategy): Fix {
+  if (strategy === "button" && canBeButton(element)) {
+    return { type: "replace-tag", value: "button" };
+  }
+  return { type: "insert-attr", attribute: "onKeyDown", value: KEYBOARD_HANDLER };
+}
+
+/** Activates the element like a native button: Enter and Space trigger the same onClick */
+export const KEYBOARD_HANDLER = `{(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); e.currentTarget.click(); } }}`;
+
+/**
+ * A <button> can only hold phrasing content, and its default display and box
+ * styles differ from a div's — keep the element when either would break.
+ */
+function canBeButton(element: JsxElement): boolean {
+  if (element.getAttributes().some((attr) => attr.isKind(SyntaxKind.JsxSpreadAttribute))) return false;
+
+  const className = element.getAttribute("className")?.asKind(SyntaxKind.JsxAttribute);
+  if (className) {
+    // Dynamic classes (CSS modules, cn(...)) can't be checked
+    const classes = className.getInitializer()?.asKind(SyntaxKind.StringLiteral)?.getLiteralValue();
+    if (classes === undefined) return false;
+    if (classes.split(/\s+/).some((c) => LAYOUT_CLASS.test(c))) return false;
+  }
+
+  const parent = element.getParentIfKind(SyntaxKind.JsxElement);
+  if (!parent) return true;
+  const children = [
+    ...parent.getDescendantsOfKind(SyntaxKind.JsxOpeningElement),
+    ...parent.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement),
+  ].filter((child) => child !== element);
+  return children.every((child) => {
+    const tag = child.getTagNameNode().getText();
+    // Components may render blocks or controls; icons don't
+    if (/^[A-Z]/.test(tag)) return tag.endsWith("Icon");
+    return !BLOCK_TAGS.has(tag);
+  });
+}
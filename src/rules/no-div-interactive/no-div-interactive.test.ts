@@ -1,11 +1,22 @@
 import { describe, it, expect } from "vitest";
 import { Project } from "ts-morph";
-import { noDivInteractiveRule } from "./no-div-interactive.rule.js";
+import { createNoDivInteractiveRule } from "./no-div-interactive.rule.js";
+import type { NoDivInteractiveStrategy } from "../../config/schema.js";
+import { applyFix } from "../../apply/apply.js";
+import { createImgAltRule } from "../img-alt/img-alt.rule.js";
 
 function scanCode(code: string) {
   const project = new Project({ useInMemoryFileSystem: true });
   const file = project.createSourceFile("test.tsx", code);
-  return noDivInteractiveRule.scan(file);
+  return createNoDivInteractiveRule({}).scan(file);
+}
+
+async function fixCode(code: string, strategy: NoDivInteractiveStrategy) {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const file = project.createSourceFile("test.tsx", code);
+  const [violation] = createNoDivInteractiveRule({ strategy }).scan(file);
+  expect(await applyFix(file, violation)).toBe(true);
+  return file.getFullText();
 }
 
 describe("no-div-interactive", () => {
@@ -113,4 +124,46 @@ describe("no-div-interactive", () => {
     );
     expect(violations).toHaveLength(0);
   });
+
+  describe("fix strategies", () => {
+    it("converts to a button", async () => {
+      const code = await fixCode(`<div onClick={open} tabIndex={0}>Menu <ChevronIcon /></div>`, "button");
+      expect(code).toBe(`<button onClick={open} type="button">Menu <ChevronIcon /></button>`);
+    });
+
+    it("still fixes children after converting to a button, in either order", async () => {
+      for (const divFirst of [true, false]) {
+        const project = new Project({ useInMemoryFileSystem: true });
+        const file = project.createSourceFile("test.tsx", `<div onClick={open}><img src="/logo.png" /></div>`);
+        const [div] = createNoDivInteractiveRule({ strategy: "button" }).scan(file);
+        const [img] = createImgAltRule({ fillAlt: false }).scan(file);
+        img.fix!.value = "Logo";
+
+        for (const v of divFirst ? [div, img] : [img, div]) {
+          expect(await applyFix(file, v)).toBe(true);
+        }
+        expect(file.getFullText()).toBe(`<button onClick={open} type="button"><img src="/logo.png" alt="Logo" /></button>`);
+      }
+    });
+
+    it("adds role, tabIndex and a keyboard handler when a button would break the element", async () => {
+      for (const code of [
+        `<div onClick={open} className="flex gap-2">Menu</div>`,
+        `<div onClick={open} className={styles.card}>Menu</div>`,
+        `<div onClick={open}><p>Menu</p></div>`,
+        `<div onClick={open}><Card /></div>`,
+      ]) {
+        const fixed = await fixCode(code, "button");
+        expect(fixed).toContain(`role="button" tabIndex={0} onKeyDown={(e) => {`);
+        expect(fixed).toContain(`e.currentTarget.click()`);
+      }
+    });
+
+    it("keeps the element with the keyboard strategy", async () => {
+      const code = await fixCode(`<span onClick={open} role="button">Menu</span>`, "keyboard");
+      expect(code).toBe(
+        `<span onClick={open} role="button" tabIndex={0} onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); e.currentTarget.click(); } }}>Menu</span>`
+      );
+    });
+  });
 });
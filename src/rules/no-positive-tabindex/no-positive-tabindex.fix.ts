@@ -1,11 +1,31 @@
 import { SyntaxKind } from "ts-morph";
 import type { SourceFile } from "ts-morph";
+import type { JsxAttribute } from "ts-morph";
 import type { Violation } from "../../scan/types.js";
+import { resolveAnchor } from "../../apply/anchor.js";
+
+function replacePositiveTabIndex(attr: JsxAttribute): boolean {
+  const initializer = attr.getInitializer();
+  if (!initializer?.isKind(SyntaxKind.JsxExpression)) return false;
+
+  const expression = initializer.getExpression();
+  if (!expression?.isKind(SyntaxKind.NumericLiteral)) return false;
+  if (expression.getLiteralValue() <= 0) return false;
+
+  initializer.replaceWithText("{0}");
+  return true;
+}
 
 export function applyNoPositiveTabindexFix(
   file: SourceFile,
   violation: Violation,
 ): void {
+  if (violation.anchor) {
+    const attr = resolveAnchor(file, violation.anchor)?.asKind(SyntaxKind.JsxAttribute);
+    if (attr) replacePositiveTabIndex(attr);
+    return;
+  }
+
   const targetLine = violation.line;
 
   // Find JSX elements on the violation line
@@ -20,21 +40,7 @@ export function applyNoPositiveTabindexFix(
       if (attr.getStartLineNumber() !== targetLine) continue;
       if (attr.getNameNode().getText() !== "tabIndex") continue;
 
-      const initializer = attr.getInitializer();
-      if (!initializer) continue;
-
-      if (initializer.isKind(SyntaxKind.JsxExpression)) {
-        const expression = initializer.getExpression();
-        if (!expression) continue;
-
-        if (expression.isKind(SyntaxKind.NumericLiteral)) {
-          const value = expression.getLiteralValue();
-          if (value > 0) {
-            initializer.replaceWithText("{0}");
-            return;
-          }
-        }
-      }
+      if (replacePositiveTabIndex(attr)) return;
     }
   }
 }
@@ -1,6 +1,7 @@
 import { SyntaxKind } from "ts-morph";
 import type { SourceFile } from "ts-morph";
 import type { Rule, Violation } from "../../scan/types.js";
+import { createAnchor } from "../../apply/anchor.js";
 
 export const noPositiveTabindexRule: Rule = {
   id: "no-positive-tabindex",
@@ -46,6 +47,7 @@ export const noPositiveTabindexRule: Rule = {
                 attribute: "tabIndex",
                 value: "0",
               },
+              anchor: createAnchor(attr),
             });
           }
         }
@@ -0,0 +1,50 @@
+import type { BuiltinRuleId, CustomRule } from "../scan/types.js";
+import type { A11yPlugin } from "../config/schema.js";
+import { DEFAULT_RULES } from "../config/schema.js";
+
+const RULE_TYPES = ["ai", "deterministic", "detect"];
+
+/**
+ * Validate plugin rules and collect them as the config's custom rules.
+ * Throws on malformed rules and on ids that clash with other rules.
+ */
+export function loadPluginRules(plugins: A11yPlugin[]): CustomRule[] {
+  const registered = new Map<string, CustomRule>();
+
+  for (const plugin of plugins) {
+    const pluginName = plugin?.name ?? "unnamed plugin";
+    if (!Array.isArray(plugin?.rules)) {
+      throw new Error(`Plugin "${pluginName}" must export a rules array`);
+    }
+
+    for (const rule of plugin.rules) {
+      if (!rule || typeof rule.id !== "string" || rule.id.length === 0) {
+        throw new Error(`Plugin "${pluginName}" has a rule without an id`);
+      }
+      if (typeof rule.scan !== "function") {
+        throw new Error(`Rule "${rule.id}" from plugin "${pluginName}" has no scan() function`);
+      }
+      if (!RULE_TYPES.includes(rule.type)) {
+        throw new Error(`Rule "${rule.id}" from plugin "${pluginName}" has invalid type "${rule.type}" (expected ${RULE_TYPES.join(", ")})`);
+      }
+      if (rule.id in DEFAULT_RULES) {
+        throw new Error(`Rule "${rule.id}" from plugin "${pluginName}" conflicts with a built-in rule`);
+      }
+      if (registered.has(rule.id)) {
+        throw new Error(`Rule "${rule.id}" is registered by more than one plugin`);
+      }
+      registered.set(rule.id, rule);
+    }
+  }
+
+  return [...registered.values()];
+}
+
+/** Custom rules come from the resolved config (`config.customRules`) */
+export function getCustomRule(customRules: CustomRule[], id: string): CustomRule | undefined {
+  return customRules.find((rule) => rule.id === id);
+}
+
+export function isBuiltinRule(id: string): id is BuiltinRuleId {
+  return id in DEFAULT_RULES;
+}
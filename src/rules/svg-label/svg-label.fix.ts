@@ -0,0 +1,32 @@
+import { Node } from "ts-morph";
+import type { SourceFile } from "ts-morph";
+import type { Violation } from "../../scan/types.js";
+import { resolveAnchor } from "../../apply/anchor.js";
+
+/**
+ * Applies the svg-label fix. Decorative graphics get `aria-hidden="true"`;
+ * meaningful ones are exposed as an image with the generated name:
+ *
+ *   Before: <svg viewBox="0 0 100 40">…</svg>
+ *   After:  <svg viewBox="0 0 100 40" role="img" aria-label="Acme logo">…</svg>
+ */
+export async function applySvgLabelFix(file: SourceFile, violation: Violation): Promise<boolean> {
+  const fix = violation.fix;
+  if (!fix?.attribute || !violation.anchor) return false;
+  const el = resolveAnchor(file, violation.anchor);
+  if (!Node.isJsxOpeningElement(el) && !Node.isJsxSelfClosingElement(el)) return false;
+  if (el.getAttribute(fix.attribute)) return false;
+
+  const value = typeof fix.value === "function" ? await fix.value() : fix.value;
+  // No AI and nothing to derive a name from — leave it reported
+  if (!value) return false;
+
+  if (fix.attribute === "aria-label" && !el.getAttribute("role")) {
+    el.addAttribute({ name: "role", initializer: `"img"` });
+  }
+  el.addAttribute({
+    name: fix.attribute,
+    initializer: value.startsWith("{") ? value : `"${value.replace(/"/g, "&quot;")}"`,
+  });
+  return true;
+}
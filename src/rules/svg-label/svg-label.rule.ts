@@ -0,0 +1,162 @@
+import type { Node, SourceFile } from "ts-morph";
+import { SyntaxKind } from "ts-morph";
+import type { JsxElement, Rule, Violation } from "../../scan/types.js";
+import { createAnchor } from "../../apply/anchor.js";
+import { getStringValue } from "../../utils/jsx-attribute.js";
+import { iconNameToLabelFallback, isIconName } from "../button-label/icon-name-map.js";
+
+/** Containers whose own rules name the svg inside (button-label, link-label) */
+const LABELLED_CONTAINERS = new Set(["button", "a", "Link"]);
+
+/** Siblings whose text labels an icon beside them */
+const INLINE_TEXT_TAGS = new Set(["span", "strong", "em", "b", "i", "small", "abbr", "label"]);
+
+/** class/id prefixes of icon sets, e.g. "lucide-search", "fa-user" */
+const ICON_CLASS = /^(?:icon|lucide|fa|bi|ri|heroicon)-([a-z0-9-]+)$/i;
+const GRAPHIC_CLASS = /(^|-)(logo|chart|graph|diagram|illustration|map)(-|$)/i;
+
+export const svgLabelRule: Rule = {
+  id: "svg-label",
+  type: "ai",
+
+  scan(file: SourceFile): Violation[] {
+    const violations: Violation[] = [];
+    const filePath = file.getFilePath();
+
+    const elements = [
+      ...file.getDescendantsOfKind(SyntaxKind.JsxOpeningElement),
+      ...file.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement),
+    ];
+
+    for (const el of elements) {
+      if (el.getTagNameNode().getText() !== "svg") continue;
+      if (isNamedOrHidden(el) || isInsideContainer(el)) continue;
+      // Props spread from the caller may carry aria-hidden or a label
+      if (el.getAttributes().some((attr) => attr.isKind(SyntaxKind.JsxSpreadAttribute))) continue;
+
+      const name = getSvgName(el);
+      const role = getStringValue(el, "role");
+      // Icons are decorative: buttons and links around them carry the name, text beside
+      // them repeats it. Logos, charts and unnamed standalone graphics are meaningful.
+      const decorative = role !== "img" && (name ? isIconName(name) : hasAdjacentText(el));
+
+      violations.push({
+        rule: "svg-label",
+        filePath,
+        line: el.getStartLineNumber(),
+        column: el.getStart() - el.getStartLinePos(),
+        element: el.getText().slice(0, 80),
+        message: decorative
+          ? "Decorative <svg> is not hidden from screen readers"
+          : "<svg> has no accessible name",
+        fix: decorative
+          ? { type: "insert-attr", attribute: "aria-hidden", value: "true" }
+          : {
+              type: "insert-attr",
+              attribute: "aria-label",
+              // Without AI only a named graphic gets a label (e.g. CompanyLogo → "Company logo")
+              value: async () => (name ? iconNameToLabelFallback(name) : ""),
+            },
+        anchor: createAnchor(el),
+      });
+    }
+
+    return violations;
+  },
+};
+
+/**
+ * Name of the graphic: the component that renders it (`function CompanyLogo()`
+ * returning the svg) or an icon/graphic class or id, e.g. "lucide-search" → "SearchIcon".
+ */
+export function getSvgName(el: JsxElement): string | undefined {
+  const component = getRenderingComponent(el);
+  if (component) return component;
+
+  for (const attr of ["className", "id"]) {
+    for (const token of getStringValue(el, attr)?.split(/\s+/) ?? []) {
+      const icon = ICON_CLASS.exec(token);
+      if (icon) return `${toPascalCase(icon[1])}Icon`;
+      if (GRAPHIC_CLASS.test(token)) return toPascalCase(token);
+    }
+  }
+  return undefined;
+}
+
+/** Component whose returned root is the svg */
+function getRenderingComponent(el: JsxElement): string | undefined {
+  let node: Node = el.isKind(SyntaxKind.JsxOpeningElement) ? el.getParentOrThrow() : el;
+  let parent = node.getParent();
+  while (parent?.isKind(SyntaxKind.ParenthesizedExpression)) {
+    node = parent;
+    parent = node.getParent();
+  }
+
+  const fn = parent?.isKind(SyntaxKind.ReturnStatement)
+    ? parent.getFirstAncestor((a) => a.isKind(SyntaxKind.FunctionDeclaration) || a.isKind(SyntaxKind.ArrowFunction) || a.isKind(SyntaxKind.FunctionExpression))
+    : parent?.isKind(SyntaxKind.ArrowFunction)
+      ? parent
+      : undefined;
+  if (!fn) return undefined;
+
+  const name = fn.isKind(SyntaxKind.FunctionDeclaration)
+    ? fn.getName()
+    : fn.getFirstAncestorByKind(SyntaxKind.VariableDeclaration)?.getName();
+  return name && /^[A-Z]/.test(name) ? name : undefined;
+}
+
+function isNamedOrHidden(el: JsxElement): boolean {
+  if (el.getAttribute("aria-label") || el.getAttribute("aria-labelledby")) return true;
+  const role = getStringValue(el, "role");
+  if (role === "presentation" || role === "none") return true;
+
+  const ariaHidden = el.getAttribute("aria-hidden")?.asKind(SyntaxKind.JsxAttribute);
+  const init = ariaHidden?.getInitializer();
+  // aria-hidden, aria-hidden="true", aria-hidden={true}
+  if (ariaHidden && (!init || /^(["']true["']|\{\s*true\s*\})$/.test(init.getText()))) return true;
+
+  // <svg><title>Revenue chart</title>…</svg>
+  const parent = el.getParent();
+  if (!el.isKind(SyntaxKind.JsxOpeningElement) || !parent?.isKind(SyntaxKind.JsxElement)) return false;
+  return parent.getJsxChildren().some(
+    (child) => child.isKind(SyntaxKind.JsxElement) && child.getOpeningElement().getTagNameNode().getText() === "title"
+  );
+}
+
+/** Inside a button or link (named by their own rules) or a nested svg */
+function isInsideContainer(el: JsxElement): boolean {
+  const node = el.isKind(SyntaxKind.JsxOpeningElement) ? el.getParentOrThrow() : el;
+  return node.getAncestors().some((ancestor) => {
+    if (!ancestor.isKind(SyntaxKind.JsxElement)) return false;
+    const tag = ancestor.getOpeningElement().getTagNameNode().getText();
+    return tag === "svg" || LABELLED_CONTAINERS.has(tag);
+  });
+}
+
+/** Visible text or a rendered value beside the svg, e.g. <p><svg /><span>Settings</span></p> */
+function hasAdjacentText(el: JsxElement): boolean {
+  const node = el.isKind(SyntaxKind.JsxOpeningElement) ? el.getParentOrThrow() : el;
+  const parent = node.getParent();
+  if (!parent?.isKind(SyntaxKind.JsxElement)) return false;
+
+  return parent.getJsxChildren().some((child) => {
+    if (child === node) return false;
+    if (child.isKind(SyntaxKind.JsxText)) return child.getText().trim().length > 0;
+    if (child.isKind(SyntaxKind.JsxExpression)) return child.getExpression() !== undefined;
+    // Inline text only — a graphic beside a block (<p>, <figcaption>) isn't part of its label
+    const tag = child.isKind(SyntaxKind.JsxElement) ? child.getOpeningElement().getTagNameNode().getText() : undefined;
+    return (
+      tag !== undefined &&
+      INLINE_TEXT_TAGS.has(tag) &&
+      child.getDescendantsOfKind(SyntaxKind.JsxText).some((t) => t.getText().trim().length > 0)
+    );
+  });
+}
+
+function toPascalCase(name: string): string {
+  return name
+    .split(/[-_]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { Project, SyntaxKind } from "ts-morph";
+import { svgLabelRule, getSvgName } from "./svg-label.rule.js";
+import { applyFix } from "../../apply/apply.js";
+
+function createSourceFile(code: string) {
+  const project = new Project({
+    useInMemoryFileSystem: true,
+    compilerOptions: { jsx: 2 /* JsxEmit.React */ },
+  });
+  return project.createSourceFile("/app/page.tsx", code);
+}
+
+describe("svgLabelRule", () => {
+  it("hides an unnamed icon next to text", async () => {
+    const file = createSourceFile(`
+      export default function Settings() {
+        return <span><svg viewBox="0 0 24 24"><path d="M0 0" /></svg>Settings</span>;
+      }
+    `);
+
+    const violations = svgLabelRule.scan(file);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toContain("Decorative <svg>");
+    expect(violations[0].fix).toEqual({ type: "insert-attr", attribute: "aria-hidden", value: "true" });
+
+    expect(await applyFix(file, violations[0])).toBe(true);
+    expect(file.getFullText()).toContain(`<svg viewBox="0 0 24 24" aria-hidden="true">`);
+  });
+
+  it("hides the root svg of an icon component", () => {
+    const file = createSourceFile(`
+      function SearchIcon() {
+        return <svg viewBox="0 0 24 24"><circle cx="11" cy="11" r="8" /></svg>;
+      }
+    `);
+
+    const violations = svgLabelRule.scan(file);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].fix!.attribute).toBe("aria-hidden");
+  });
+
+  it("labels a standalone logo component with role=img", async () => {
+    const file = createSourceFile(`
+      export function CompanyLogo() {
+        return (
+          <svg viewBox="0 0 100 40">
+            <path d="M0 0" />
+          </svg>
+        );
+      }
+    `);
+
+    const violations = svgLabelRule.scan(file);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toBe("<svg> has no accessible name");
+    expect(violations[0].fix!.attribute).toBe("aria-label");
+
+    expect(await applyFix(file, violations[0])).toBe(true);
+    expect(file.getFullText()).toContain(`<svg viewBox="0 0 100 40" role="img" aria-label="Company logo">`);
+  });
+
+  it("treats named graphics as meaningful even next to text", () => {
+    const file = createSourceFile(`
+      export default function Report() {
+        return (
+          <figure>
+            <svg className="revenue-chart" />
+            <figcaption>Revenue 2026</figcaption>
+          </figure>
+        );
+      }
+    `);
+
+    const violations = svgLabelRule.scan(file);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].fix!.attribute).toBe("aria-label");
+  });
+
+  it("leaves an unnamed standalone svg reported without AI", async () => {
+    const file = createSourceFile(`
+      export default function Home() {
+        return <main><svg viewBox="0 0 10 10" /></main>;
+      }
+    `);
+
+    const [violation] = svgLabelRule.scan(file);
+
+    expect(await applyFix(file, violation)).toBe(false);
+    expect(file.getFullText()).toContain(`<svg viewBox="0 0 10 10" />`);
+  });
+
+  it("skips named, hidden, spread and nested svgs", () => {
+    const file = createSourceFile(`
+      export default function Home(props: object) {
+        return (
+          <main>
+            <svg aria-label="Acme" />
+            <svg aria-hidden="true" />
+            <svg role="presentation" />
+            <svg {...props} />
+            <svg><title>Sales chart</title></svg>
+            <button><svg /></button>
+            <a href="/"><svg /></a>
+          </main>
+        );
+      }
+    `);
+
+    expect(svgLabelRule.scan(file)).toHaveLength(0);
+  });
+});
+
+describe("getSvgName", () => {
+  it("reads icon-set and graphic classes", () => {
+    const file = createSourceFile(`
+      export default function Home() {
+        return (
+          <main>
+            <svg className="lucide lucide-arrow-right" />
+            <svg id="site-logo" />
+            <svg className="w-4 h-4" />
+          </main>
+        );
+      }
+    `);
+
+    const names = file.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement).map(getSvgName);
+    expect(names).toEqual(["ArrowRightIcon", "SiteLogo", undefined]);
+  });
+});
@@ -5,6 +5,8 @@ export interface ComponentContext {
   componentName: string;
   filePath: string;
   route?: string;
+  /** Name of the dynamic locale segment the route is under, e.g. "locale" for app/[locale]/… */
+  localeParam?: string;
   nearbyHeadings: string[];
   parentComponent?: string;
 }
@@ -13,16 +15,32 @@ export function extractContext(file: SourceFile): ComponentContext {
   const filePath = file.getFilePath();
   const componentName = extractComponentName(file);
   const route = extractRoute(filePath);
+  const localeParam = getLocaleParam(filePath);
   const nearbyHeadings = extractHeadings(file);
 
   return {
     componentName,
     filePath,
     route,
+    localeParam,
     nearbyHeadings,
   };
 }
 
+/** App Router segment holding the locale: app/[locale]/…, app/[lang]/… */
+const LOCALE_SEGMENT = /\/\[(locale|lang|lng)\](?=\/)/;
+
+/**
+ * Name of the dynamic locale segment a file is under, or undefined for
+ * files outside a localized App Router tree.
+ */
+export function getLocaleParam(filePath: string): string | undefined {
+  const normalized = filePath.replace(/\\/g, "/");
+  const appIndex = normalized.search(/(^|\/)app\//);
+  if (appIndex === -1) return undefined;
+  return normalized.slice(appIndex).match(LOCALE_SEGMENT)?.[1];
+}
+
 function extractComponentName(file: SourceFile): string {
   // Check for default export function/const
   const defaultExport = file.getDefaultExportSymbol();
@@ -55,7 +73,8 @@ function extractComponentName(file: SourceFile): string {
 }
 
 function extractRoute(filePath: string): string | undefined {
-  const normalized = filePath.replace(/\\/g, "/");
+  // The locale segment is not part of the page's identity: app/[locale]/about → /about
+  const normalized = filePath.replace(/\\/g, "/").replace(LOCALE_SEGMENT, "");
 
   // App Router: app/<path>/page.tsx
   const appMatch = normalized.match(/app\/(.+?)\/page\.[tj]sx?$/);
@@ -0,0 +1,42 @@
+import { execFileSync } from "node:child_process";
+import * as path from "node:path";
+
+function git(args: string[], cwd: string): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf-8",
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+}
+
+function splitPaths(output: string): string[] {
+  return output.split("\0").filter(Boolean);
+}
+
+/**
+ * Absolute paths of files changed relative to `ref`: committed changes since
+ * the merge base with `ref`, uncommitted changes and untracked files.
+ * Deleted files are omitted. Uses the local git binary.
+ */
+export function getChangedFiles(cwd: string, ref = "HEAD"): string[] {
+  let root: string;
+  try {
+    root = git(["rev-parse", "--show-toplevel"], cwd).trim();
+  } catch {
+    throw new Error(`--changed/--since requires a git repository: ${cwd}`);
+  }
+
+  let base: string;
+  try {
+    // Diff from the merge base so commits that landed on `ref` after the
+    // branch point don't show up as changes (`git diff ref...` semantics)
+    base = git(["merge-base", ref, "HEAD"], root).trim();
+  } catch {
+    throw new Error(`Unknown git ref: ${ref}`);
+  }
+
+  const changed = splitPaths(git(["diff", "--name-only", "--diff-filter=ACMR", "-z", base], root));
+  const untracked = splitPaths(git(["ls-files", "--others", "--exclude-standard", "-z"], root));
+
+  return [...new Set([...changed, ...untracked])].map((f) => path.resolve(root, f));
+}
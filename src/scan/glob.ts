@@ -38,6 +38,27 @@ export async function discoverFiles(
   return filterExcluded(allFiles, exclude);
 }
 
+/**
+ * Whether a single file would be picked up by discoverFiles — used to decide
+ * if a file created while watching should be scanned.
+ */
+export function matchesScanPatterns(
+  filePath: string,
+  basePath: string,
+  include: string[],
+  exclude: string[]
+): boolean {
+  const rel = path.relative(path.resolve(basePath), filePath);
+  if (rel.startsWith("..") || path.isAbsolute(rel)) return false;
+  // A leading globstar also matches zero directories, like fs.glob does
+  const included = include.some(
+    (pattern) =>
+      matchGlob(rel, pattern) ||
+      (pattern.startsWith("**/") && matchGlob(rel, pattern.slice(3)))
+  );
+  return included && filterExcluded([filePath], exclude).length > 0;
+}
+
 async function fallbackGlob(
   basePath: string,
   include: string[],
@@ -1,21 +1,48 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { Project } from "ts-morph";
+import pc from "picocolors";
+import type { SourceFile } from "ts-morph";
 import type { ResolvedConfig } from "../config/schema.js";
-import type { Violation, ScanResult } from "./types.js";
+import type { Violation, Rule, ScanResult, FixedViolation, FixConflict } from "./types.js";
 import { discoverFiles } from "./glob.js";
+import { getChangedFiles } from "./git.js";
+import { createUnifiedDiff } from "../report/unified-diff.js";
+import { toReportPath } from "../report/json-report.js";
 import { getRulesForConfig } from "../rules/index.js";
 import { computeScore, loadPreviousScore, savePreviousScore } from "./score.js";
 import { applyFix } from "../apply/apply.js";
+import { getFixConflict } from "../apply/anchor.js";
 import { resolveAiFixes } from "../ai/resolve-fixes.js";
+import { localizeFixes } from "../i18n/localize-fixes.js";
+import type { MessageCatalogs } from "../i18n/catalog.js";
+import { applyBaseline, fingerprintViolations, loadBaseline } from "../baseline/baseline.js";
+import type { Baseline } from "../baseline/baseline.js";
+import {
+  parseSuppressions,
+  filterSuppressed,
+  collectSuppressionProblems,
+} from "./suppressions.js";
+import type { SuppressionProblem } from "./suppressions.js";
 
 export interface ScanContext {
   project: Project;
+  /** Absolute directory that was scanned */
+  root: string;
   violations: Violation[];
   filesScanned: number;
   elementsScanned: number;
   rules: ReturnType<typeof getRulesForConfig>;
   config: ResolvedConfig;
+  baseline?: Baseline;
+  /** Baseline fingerprints, computed before any fix shifts lines */
+  fingerprints?: Map<Violation, string>;
+  suppressionProblems: SuppressionProblem[];
+  /** Violations whose fix was applied (tracked by identity, not by line) */
+  applied: Set<Violation>;
+  conflicts: FixConflict[];
+  /** Message catalog entries for localized fixes, written on finalize */
+  catalogs?: MessageCatalogs;
 }
 
 /**
@@ -36,6 +63,14 @@ function resolveTargetPath(targetPath: string): string {
   return absPath;
 }
 
+function realPath(filePath: string): string {
+  try {
+    return fs.realpathSync(filePath);
+  } catch {
+    return path.resolve(filePath);
+  }
+}
+
 /**
  * Phase 1: Discover files, parse AST, detect violations.
  * Does NOT apply any fixes — returns context for the caller to handle.
@@ -45,13 +80,19 @@ export async function detect(
   config: ResolvedConfig
 ): Promise<ScanContext> {
   const absPath = resolveTargetPath(targetPath);
+  const baseline = config.baseline ? loadBaseline(config.baseline) : undefined;
 
-  const files = await discoverFiles(
+  let files = await discoverFiles(
     absPath,
     config.scanner.include,
     config.scanner.exclude
   );
 
+  if (config.changedSince) {
+    const changed = new Set(getChangedFiles(absPath, config.changedSince).map(realPath));
+    files = files.filter((f) => changed.has(realPath(f)));
+  }
+
   const tsconfigPath = path.join(absPath, "tsconfig.json");
   const project = new Project({
     tsConfigFilePath: fs.existsSync(tsconfigPath) ? tsconfigPath : undefined,
@@ -71,62 +112,116 @@ export async function detect(
     }
   }
 
+  // Only changed files are scanned, but their imports (barrels, components,
+  // static image imports) must still resolve — load unchanged dependencies
+  // without scanning them. Declaration files from node_modules are not needed.
+  const scanFiles = project.getSourceFiles();
+  if (config.changedSince) {
+    for (const dep of project.resolveSourceFileDependencies()) {
+      if (dep.isInNodeModules() || dep.isDeclarationFile()) {
+        project.removeSourceFile(dep);
+      }
+    }
+  }
+
   const rules = getRulesForConfig(config.rules, config.noAi, {
     locale: config.locale,
+    components: config.components,
+    customRules: config.customRules,
   });
   const allViolations: Violation[] = [];
+  const suppressionProblems: SuppressionProblem[] = [];
   let elementsScanned = 0;
 
-  for (const sourceFile of project.getSourceFiles()) {
-    for (const rule of rules) {
-      try {
-        const violations = rule.scan(sourceFile);
-        allViolations.push(...violations);
-      } catch {
-        // Skip rule errors
-      }
-    }
-    elementsScanned += sourceFile.getDescendants().length;
+  for (const sourceFile of scanFiles) {
+    const fileResult = scanFile(sourceFile, rules, config);
+    allViolations.push(...fileResult.violations);
+    suppressionProblems.push(...fileResult.suppressionProblems);
+    elementsScanned += fileResult.elementsScanned;
   }
 
+  const fingerprints = config.baseline
+    ? fingerprintViolations(project, allViolations, path.dirname(config.baseline))
+    : undefined;
+
   return {
     project,
+    root: absPath,
     violations: allViolations,
     filesScanned: files.length,
     elementsScanned,
     rules,
     config,
+    baseline,
+    fingerprints,
+    suppressionProblems,
+    applied: new Set(),
+    conflicts: [],
+  };
+}
+
+/**
+ * Run rules on a single file, honouring inline suppression comments.
+ */
+export function scanFile(
+  sourceFile: SourceFile,
+  rules: Rule[],
+  config: ResolvedConfig
+): { violations: Violation[]; suppressionProblems: SuppressionProblem[]; elementsScanned: number } {
+  const violations: Violation[] = [];
+  const directives = parseSuppressions(sourceFile);
+  for (const rule of rules) {
+    try {
+      violations.push(...filterSuppressed(rule.scan(sourceFile), directives, config.suppressions));
+    } catch {
+      // Skip rule errors
+    }
+  }
+
+  const suppressionProblems = collectSuppressionProblems(
+    sourceFile.getFilePath(),
+    directives,
+    rules.map((r) => r.id),
+    Object.keys(config.rules),
+    config.suppressions
+  );
+
+  return {
+    violations,
+    suppressionProblems,
+    elementsScanned: sourceFile.getDescendants().length,
   };
 }
 
 /**
- * Phase 1.5: Resolve AI fix values (call AI provider, check cache).
+ * Phase 1.5: Resolve AI fix values (call AI provider, check cache), then move
+ * labels of components using a translation function into message catalogs.
  * Mutates violation.fix.value from async function to resolved string.
  */
 export async function resolveAi(
   ctx: ScanContext,
   onProgress?: (resolved: number, total: number, violation: Violation, result: string) => void
 ): Promise<void> {
-  if (ctx.config.noAi) return;
+  if (!ctx.config.noAi) {
+    await resolveAiFixes({
+      config: ctx.config,
+      project: ctx.project,
+      violations: ctx.violations,
+      onProgress,
+    });
+  }
 
-  await resolveAiFixes({
-    config: ctx.config,
-    project: ctx.project,
-    violations: ctx.violations,
-    onProgress,
-  });
+  if (ctx.config.i18n.enabled) {
+    ctx.catalogs = await localizeFixes({
+      config: ctx.config,
+      project: ctx.project,
+      root: ctx.root,
+      violations: ctx.violations,
+    });
+  }
 }
 
-export type FixedViolation = {
-  filePath: string;
-  line: number;
-  rule: string;
-  message: string;
-  fixAttribute?: string;
-  fixType?: string;
-  fixValue?: string;
-  fixElement?: string;
-};
+export type { FixedViolation };
 
 /**
  * Apply fixes concurrently (per-file parallel, sequential within file).
@@ -147,8 +242,10 @@ export async function applyAllFixes(
 
   const results = await Promise.all(
     Array.from(byFile.values()).map(async (viols) => {
-      // Sort by line descending so edits don't invalidate positions
-      viols.sort((a, b) => b.line - a.line);
+      // Bottom-to-top: a fix that rewrites an element around its children
+      // (wrapping, hoisting) replaces their text, and anchors inside a
+      // replaced region no longer resolve — so children are fixed first
+      viols.sort((a, b) => b.line - a.line || (b.anchor?.start ?? 0) - (a.anchor?.start ?? 0));
       const applied: FixedViolation[] = [];
       for (const v of viols) {
         const ok = await fixViolation(ctx, v);
@@ -187,51 +284,106 @@ export async function fixViolation(
   try {
     const sourceFile = ctx.project.getSourceFile(violation.filePath);
     if (!sourceFile) return false;
-    return await applyFix(sourceFile, violation);
+    const ok = await applyFix(sourceFile, violation, ctx.config.customRules);
+    if (ok) {
+      ctx.applied.add(violation);
+    } else {
+      const conflictsWith = getFixConflict(sourceFile, violation);
+      if (conflictsWith) ctx.conflicts.push({ violation, conflictsWith });
+    }
+    return ok;
   } catch {
     return false;
   }
 }
 
 /**
- * Phase 3: Save all modified files and compute final result.
+ * Phase 3: Save all modified files (or diff them on a dry run) and compute final result.
  */
 export async function finalize(
   ctx: ScanContext,
   fixedCount: number,
   fixed?: FixedViolation[]
 ): Promise<ScanResult> {
-  if (fixedCount > 0) {
+  let patch: string | undefined;
+  const catalogChanges = ctx.catalogs?.commit((owner) => ctx.applied.has(owner as Violation)) ?? [];
+  if (ctx.config.fix && ctx.config.dryRun) {
+    patch =
+      createProjectPatch(ctx.project) +
+      catalogChanges
+        .map((c) => createUnifiedDiff(toReportPath(c.filePath, process.cwd()), c.original, c.content))
+        .join("");
+  } else if (fixedCount > 0) {
     await ctx.project.save();
+    for (const change of catalogChanges) {
+      fs.mkdirSync(path.dirname(change.filePath), { recursive: true });
+      fs.writeFileSync(change.filePath, change.content);
+    }
+    if (catalogChanges.length > 0 && !ctx.config.quiet) {
+      const files = catalogChanges.map((c) => toReportPath(c.filePath, process.cwd()));
+      console.log(pc.dim(`  i18n: updated ${files.join(", ")}\n`));
+    }
   }
 
-  const fixedSet = new Set(
-    (fixed ?? []).map((f) => `${f.filePath}:${f.line}:${f.rule}`)
-  );
-
   const remainingViolations = ctx.config.fix
     ? ctx.violations.filter((v) => {
-        if (fixedSet.has(`${v.filePath}:${v.line}:${v.rule}`)) return false;
+        if (ctx.applied.has(v)) return false;
         if (!v.fix) return true;
         if (ctx.config.noAi && ctx.rules.find((r) => r.id === v.rule)?.type === "ai") return true;
         return false;
       })
     : ctx.violations;
 
-  const score = computeScore(remainingViolations);
+  const score = computeScore(remainingViolations, ctx.config.customRules);
   const previousScore = loadPreviousScore(ctx.config.cache);
-  savePreviousScore(ctx.config.cache, score);
+  // A dry run changes nothing on disk, so it must not move the score history
+  if (patch === undefined) savePreviousScore(ctx.config.cache, score);
+
+  // Baseline: report only violations not recorded in the baseline file.
+  // The score still reflects every remaining violation.
+  let reportedViolations = remainingViolations;
+  let baselineSuppressed: number | undefined;
+  if (ctx.baseline && ctx.fingerprints) {
+    const { newViolations, suppressed } = applyBaseline(
+      ctx.baseline,
+      remainingViolations,
+      ctx.fingerprints
+    );
+    reportedViolations = newViolations;
+    baselineSuppressed = suppressed;
+  }
 
   return {
-    violations: remainingViolations,
+    violations: reportedViolations,
     filesScanned: ctx.filesScanned,
     elementsScanned: ctx.elementsScanned,
     score,
     previousScore,
     fixedCount,
+    fixed,
+    baselineSuppressed,
+    suppressionProblems: ctx.suppressionProblems,
+    conflicts: ctx.conflicts.length > 0 ? ctx.conflicts : undefined,
+    patch,
   };
 }
 
+/**
+ * Unified diff of every in-memory change against the file on disk.
+ * Paths are relative to the working directory (apply with `git apply`).
+ */
+function createProjectPatch(project: Project): string {
+  return project
+    .getSourceFiles()
+    .filter((sourceFile) => !sourceFile.isSaved())
+    .map((sourceFile) => {
+      const filePath = sourceFile.getFilePath();
+      const original = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : "";
+      return createUnifiedDiff(toReportPath(filePath, process.cwd()), original, sourceFile.getFullText());
+    })
+    .join("");
+}
+
 /**
  * All-in-one scan (non-interactive). Detect + resolve AI + fix all + finalize.
  */
@@ -241,7 +393,7 @@ export async function scan(
 ): Promise<ScanResult> {
   const ctx = await detect(targetPath, config);
 
-  if (config.fix && !config.noAi) {
+  if (config.fix) {
     await resolveAi(ctx);
   }
 
@@ -1,13 +1,17 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
-import type { RuleId, Violation } from "./types.js";
+import type { BuiltinRuleId, CustomRule, RuleId, Violation } from "./types.js";
+import { getCustomRule, isBuiltinRule } from "../rules/registry.js";
 
 /** Heuristic weights — not a WCAG compliance metric. Use for progress tracking and CI gating. */
-export const WEIGHT_TABLE: Record<RuleId, number> = {
+export const WEIGHT_TABLE: Record<BuiltinRuleId, number> = {
   "img-alt": 2,
   "button-label": 2,
   "link-label": 2,
   "input-label": 3,
+  "iframe-title": 2,
+  "media-captions": 2,
+  "svg-label": 2,
   "html-lang": 5,
   "next-metadata-title": 3,
   "next-skip-nav": 3,
@@ -17,15 +21,21 @@ export const WEIGHT_TABLE: Record<RuleId, number> = {
   "next-image-sizes": 1,
   "heading-order": 1,
   "no-div-interactive": 1,
+  "aria-valid": 1,
   "emoji-alt": 0.5,
   "link-noopener": 0.5,
 };
 
-export function computeScore(violations: Violation[]): number {
+/** Score deduction per violation; custom rules use their own `weight` */
+export function getRuleWeight(rule: RuleId, customRules: CustomRule[] = []): number {
+  if (isBuiltinRule(rule)) return WEIGHT_TABLE[rule];
+  return getCustomRule(customRules, rule)?.weight ?? 1;
+}
+
+export function computeScore(violations: Violation[], customRules: CustomRule[] = []): number {
   let score = 100;
   for (const v of violations) {
-    const weight = WEIGHT_TABLE[v.rule] ?? 1;
-    score -= weight;
+    score -= getRuleWeight(v.rule, customRules);
   }
   return Math.max(0, Math.min(100, Math.round(score)));
 }
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { Project } from "ts-morph";
+import {
+  parseSuppressions,
+  filterSuppressed,
+  collectSuppressionProblems,
+} from "./suppressions.js";
+import { createImgAltRule } from "../rules/img-alt/img-alt.rule.js";
+import { headingOrderRule } from "../rules/heading-order/heading-order.rule.js";
+import type { RuleId } from "./types.js";
+
+const DEFAULTS = { requireReason: false, reportUnused: true };
+const KNOWN: RuleId[] = ["img-alt", "heading-order", "no-div-interactive"];
+
+function setup(code: string) {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const file = project.createSourceFile("test.tsx", code);
+  return { file, directives: parseSuppressions(file) };
+}
+
+describe("suppressions", () => {
+  it("parses JSX and line comment directives with rules and reason", () => {
+    const { directives } = setup(`
+// a11y-disable heading-order, no-div-interactive -- marketing layout
+const A = () => (
+  <div>
+    {/* a11y-ignore-next-line img-alt -- decorative divider */}
+    <img src="/line.png" alt="" />
+  </div>
+);
+`);
+    expect(directives).toHaveLength(2);
+    expect(directives[0]).toMatchObject({
+      kind: "file",
+      rules: ["heading-order", "no-div-interactive"],
+      reason: "marketing layout",
+      line: 2,
+    });
+    expect(directives[1]).toMatchObject({
+      kind: "next-line",
+      rules: ["img-alt"],
+      reason: "decorative divider",
+      line: 5,
+    });
+  });
+
+  it("suppresses a violation on the next line only", () => {
+    const { file, directives } = setup(`const A = () => (
+  <div>
+    {/* a11y-ignore-next-line img-alt -- decorative divider */}
+    <img src="/line.png" alt="" />
+    <img src="/other.png" alt="" />
+  </div>
+);`);
+    const violations = createImgAltRule({ fillAlt: true }).scan(file);
+    expect(violations).toHaveLength(2);
+    const remaining = filterSuppressed(violations, directives, DEFAULTS);
+    expect(remaining).toHaveLength(1);
+    expect(remaining[0].line).toBe(5);
+  });
+
+  it("file-level directive without rules suppresses every rule", () => {
+    const { file, directives } = setup(`// a11y-disable
+const A = () => <><h1>A</h1><h3>B</h3><img src="/x.png" /></>;`);
+    const violations = [
+      ...headingOrderRule.scan(file),
+      ...createImgAltRule({ fillAlt: true }).scan(file),
+    ];
+    expect(violations.length).toBeGreaterThan(0);
+    expect(filterSuppressed(violations, directives, DEFAULTS)).toHaveLength(0);
+  });
+
+  it("ignores directives without a reason when requireReason is set", () => {
+    const { file, directives } = setup(`const A = () => (
+  // a11y-ignore-next-line img-alt
+  <img src="/x.png" />
+);`);
+    const options = { requireReason: true, reportUnused: true };
+    const violations = createImgAltRule({ fillAlt: true }).scan(file);
+    expect(filterSuppressed(violations, directives, options)).toHaveLength(1);
+
+    const problems = collectSuppressionProblems("test.tsx", directives, KNOWN, KNOWN, options);
+    expect(problems).toEqual([
+      expect.objectContaining({ kind: "missing-reason", line: 2 }),
+    ]);
+  });
+
+  it("reports unused and unknown-rule directives", () => {
+    const { file, directives } = setup(`// a11y-ignore-next-line img-alt
+const a = 1;
+// a11y-ignore-next-line img-atl -- typo
+const b = 2;
+// a11y-ignore-next-line next-skip-nav -- rule is off
+const c = 3;`);
+    filterSuppressed(createImgAltRule({ fillAlt: true }).scan(file), directives, DEFAULTS);
+    const problems = collectSuppressionProblems(
+      "test.tsx",
+      directives,
+      ["img-alt"],
+      [...KNOWN, "next-skip-nav"],
+      DEFAULTS
+    );
+    expect(problems.map((p) => [p.kind, p.line])).toEqual([
+      ["unused", 1],
+      ["unknown-rule", 3],
+    ]);
+  });
+});
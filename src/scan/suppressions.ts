@@ -0,0 +1,147 @@
+import type { SourceFile } from "ts-morph";
+import type { RuleId, Violation } from "./types.js";
+
+/**
+ * Inline suppression comments:
+ *
+ *   {/* a11y-ignore-next-line img-alt -- decorative divider *\/}
+ *   // a11y-ignore-next-line no-div-interactive, heading-order -- drag handle
+ *   // a11y-disable heading-order -- marketing layout   (whole file)
+ *   // a11y-disable                                      (whole file, all rules)
+ *
+ * Rules are separated by spaces or commas; everything after `--` is the reason.
+ */
+const DIRECTIVE_REGEX =
+  /(?:\/\/|\/\*)\s*a11y-(ignore-next-line|disable)(?=\s|\*\/|$)(.*?)(?:\*\/|$)/;
+
+export interface SuppressionDirective {
+  kind: "next-line" | "file";
+  /** Rule ids the directive applies to; empty = all rules */
+  rules: string[];
+  reason?: string;
+  /** 1-based line of the comment */
+  line: number;
+  text: string;
+  /** Rule ids that actually suppressed a violation */
+  usedBy: Set<string>;
+}
+
+export type SuppressionProblemKind = "unused" | "missing-reason" | "unknown-rule";
+
+export interface SuppressionProblem {
+  kind: SuppressionProblemKind;
+  filePath: string;
+  line: number;
+  directive: string;
+  message: string;
+}
+
+export interface SuppressionOptions {
+  /** Directives without a `-- reason` are ignored and reported */
+  requireReason: boolean;
+  /** Report directives that did not suppress any violation */
+  reportUnused: boolean;
+}
+
+export function parseSuppressions(file: SourceFile): SuppressionDirective[] {
+  const directives: SuppressionDirective[] = [];
+  const lines = file.getFullText().split("\n");
+
+  lines.forEach((lineText, i) => {
+    const match = DIRECTIVE_REGEX.exec(lineText);
+    if (!match) return;
+
+    const [, kind, body] = match;
+    const [rulesPart, ...reasonParts] = body.split("--");
+    const reason = reasonParts.join("--").trim();
+
+    directives.push({
+      kind: kind === "disable" ? "file" : "next-line",
+      rules: rulesPart.split(/[\s,]+/).filter(Boolean),
+      reason: reason || undefined,
+      line: i + 1,
+      text: match[0].replace(/^(\/\/|\/\*)\s*/, "").replace(/\s*\*\/$/, "").trim(),
+      usedBy: new Set(),
+    });
+  });
+
+  return directives;
+}
+
+/**
+ * Drop violations covered by a directive. Marks matching directives as used.
+ */
+export function filterSuppressed(
+  violations: Violation[],
+  directives: SuppressionDirective[],
+  options: SuppressionOptions
+): Violation[] {
+  if (directives.length === 0) return violations;
+
+  return violations.filter((v) => {
+    const directive = directives.find(
+      (d) =>
+        (!options.requireReason || d.reason) &&
+        (d.rules.length === 0 || d.rules.includes(v.rule)) &&
+        (d.kind === "file" || d.line + 1 === v.line)
+    );
+    if (!directive) return true;
+    directive.usedBy.add(v.rule);
+    return false;
+  });
+}
+
+/**
+ * Problems with a file's directives, checked after all rules ran.
+ * `activeRules` are rules that scanned the file; `knownRules` are all valid ids.
+ */
+export function collectSuppressionProblems(
+  filePath: string,
+  directives: SuppressionDirective[],
+  activeRules: RuleId[],
+  knownRules: string[],
+  options: SuppressionOptions
+): SuppressionProblem[] {
+  const problems: SuppressionProblem[] = [];
+
+  for (const d of directives) {
+    const unknown = d.rules.filter((r) => !knownRules.includes(r));
+    if (unknown.length > 0) {
+      problems.push({
+        kind: "unknown-rule",
+        filePath,
+        line: d.line,
+        directive: d.text,
+        message: `Unknown rule${unknown.length > 1 ? "s" : ""} in suppression: ${unknown.join(", ")}`,
+      });
+    }
+
+    if (options.requireReason && !d.reason) {
+      problems.push({
+        kind: "missing-reason",
+        filePath,
+        line: d.line,
+        directive: d.text,
+        message: 'Suppression ignored — add a reason after "--"',
+      });
+      continue;
+    }
+
+    if (!options.reportUnused || d.usedBy.size > 0) continue;
+    // Only rules that actually ran could have matched
+    const checkable = d.rules.length === 0
+      ? activeRules.length > 0
+      : d.rules.some((r) => (activeRules as string[]).includes(r));
+    if (!checkable) continue;
+
+    problems.push({
+      kind: "unused",
+      filePath,
+      line: d.line,
+      directive: d.text,
+      message: "Unused suppression — no matching violation",
+    });
+  }
+
+  return problems;
+}
@@ -1,10 +1,14 @@
-import type { SourceFile, JsxOpeningElement, JsxSelfClosingElement } from "ts-morph";
+import type { SourceFile, JsxOpeningElement, JsxSelfClosingElement, SyntaxKind } from "ts-morph";
+import type { SuppressionProblem } from "./suppressions.js";
 
-export type RuleId =
+export type BuiltinRuleId =
   | "img-alt"
   | "button-label"
   | "link-label"
   | "input-label"
+  | "iframe-title"
+  | "media-captions"
+  | "svg-label"
   | "html-lang"
   | "emoji-alt"
   | "no-positive-tabindex"
@@ -15,7 +19,11 @@ export type RuleId =
   | "next-link-no-nested-a"
   | "next-skip-nav"
   | "heading-order"
-  | "no-div-interactive";
+  | "no-div-interactive"
+  | "aria-valid";
+
+/** Built-in rule ids plus ids of custom rules registered through config `plugins` */
+export type RuleId = BuiltinRuleId | (string & {});
 
 export type RuleSetting = "fix" | "warn" | "off";
 
@@ -24,15 +32,38 @@ export type RuleType = "ai" | "deterministic" | "detect";
 export type FixType =
   | "insert-attr"
   | "replace-attr"
+  | "rename-attr"
+  | "remove-attr"
   | "insert-element"
   | "insert-metadata"
   | "wrap-element"
+  | "replace-tag"
   | "remove-element";
 
 export interface Fix {
   type: FixType;
   attribute?: string;
   value: string | (() => Promise<string>);
+  /** AI-generated values: the model's confidence (0-1) */
+  confidence?: number;
+  /** AI-generated values: why the model chose this value */
+  rationale?: string;
+  /** Localized routes: the `[locale]` param selecting one of `values` at runtime */
+  localeParam?: string;
+  /** Value per supported locale, generated when `localeParam` is set */
+  values?: Record<string, string>;
+}
+
+/**
+ * Stable reference to the node a violation was reported on, taken at scan time.
+ * Re-resolved after each applied fix (see apply/anchor.ts).
+ */
+export interface NodeAnchor {
+  /** Start offset of the node (JsxText: of the reported text, e.g. one emoji) */
+  start: number;
+  kind: SyntaxKind;
+  /** Tag name for JSX elements, attribute name for JSX attributes */
+  tag?: string;
 }
 
 export interface Violation {
@@ -43,6 +74,8 @@ export interface Violation {
   element: string;
   message: string;
   fix?: Fix;
+  /** Node the fix targets; violations without one fall back to line matching */
+  anchor?: NodeAnchor;
 }
 
 export type JsxElement = JsxOpeningElement | JsxSelfClosingElement;
@@ -53,6 +86,45 @@ export interface Rule {
   scan(file: SourceFile): Violation[];
 }
 
+/**
+ * Rule registered by a config plugin. Flows through detection, fixing, scoring
+ * and reporting like a built-in rule.
+ */
+export interface CustomRule extends Rule {
+  /** Score deduction per violation (default 1) */
+  weight?: number;
+  /** Short tag shown in the text report, e.g. "ds" (default "ext") */
+  icon?: string;
+  /** Plural summary for the report, e.g. "buttons without variant" */
+  description?: string;
+  /** Longer explanation used in SARIF rule help */
+  help?: string;
+  /** Level when the rule is not listed in config `rules` (default "warn") */
+  defaultLevel?: RuleSetting;
+  /**
+   * Custom fix applier. Return true if the file was changed. Without it,
+   * violation fixes use the built-in fix types (insert-attr, replace-attr, ...).
+   */
+  applyFix?(file: SourceFile, violation: Violation): boolean | Promise<boolean>;
+}
+
+export type FixedViolation = {
+  filePath: string;
+  line: number;
+  rule: string;
+  message: string;
+  fixAttribute?: string;
+  fixType?: string;
+  fixValue?: string;
+  fixElement?: string;
+};
+
+/** A fix that was skipped because an applied fix already changed the same node */
+export interface FixConflict {
+  violation: Violation;
+  conflictsWith: Violation;
+}
+
 export interface ScanResult {
   violations: Violation[];
   filesScanned: number;
@@ -60,4 +132,13 @@ export interface ScanResult {
   score: number;
   previousScore?: number;
   fixedCount: number;
+  fixed?: FixedViolation[];
+  /** Violations hidden because they are recorded in the baseline file */
+  baselineSuppressed?: number;
+  /** Unused, unknown or reason-less inline suppression comments */
+  suppressionProblems?: SuppressionProblem[];
+  /** Fixes skipped because they target the same node as an applied fix */
+  conflicts?: FixConflict[];
+  /** Unified diff of the fixes — set instead of writing files on --dry-run */
+  patch?: string;
 }
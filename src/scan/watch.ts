@@ -0,0 +1,203 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ResolvedConfig } from "../config/schema.js";
+import type { ScanResult, Violation } from "./types.js";
+import { detect, scanFile } from "./scan.js";
+import type { ScanContext } from "./scan.js";
+import { computeScore } from "./score.js";
+import { matchesScanPatterns } from "./glob.js";
+import { applyBaseline, fingerprintViolations } from "../baseline/baseline.js";
+
+export interface WatchDiff {
+  /** Files that were re-scanned (changed, created or deleted) */
+  files: string[];
+  /** Violations that did not exist before this run */
+  introduced: Violation[];
+  /** Violations from the previous run that are gone */
+  resolved: Violation[];
+}
+
+export interface WatchUpdate extends WatchDiff {
+  result: ScanResult;
+}
+
+export interface WatchOptions {
+  onUpdate: (update: WatchUpdate) => void;
+  onError?: (err: Error) => void;
+  /** Wait for saves to settle before re-scanning (default: 100ms) */
+  debounceMs?: number;
+}
+
+export interface WatchSession {
+  ctx: ScanContext;
+  /** Result of the initial full scan */
+  initial: ScanResult;
+  close(): void;
+}
+
+const IGNORED_DIRS = new Set(["node_modules", ".git", ".next"]);
+
+/**
+ * Scan once, then keep the Project in memory and re-run rules only for files
+ * that change on disk. Report-only: fixes are never applied while watching.
+ */
+export async function watchScan(
+  targetPath: string,
+  config: ResolvedConfig,
+  options: WatchOptions
+): Promise<WatchSession> {
+  const ctx = await detect(targetPath, config);
+  const initial = buildWatchResult(ctx);
+  let previousScore = initial.score;
+
+  const cacheDir = path.resolve(config.cache);
+  const pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = () => {
+    timer = undefined;
+    const files = [...pending];
+    pending.clear();
+    try {
+      const diff = rescanFiles(ctx, files);
+      if (diff.files.length === 0) return;
+      const result = buildWatchResult(ctx, previousScore);
+      previousScore = result.score;
+      options.onUpdate({ ...diff, result });
+    } catch (err) {
+      options.onError?.(err as Error);
+    }
+  };
+
+  const watcher = fs.watch(ctx.root, { recursive: true }, (_event, filename) => {
+    if (!filename) return;
+    const filePath = path.join(ctx.root, filename.toString());
+    if (filePath.startsWith(cacheDir + path.sep)) return;
+    if (filename.toString().split(path.sep).some((segment) => IGNORED_DIRS.has(segment))) return;
+
+    pending.add(filePath);
+    clearTimeout(timer);
+    timer = setTimeout(flush, options.debounceMs ?? 100);
+  });
+  watcher.on("error", (err) => options.onError?.(err));
+
+  return {
+    ctx,
+    initial,
+    close() {
+      clearTimeout(timer);
+      watcher.close();
+    },
+  };
+}
+
+/**
+ * Re-read the given files from disk and re-run rules on them only.
+ * Updates ctx.violations in place and returns what changed. Violations are
+ * matched by baseline fingerprint, so edits that only shift lines are no-ops.
+ */
+export function rescanFiles(ctx: ScanContext, filePaths: string[]): WatchDiff {
+  const { project, config } = ctx;
+  const root = config.baseline ? path.dirname(config.baseline) : ctx.root;
+  const diff: WatchDiff = { files: [], introduced: [], resolved: [] };
+
+  for (const filePath of new Set(filePaths.map((f) => path.resolve(f)))) {
+    const existing = project.getSourceFile(filePath);
+    const exists = fs.existsSync(filePath) && fs.statSync(filePath).isFile();
+
+    if (existing) {
+      if (exists && fs.readFileSync(filePath, "utf-8") === existing.getFullText()) continue;
+    } else if (
+      !exists ||
+      !matchesScanPatterns(filePath, ctx.root, config.scanner.include, config.scanner.exclude)
+    ) {
+      continue;
+    }
+
+    // Fingerprints of the old violations must be computed against the old AST
+    const key = existing?.getFilePath() ?? filePath;
+    const before = fingerprintViolations(
+      project,
+      ctx.violations.filter((v) => v.filePath === key),
+      root
+    );
+    const elementsBefore = existing?.getDescendants().length ?? 0;
+
+    let after = new Map<Violation, string>();
+    if (exists) {
+      let sourceFile = existing;
+      try {
+        if (sourceFile) {
+          sourceFile.refreshFromFileSystemSync();
+        } else {
+          sourceFile = project.addSourceFileAtPath(filePath);
+          ctx.filesScanned++;
+        }
+      } catch {
+        // Unreadable mid-save; the next change event will retry
+        continue;
+      }
+      const fileResult = scanFile(sourceFile, ctx.rules, config);
+      after = fingerprintViolations(project, fileResult.violations, root);
+      ctx.elementsScanned += fileResult.elementsScanned - elementsBefore;
+      ctx.suppressionProblems = [
+        ...ctx.suppressionProblems.filter((p) => p.filePath !== key),
+        ...fileResult.suppressionProblems,
+      ];
+    } else if (existing) {
+      project.removeSourceFile(existing);
+      ctx.filesScanned--;
+      ctx.elementsScanned -= elementsBefore;
+      ctx.suppressionProblems = ctx.suppressionProblems.filter((p) => p.filePath !== key);
+    }
+
+    ctx.violations = [...ctx.violations.filter((v) => v.filePath !== key), ...after.keys()];
+    if (ctx.fingerprints) {
+      for (const v of before.keys()) ctx.fingerprints.delete(v);
+      for (const [v, fp] of after) ctx.fingerprints.set(v, fp);
+    }
+
+    diff.files.push(key);
+    diff.introduced.push(...unmatched(after, before));
+    diff.resolved.push(...unmatched(before, after));
+  }
+
+  return diff;
+}
+
+/** Violations in `from` with no counterpart (same fingerprint) in `to` */
+function unmatched(from: Map<Violation, string>, to: Map<Violation, string>): Violation[] {
+  const available = new Map<string, number>();
+  for (const fp of to.values()) available.set(fp, (available.get(fp) ?? 0) + 1);
+
+  const result: Violation[] = [];
+  for (const [v, fp] of from) {
+    const left = available.get(fp) ?? 0;
+    if (left > 0) available.set(fp, left - 1);
+    else result.push(v);
+  }
+  return result;
+}
+
+function buildWatchResult(ctx: ScanContext, previousScore?: number): ScanResult {
+  const score = computeScore(ctx.violations, ctx.config.customRules);
+
+  let violations = ctx.violations;
+  let baselineSuppressed: number | undefined;
+  if (ctx.baseline && ctx.fingerprints) {
+    const { newViolations, suppressed } = applyBaseline(ctx.baseline, violations, ctx.fingerprints);
+    violations = newViolations;
+    baselineSuppressed = suppressed;
+  }
+
+  return {
+    violations,
+    filesScanned: ctx.filesScanned,
+    elementsScanned: ctx.elementsScanned,
+    score,
+    previousScore,
+    fixedCount: 0,
+    baselineSuppressed,
+    suppressionProblems: ctx.suppressionProblems,
+  };
+}
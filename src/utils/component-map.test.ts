@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { Project } from "ts-morph";
+import { getMappedComponent } from "./component-map.js";
+import { resolveComponentConfig } from "../config/schema.js";
+
+function createFile(code: string) {
+  const project = new Project({ useInMemoryFileSystem: true });
+  return project.createSourceFile("test.tsx", code);
+}
+
+const components = {
+  IconButton: resolveComponentConfig("IconButton", { as: "button", nameProp: "label", from: "@acme/ui" }),
+  Avatar: resolveComponentConfig("Avatar", "img"),
+};
+
+describe("getMappedComponent", () => {
+  it("matches by component name", () => {
+    const file = createFile(`const x = <Avatar />;`);
+    expect(getMappedComponent(file, "Avatar", components)).toEqual({ as: "img", nameProp: "alt" });
+  });
+
+  it("follows named import aliases", () => {
+    const file = createFile(`import { IconButton as Btn } from "@acme/ui";`);
+    expect(getMappedComponent(file, "Btn", components)?.as).toBe("button");
+  });
+
+  it("follows namespace imports", () => {
+    const file = createFile(`import * as UI from "@acme/ui/buttons";`);
+    expect(getMappedComponent(file, "UI.IconButton", components)?.nameProp).toBe("label");
+  });
+
+  it("requires the import source when from is set", () => {
+    const local = createFile(`const x = <IconButton />;`);
+    const other = createFile(`import { IconButton } from "@acme/uikit";`);
+    expect(getMappedComponent(local, "IconButton", components)).toBeUndefined();
+    expect(getMappedComponent(other, "IconButton", components)).toBeUndefined();
+  });
+
+  it("never maps intrinsic elements", () => {
+    const file = createFile(`const x = <button />;`);
+    expect(getMappedComponent(file, "button", { button: components.Avatar })).toBeUndefined();
+  });
+});
+
+describe("resolveComponentConfig", () => {
+  it("rejects unknown elements", () => {
+    expect(() => resolveComponentConfig("Card", "div" as any)).toThrow(/unknown element "div"/);
+  });
+});
@@ -0,0 +1,53 @@
+import type { SourceFile } from "ts-morph";
+import type { ResolvedComponentConfig } from "../config/schema.js";
+
+export type ComponentMap = Record<string, ResolvedComponentConfig>;
+
+/**
+ * Mapping for a JSX tag from config `components`, if any.
+ *
+ * Follows imports so aliases resolve to the exported name:
+ * `import { IconButton as Btn } from "@acme/ui"` → <Btn> matches "IconButton",
+ * and `import * as UI from "@acme/ui"` → <UI.IconButton> matches "IconButton".
+ * Mappings with `from` only match components imported from that module.
+ */
+export function getMappedComponent(
+  file: SourceFile,
+  tagName: string,
+  components: ComponentMap | undefined
+): ResolvedComponentConfig | undefined {
+  if (!components || Object.keys(components).length === 0) return undefined;
+  // Intrinsic elements (<button>, <img>) are never mapped
+  if (!tagName.includes(".") && !/^[A-Z]/.test(tagName)) return undefined;
+
+  const { name, source } = resolveImportedName(file, tagName);
+  const mapping = Object.prototype.hasOwnProperty.call(components, name) ? components[name] : undefined;
+  if (!mapping) return undefined;
+  if (mapping.from && !(source && (source === mapping.from || source.startsWith(mapping.from + "/")))) {
+    return undefined;
+  }
+  return mapping;
+}
+
+function resolveImportedName(
+  file: SourceFile,
+  tagName: string
+): { name: string; source?: string } {
+  const [head, ...rest] = tagName.split(".");
+  const member = rest[rest.length - 1];
+
+  for (const imp of file.getImportDeclarations()) {
+    const source = imp.getModuleSpecifierValue();
+    if (member) {
+      if (imp.getNamespaceImport()?.getText() === head) return { name: member, source };
+      continue;
+    }
+    if (imp.getDefaultImport()?.getText() === tagName) return { name: tagName, source };
+    const named = imp
+      .getNamedImports()
+      .find((n) => (n.getAliasNode()?.getText() ?? n.getName()) === tagName);
+    if (named) return { name: named.getName(), source };
+  }
+
+  return { name: member ?? tagName };
+}
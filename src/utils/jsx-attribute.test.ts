@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { Project, SyntaxKind } from "ts-morph";
+import { getLiteralValue, getStringValue } from "./jsx-attribute.js";
+
+function createElement(code: string) {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const file = project.createSourceFile("test.tsx", `const x = ${code};`);
+  return file.getFirstDescendantByKindOrThrow(SyntaxKind.JsxSelfClosingElement);
+}
+
+describe("getStringValue", () => {
+  it("reads string literals, also inside braces", () => {
+    const el = createElement(`<video src="/a.mp4" kind={"captions"} lang={\`en\`} />`);
+    expect(getStringValue(el, "src")).toBe("/a.mp4");
+    expect(getStringValue(el, "kind")).toBe("captions");
+    expect(getStringValue(el, "lang")).toBe("en");
+  });
+
+  it("returns undefined for dynamic, non-string and missing values", () => {
+    const el = createElement(`<video src={url} controls muted={true} />`);
+    expect(getStringValue(el, "src")).toBeUndefined();
+    expect(getStringValue(el, "controls")).toBeUndefined();
+    expect(getStringValue(el, "muted")).toBeUndefined();
+    expect(getStringValue(el, "title")).toBeUndefined();
+  });
+});
+
+describe("getLiteralValue", () => {
+  it("also reads booleans, numbers and bare attributes", () => {
+    const el = createElement(`<div aria-hidden aria-busy={false} aria-level={2} role="tab" aria-label={label} />`);
+    expect(getLiteralValue(el, "aria-hidden")).toBe("true");
+    expect(getLiteralValue(el, "aria-busy")).toBe("false");
+    expect(getLiteralValue(el, "aria-level")).toBe("2");
+    expect(getLiteralValue(el, "role")).toBe("tab");
+    expect(getLiteralValue(el, "aria-label")).toBeUndefined();
+  });
+});
@@ -0,0 +1,30 @@
+import { SyntaxKind } from "ts-morph";
+import type { JsxElement } from "../scan/types.js";
+
+/** String literal value of an attribute (also {"..."}); undefined when dynamic or missing */
+export function getStringValue(el: JsxElement, name: string): string | undefined {
+  const init = el.getAttribute(name)?.asKind(SyntaxKind.JsxAttribute)?.getInitializer();
+  if (!init) return undefined;
+  if (init.isKind(SyntaxKind.StringLiteral)) return init.getLiteralValue();
+  const expr = init.asKind(SyntaxKind.JsxExpression)?.getExpression();
+  if (expr?.isKind(SyntaxKind.StringLiteral) || expr?.isKind(SyntaxKind.NoSubstitutionTemplateLiteral)) {
+    return expr.getLiteralValue();
+  }
+  return undefined;
+}
+
+/**
+ * Literal attribute value as the DOM sees it: a string, {true}, {3}, or a bare
+ * attribute (`aria-hidden` means "true"). Undefined when dynamic or missing.
+ */
+export function getLiteralValue(el: JsxElement, name: string): string | undefined {
+  const attr = el.getAttribute(name)?.asKind(SyntaxKind.JsxAttribute);
+  if (!attr) return undefined;
+  const init = attr.getInitializer();
+  if (!init) return "true";
+  const expr = init.asKind(SyntaxKind.JsxExpression)?.getExpression();
+  if (expr?.isKind(SyntaxKind.TrueKeyword) || expr?.isKind(SyntaxKind.FalseKeyword) || expr?.isKind(SyntaxKind.NumericLiteral)) {
+    return expr.getText();
+  }
+  return getStringValue(el, name);
+}
@@ -0,0 +1,155 @@
+/**
+ * Structured AI answers: low-confidence labels stay warnings (or go to
+ * interactive review), decorative images get alt="", and answers failing
+ * validation are retried with feedback or dropped.
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { detect, applyAllFixes, finalize, scan } from "../../src/scan/scan.js";
+import { resolveConfig } from "../../src/config/resolve.js";
+import { prepareAiRequest, resolveAiFixes } from "../../src/ai/resolve-fixes.js";
+import { estimateTokens } from "../../src/ai/generate.js";
+import type { MockProviderOptions } from "../../src/config/schema.js";
+
+let tmpDir: string;
+
+function writePage(body: string) {
+  fs.writeFileSync(
+    path.join(tmpDir, "src/Page.tsx"),
+    `export function Page() {\n  return (\n    <div>\n${body}\n    </div>\n  );\n}\n`
+  );
+}
+
+function readPage() {
+  return fs.readFileSync(path.join(tmpDir, "src/Page.tsx"), "utf-8");
+}
+
+function config(mock: MockProviderOptions, flags: { interactive?: boolean; budget?: number } = {}) {
+  return resolveConfig(
+    { provider: "mock", cache: path.join(tmpDir, ".a11y-cache"), providers: { mock } },
+    { fix: true, quiet: true, ...flags }
+  );
+}
+
+beforeEach(() => {
+  tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "next-a11y-confidence-")));
+  fs.mkdirSync(path.join(tmpDir, "src"));
+  fs.mkdirSync(path.join(tmpDir, "public"));
+  fs.writeFileSync(path.join(tmpDir, "package.json"), "{}");
+  fs.writeFileSync(path.join(tmpDir, "public/hero.png"), Buffer.from("fake png bytes"));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("AI confidence", () => {
+  const responses = {
+    MysteryIcon: { label: "Open surprise", confidence: 0.3, rationale: "Icon name is ambiguous" },
+    RocketLaunchIcon: { label: "Launch", confidence: 0.95 },
+  };
+
+  it("leaves low-confidence fixes as warnings with the suggestion", async () => {
+    writePage(`      <button type="button"><MysteryIcon /></button>
+      <button type="button"><RocketLaunchIcon /></button>`);
+    const cfg = config({ responses });
+    const ctx = await detect(path.join(tmpDir, "src"), cfg);
+    const summary = await resolveAiFixes({ config: cfg, project: ctx.project, violations: ctx.violations });
+    const { fixedCount, fixed } = await applyAllFixes(ctx, ctx.violations);
+    await finalize(ctx, fixedCount, fixed);
+
+    expect(summary.lowConfidence).toBe(1);
+    const page = readPage();
+    expect(page).toContain('aria-label="Launch"');
+    expect(page).not.toContain("Open surprise");
+    const warning = ctx.violations.find((v) => v.rule === "button-label" && !v.fix)!;
+    expect(warning.message).toContain('AI suggestion "Open surprise" below confidence threshold: 30%');
+  });
+
+  it("keeps low-confidence fixes for interactive review", async () => {
+    writePage(`      <button type="button"><MysteryIcon /></button>`);
+    const cfg = config({ responses }, { interactive: true });
+    const ctx = await detect(path.join(tmpDir, "src"), cfg);
+    await resolveAiFixes({ config: cfg, project: ctx.project, violations: ctx.violations });
+
+    expect(ctx.violations[0].fix).toMatchObject({
+      value: "Open surprise",
+      confidence: 0.3,
+      rationale: "Icon name is ambiguous",
+    });
+  });
+
+  it("respects ai.minConfidence", async () => {
+    writePage(`      <button type="button"><MysteryIcon /></button>`);
+    const cfg = config({ responses });
+    cfg.ai.minConfidence = 0.2;
+    await scan(path.join(tmpDir, "src"), cfg);
+
+    expect(readPage()).toContain('aria-label="Open surprise"');
+  });
+
+  it("gives decorative images an empty alt", async () => {
+    writePage(`      <img src="/hero.png" />`);
+    await scan(path.join(tmpDir, "src"), config({ responses: { Page: { label: "", decorative: true } } }));
+
+    expect(readPage()).toContain('<img src="/hero.png" alt="" />');
+  });
+});
+
+describe("AI validation", () => {
+  it("retries a rejected answer with feedback", async () => {
+    writePage(`      <button type="button"><RocketLaunchIcon /></button>`);
+    const prompts: string[] = [];
+    await scan(
+      path.join(tmpDir, "src"),
+      config({
+        responses: { "was rejected": "Launch", RocketLaunchIcon: '"Button that launches"' },
+        onRequest: (r) => prompts.push(r.prompt),
+      })
+    );
+
+    expect(readPage()).toContain('aria-label="Launch"');
+    expect(prompts[1]).toContain('Your previous answer "Button that launches" was rejected: starts with "Button"');
+  });
+
+  it("drops the fix when every answer is rejected", async () => {
+    writePage(`      <figure>
+        <img src="/hero.png" />
+        <figcaption>Our team</figcaption>
+      </figure>`);
+    const cfg = config({ responses: { Page: "Our team" } });
+    const ctx = await detect(path.join(tmpDir, "src"), cfg);
+    const summary = await resolveAiFixes({ config: cfg, project: ctx.project, violations: ctx.violations });
+
+    expect(summary.rejected).toBe(1);
+    const img = ctx.violations.find((v) => v.rule === "img-alt")!;
+    expect(img.fix).toBeUndefined();
+    expect(img.message).toContain('AI suggestion "Our team" rejected: repeats the visible text next to it');
+  });
+
+  it("doesn't retry past the token budget", async () => {
+    writePage(`      <button type="button"><RocketLaunchIcon /></button>`);
+    const prompts: string[] = [];
+    const mock: MockProviderOptions = {
+      responses: { RocketLaunchIcon: '"Button that launches"' },
+      onRequest: (r) => prompts.push(r.prompt),
+    };
+    const probe = await detect(path.join(tmpDir, "src"), config(mock));
+    const request = await prepareAiRequest(
+      probe.project,
+      probe.project.getSourceFileOrThrow(path.join(tmpDir, "src/Page.tsx")),
+      probe.violations[0],
+      probe.config
+    );
+    // Covers the first attempt, not the first attempt's usage plus a retry
+    const cfg = config(mock, { budget: estimateTokens(request!.system, request!.prompt) });
+    const ctx = await detect(path.join(tmpDir, "src"), cfg);
+    const summary = await resolveAiFixes({ config: cfg, project: ctx.project, violations: ctx.violations });
+
+    expect(prompts).toHaveLength(1);
+    expect(summary.rejected).toBe(1);
+    expect(ctx.violations[0].fix).toBeUndefined();
+  });
+});
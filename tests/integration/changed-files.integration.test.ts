@@ -0,0 +1,80 @@
+/**
+ * --changed / --since: only files changed relative to a git ref are scanned.
+ */
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { execFileSync } from "node:child_process";
+import { detect } from "../../src/scan/scan.js";
+import { getChangedFiles } from "../../src/scan/git.js";
+import { resolveConfig } from "../../src/config/resolve.js";
+
+let tmpDir: string;
+
+function git(...args: string[]) {
+  execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+    cwd: tmpDir,
+    stdio: "ignore",
+  });
+}
+
+function write(file: string, content: string) {
+  fs.mkdirSync(path.dirname(path.join(tmpDir, file)), { recursive: true });
+  fs.writeFileSync(path.join(tmpDir, file), content);
+}
+
+beforeAll(() => {
+  tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "next-a11y-changed-")));
+  git("init", "-q", "-b", "main");
+  write("Untouched.tsx", `export function Untouched() { return <button>Old</button>; }\n`);
+  write("Edited.tsx", `export function Edited() { return <p>Hi</p>; }\n`);
+  write("Icon.tsx", `export function Icon() { return <button>Icon</button>; }\n`);
+  git("add", "-A");
+  git("commit", "-q", "-m", "init");
+
+  git("checkout", "-q", "-b", "feature");
+  write("Committed.tsx", `import { Icon } from "./Icon";\nexport function Committed() { return <><Icon /><button>Go</button></>; }\n`);
+  git("add", "-A");
+  git("commit", "-q", "-m", "feature");
+
+  write("Edited.tsx", `export function Edited() { return <button>Hi</button>; }\n`);
+  write("New.tsx", `export function New() { return <button>New</button>; }\n`);
+});
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("getChangedFiles", () => {
+  it("returns uncommitted and untracked files relative to HEAD", () => {
+    const files = getChangedFiles(tmpDir).map((f) => path.basename(f)).sort();
+    expect(files).toEqual(["Edited.tsx", "New.tsx"]);
+  });
+
+  it("includes commits since the merge base with the ref", () => {
+    const files = getChangedFiles(tmpDir, "main").map((f) => path.basename(f)).sort();
+    expect(files).toEqual(["Committed.tsx", "Edited.tsx", "New.tsx"]);
+  });
+
+  it("throws on an unknown ref", () => {
+    expect(() => getChangedFiles(tmpDir, "does-not-exist")).toThrow(/Unknown git ref/);
+  });
+});
+
+describe("detect with changedSince", () => {
+  it("scans only changed files but loads their imports", async () => {
+    const config = resolveConfig(
+      { rules: { "button-type": "fix" } },
+      { noAi: true, quiet: true, changedSince: "main" }
+    );
+    const ctx = await detect(tmpDir, config);
+
+    expect(ctx.filesScanned).toBe(3);
+    const files = [...new Set(ctx.violations.map((v) => path.basename(v.filePath)))].sort();
+    expect(files).toEqual(["Committed.tsx", "Edited.tsx", "New.tsx"]);
+    // Imported by a changed file: loaded for resolution, not scanned
+    expect(ctx.project.getSourceFile(path.join(tmpDir, "Icon.tsx"))).toBeDefined();
+    expect(ctx.project.getSourceFile(path.join(tmpDir, "Untouched.tsx"))).toBeUndefined();
+  });
+});
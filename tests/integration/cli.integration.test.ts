@@ -63,6 +63,15 @@ describe("CLI smoke", () => {
     expect(r.stdout + r.stderr).toMatch(/\d+\s+fixable|\d+\s+files|Scanned/);
   });
 
+  it("scan --format json prints a machine-readable report", () => {
+    const r = run(["scan", tmpDir, "--no-ai", "--format", "json"]);
+    expect(r.status).toBe(0);
+    const report = JSON.parse(r.stdout);
+    expect(report.schemaVersion).toBe(1);
+    expect(report.summary.filesScanned).toBeGreaterThanOrEqual(1);
+    expect(report.violations.some((v: { rule: string }) => v.rule === "link-noopener")).toBe(true);
+  });
+
   it("scan --fix --no-ai applies deterministic fixes", () => {
     const r = run(["scan", tmpDir, "--fix", "--no-ai"]);
     expect(r.status).toBe(0);
@@ -91,4 +100,24 @@ describe("CLI smoke", () => {
     const config = fs.readFileSync(configPath, "utf-8");
     expect(config).toContain('locale: "pl"');
   });
+
+  it("cache commands report an invalid config without a stack trace", () => {
+    const cacheDir = path.join(tmpDir, "cache-invalid-config");
+    fs.mkdirSync(cacheDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(cacheDir, "a11y.config.mjs"),
+      `export default { rules: { "no-div-interactive": { level: "fix", strategy: "link" } } };`,
+      "utf-8"
+    );
+    for (const command of [["stats"], ["clear"], ["prune"]]) {
+      const r = spawnSync("node", [BIN, "cache", ...command], {
+        cwd: cacheDir,
+        encoding: "utf-8",
+        env: { ...process.env, FORCE_COLOR: "0" },
+      });
+      expect(r.status).toBe(1);
+      expect(r.stderr).toContain("Error:");
+      expect(r.stderr).not.toMatch(/\n\s+at /);
+    }
+  });
 });
@@ -0,0 +1,177 @@
+/**
+ * Custom rules registered through config plugins run through detection,
+ * fixing, scoring and reporting like built-in rules.
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { Node, SyntaxKind } from "ts-morph";
+import { scan } from "../../src/scan/scan.js";
+import { resolveConfig } from "../../src/config/resolve.js";
+import { definePlugin, defineRule } from "../../src/config/schema.js";
+import { formatReport } from "../../src/cli/format.js";
+import { buildSarifReport } from "../../src/report/sarif-report.js";
+import { createAnchor } from "../../src/apply/anchor.js";
+import type { A11yConfig } from "../../src/config/schema.js";
+import type { Violation } from "../../src/scan/types.js";
+
+const SOURCE = `import { Button, Icon } from "@acme/ui";
+
+export function Toolbar() {
+  return (
+    <div>
+      <Button>Save</Button>
+      <Icon name="close" />
+    </div>
+  );
+}
+`;
+
+/** Design-system <Button> needs an explicit variant — fixed via insert-attr */
+const buttonVariantRule = defineRule({
+  id: "ds-button-variant",
+  type: "deterministic",
+  weight: 4,
+  icon: "ds",
+  description: "design-system buttons without variant",
+  scan(file) {
+    const violations: Violation[] = [];
+    for (const el of file.getDescendantsOfKind(SyntaxKind.JsxOpeningElement)) {
+      if (el.getTagNameNode().getText() !== "Button" || el.getAttribute("variant")) continue;
+      violations.push({
+        rule: "ds-button-variant",
+        filePath: file.getFilePath(),
+        line: el.getStartLineNumber(),
+        column: el.getStart() - el.getStartLinePos(),
+        element: el.getText(),
+        message: "<Button> without variant",
+        fix: { type: "insert-attr", attribute: "variant", value: "primary" },
+        anchor: createAnchor(el),
+      });
+    }
+    return violations;
+  },
+});
+
+/** Decorative <Icon> should be hidden — fixed by a custom applier */
+const iconHiddenRule = defineRule({
+  id: "ds-icon-hidden",
+  type: "deterministic",
+  scan(file) {
+    return file
+      .getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement)
+      .filter((el) => el.getTagNameNode().getText() === "Icon" && !el.getAttribute("aria-hidden"))
+      .map((el) => ({
+        rule: "ds-icon-hidden",
+        filePath: file.getFilePath(),
+        line: el.getStartLineNumber(),
+        column: el.getStart() - el.getStartLinePos(),
+        element: el.getText(),
+        message: "<Icon> not hidden from assistive technology",
+        fix: { type: "insert-attr", attribute: "aria-hidden" },
+        anchor: createAnchor(el),
+      }));
+  },
+  applyFix(file, violation) {
+    const el = file
+      .getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement)
+      .find((e) => e.getStartLineNumber() === violation.line);
+    if (!el || !Node.isJsxSelfClosingElement(el)) return false;
+    el.addAttribute({ name: "aria-hidden", initializer: "{true}" });
+    return true;
+  },
+});
+
+const plugin = definePlugin({ name: "acme-ui", rules: [buttonVariantRule, iconHiddenRule] });
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "next-a11y-custom-rules-")));
+  fs.writeFileSync(path.join(tmpDir, "Toolbar.tsx"), SOURCE);
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function configFor(fileConfig: A11yConfig, fix = false) {
+  return resolveConfig(
+    { cache: path.join(tmpDir, ".a11y-cache"), ...fileConfig },
+    { fix, noAi: true, quiet: true }
+  );
+}
+
+describe("custom rules", () => {
+  it("reports custom violations with their weight", async () => {
+    const result = await scan(tmpDir, configFor({ plugins: [plugin] }));
+    const rules = result.violations.map((v) => v.rule).sort();
+
+    expect(rules).toEqual(["ds-button-variant", "ds-icon-hidden"]);
+    // 4 (custom weight) + 1 (default weight)
+    expect(result.score).toBe(95);
+  });
+
+  it("uses the rule's icon and description in the text report", async () => {
+    const config = configFor({ plugins: [plugin] });
+    const result = await scan(tmpDir, config);
+    const report = formatReport(result, false, false, config.customRules);
+
+    expect(report).toContain("[ds]");
+    expect(report).toContain("design-system buttons without variant");
+    expect(report).toContain("[ext]");
+  });
+
+  it("applies generic fixes and custom fix appliers", async () => {
+    const result = await scan(tmpDir, configFor({ plugins: [plugin] }, true));
+    const fixed = fs.readFileSync(path.join(tmpDir, "Toolbar.tsx"), "utf-8");
+
+    expect(result.fixedCount).toBe(2);
+    expect(result.violations).toHaveLength(0);
+    expect(fixed).toContain(`<Button variant="primary">Save</Button>`);
+    expect(fixed).toContain(`<Icon name="close" aria-hidden={true} />`);
+  });
+
+  it("honors levels from config rules", async () => {
+    const result = await scan(
+      tmpDir,
+      configFor({ plugins: [plugin], rules: { "ds-icon-hidden": "off" } })
+    );
+    expect(result.violations.map((v) => v.rule)).toEqual(["ds-button-variant"]);
+  });
+
+  it("adds custom rules to the SARIF rule list", async () => {
+    const config = configFor({ plugins: [plugin] });
+    const result = await scan(tmpDir, config);
+    const sarif = await buildSarifReport(result, { version: "0.0.0", root: tmpDir, customRules: config.customRules });
+    const { rules } = sarif.runs[0].tool.driver;
+    const descriptor = rules.find((r) => r.id === "ds-button-variant");
+
+    expect(descriptor?.shortDescription.text).toBe("design-system buttons without variant");
+    const sarifResult = sarif.runs[0].results.find((r) => r.ruleId === "ds-icon-hidden")!;
+    expect(rules[sarifResult.ruleIndex].id).toBe("ds-icon-hidden");
+  });
+
+  it("keeps each config's rules to itself", async () => {
+    const config = configFor({ plugins: [plugin] }, true);
+    // Resolving another config must not unregister the first one's rules
+    configFor({});
+    const result = await scan(tmpDir, config);
+
+    expect(result.fixedCount).toBe(2);
+    expect(fs.readFileSync(path.join(tmpDir, "Toolbar.tsx"), "utf-8")).toContain(`aria-hidden={true}`);
+  });
+
+  it("rejects invalid and clashing rules", () => {
+    expect(() =>
+      resolveConfig({ plugins: [{ name: "bad", rules: [{ ...buttonVariantRule, id: "img-alt" }] }] })
+    ).toThrow(/conflicts with a built-in rule/);
+    expect(() =>
+      resolveConfig({ plugins: [plugin, { name: "copy", rules: [iconHiddenRule] }] })
+    ).toThrow(/registered by more than one plugin/);
+    expect(() =>
+      resolveConfig({ plugins: [{ name: "bad", rules: [{ ...iconHiddenRule, scan: undefined as any }] }] })
+    ).toThrow(/has no scan\(\) function/);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * --fix --dry-run: fixes are applied in memory and returned as a unified diff.
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { execFileSync } from "node:child_process";
+import { scan } from "../../src/scan/scan.js";
+import { resolveConfig } from "../../src/config/resolve.js";
+
+const SOURCE = `export function Links() {
+  return (
+    <nav>
+      <a href="https://x.com" target="_blank">Twitter</a>
+      <button>Menu</button>
+    </nav>
+  );
+}
+`;
+
+let tmpDir: string;
+let cwd: string;
+
+beforeEach(() => {
+  tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "next-a11y-dry-run-")));
+  fs.mkdirSync(path.join(tmpDir, "src"));
+  fs.writeFileSync(path.join(tmpDir, "src/Links.tsx"), SOURCE);
+  cwd = process.cwd();
+  process.chdir(tmpDir);
+});
+
+afterEach(() => {
+  process.chdir(cwd);
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("dry run", () => {
+  it("returns a patch and leaves files untouched", async () => {
+    const config = resolveConfig(
+      { cache: path.join(tmpDir, ".a11y-cache") },
+      { fix: true, dryRun: true, noAi: true, quiet: true }
+    );
+    const result = await scan(path.join(tmpDir, "src"), config);
+
+    expect(result.fixedCount).toBe(2);
+    expect(fs.readFileSync(path.join(tmpDir, "src/Links.tsx"), "utf-8")).toBe(SOURCE);
+    expect(result.patch).toContain("--- a/src/Links.tsx");
+    expect(result.patch).toContain('+      <a href="https://x.com" target="_blank" rel="noopener noreferrer">Twitter</a>');
+    expect(result.patch).toContain('+      <button type="button">Menu</button>');
+    // Score history is not updated by a dry run
+    expect(fs.existsSync(path.join(tmpDir, ".a11y-cache"))).toBe(false);
+  });
+
+  it("produces a patch that git apply accepts", async () => {
+    const config = resolveConfig(
+      { cache: path.join(tmpDir, ".a11y-cache") },
+      { fix: true, dryRun: true, noAi: true, quiet: true }
+    );
+    const result = await scan(path.join(tmpDir, "src"), config);
+    fs.writeFileSync(path.join(tmpDir, "a11y.patch"), result.patch!);
+
+    execFileSync("git", ["apply", "a11y.patch"], { cwd: tmpDir });
+    const applied = fs.readFileSync(path.join(tmpDir, "src/Links.tsx"), "utf-8");
+    expect(applied).toContain('rel="noopener noreferrer"');
+    expect(applied).toContain('<button type="button">');
+  });
+});
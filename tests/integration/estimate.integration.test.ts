@@ -0,0 +1,111 @@
+/**
+ * --estimate counts pending AI work without calling a model, and ai.maxTokens
+ * stops generation, leaving the rest as warnings.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { detect } from "../../src/scan/scan.js";
+import { resolveConfig } from "../../src/config/resolve.js";
+import { estimateAiFixes } from "../../src/ai/estimate.js";
+import { resolveAiFixes } from "../../src/ai/resolve-fixes.js";
+import { FsCache } from "../../src/cache/fs-cache.js";
+import { IMG_ALT_SYSTEM_PROMPT } from "../../src/rules/img-alt/img-alt.prompt.js";
+
+const HERO = Buffer.from("fake png bytes");
+
+let tmpDir: string;
+
+function writePage(body: string) {
+  fs.writeFileSync(
+    path.join(tmpDir, "src/Page.tsx"),
+    `export function Page() {\n  return (\n    <div>\n${body}\n    </div>\n  );\n}\n`
+  );
+}
+
+function cacheHeroAlt() {
+  const cache = new FsCache(path.join(tmpDir, ".a11y-cache"));
+  const input = FsCache.hashContent(Buffer.concat([HERO, Buffer.from(":en", "utf8")]));
+  cache.set(FsCache.createKey(input, { system: IMG_ALT_SYSTEM_PROMPT, model: "gpt-4o-mini", locale: "en" }), {
+    value: "Team at the office",
+    model: "gpt-4o-mini",
+    locale: "en",
+    rule: "img-alt",
+    generatedAt: new Date().toISOString(),
+  });
+}
+
+function config(flags: { budget?: number } = {}) {
+  return resolveConfig(
+    { provider: "openai", cache: path.join(tmpDir, ".a11y-cache") },
+    { fix: true, quiet: true, ...flags }
+  );
+}
+
+beforeEach(() => {
+  tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "next-a11y-estimate-")));
+  fs.mkdirSync(path.join(tmpDir, "src"));
+  fs.mkdirSync(path.join(tmpDir, "public"));
+  fs.writeFileSync(path.join(tmpDir, "package.json"), "{}");
+  fs.writeFileSync(path.join(tmpDir, "public/hero.png"), HERO);
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  vi.unstubAllEnvs();
+});
+
+describe("AI estimate", () => {
+  it("counts requests, heuristics, unresolvable images and cost", async () => {
+    writePage(`      <img src="/hero.png" />
+      <img src="https://example.com/a.png" />
+      <img src={photo.url} />
+      <button><MysteryIcon /></button>
+      <button><CartIcon /></button>`);
+    const cfg = config();
+    const ctx = await detect(path.join(tmpDir, "src"), cfg);
+    const estimate = await estimateAiFixes({ config: cfg, project: ctx.project, violations: ctx.violations });
+
+    const img = estimate.rules.find((r) => r.rule === "img-alt")!;
+    expect(img).toMatchObject({ requests: 2, cached: 0, skipped: 1 });
+    const btn = estimate.rules.find((r) => r.rule === "button-label")!;
+    // CartIcon has a built-in label — no request
+    expect(btn).toMatchObject({ requests: 1, cached: 1 });
+    expect(estimate.remoteImages).toBe(1);
+    expect(estimate.inputTokens).toBeGreaterThan(2000); // two images at ~1000 tokens each
+    expect(estimate.costUsd).toBeGreaterThan(0);
+  });
+
+  it("subtracts cache hits", async () => {
+    writePage(`      <img src="/hero.png" />`);
+    cacheHeroAlt();
+    const cfg = config();
+    const ctx = await detect(path.join(tmpDir, "src"), cfg);
+    const estimate = await estimateAiFixes({ config: cfg, project: ctx.project, violations: ctx.violations });
+
+    expect(estimate.requests).toBe(0);
+    expect(estimate.cached).toBe(1);
+  });
+});
+
+describe("AI token budget", () => {
+  it("leaves AI fixes past the budget as warnings", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "test-key");
+    writePage(`      <img src="/hero.png" />
+      <button><MysteryIcon /></button>
+      <button><CartIcon /></button>`);
+    cacheHeroAlt();
+    const cfg = config({ budget: 1 });
+    const ctx = await detect(path.join(tmpDir, "src"), cfg);
+    const summary = await resolveAiFixes({ config: cfg, project: ctx.project, violations: ctx.violations });
+
+    expect(summary.skippedForBudget).toBe(1);
+    const byRule = (rule: string) => ctx.violations.filter((v) => v.rule === rule);
+    // Cache hits and icon heuristics cost nothing and still resolve
+    expect(byRule("img-alt")[0].fix?.value).toBe("Team at the office");
+    const labels = byRule("button-label").map((v) => v.fix?.value);
+    expect(labels).toContain("Add to cart");
+    expect(labels).toContain(undefined);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Labels for components that use next-intl / react-i18next go into the
+ * message catalogs (translated per locale) instead of the JSX.
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { scan } from "../../src/scan/scan.js";
+import { resolveConfig } from "../../src/config/resolve.js";
+import type { A11yConfig, MockProviderOptions } from "../../src/config/schema.js";
+
+let tmpDir: string;
+
+const HEADER = `import { useTranslations } from "next-intl";
+
+export function Header() {
+  const t = useTranslations("Header");
+  return (
+    <nav>
+      <button><MysteryIcon /></button>
+    </nav>
+  );
+}
+`;
+
+function writeJson(file: string, data: unknown) {
+  fs.mkdirSync(path.dirname(path.join(tmpDir, file)), { recursive: true });
+  fs.writeFileSync(path.join(tmpDir, file), JSON.stringify(data, null, 2) + "\n");
+}
+
+function readJson(file: string) {
+  return JSON.parse(fs.readFileSync(path.join(tmpDir, file), "utf-8"));
+}
+
+function read(file: string) {
+  return fs.readFileSync(path.join(tmpDir, file), "utf-8");
+}
+
+function run(config: A11yConfig, mock: MockProviderOptions = {}, flags: { dryRun?: boolean; noAi?: boolean } = {}) {
+  const resolved = resolveConfig(
+    { provider: "mock", cache: path.join(tmpDir, ".a11y-cache"), providers: { mock }, ...config, i18n: { enabled: true, ...config.i18n } },
+    { fix: true, quiet: true, ...flags }
+  );
+  return scan(path.join(tmpDir, "src"), resolved);
+}
+
+const MOCK: MockProviderOptions = { responses: { MysteryIcon: "Open menu", 'to "pl"': "Otwórz menu" } };
+
+beforeEach(() => {
+  tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "next-a11y-i18n-")));
+  fs.mkdirSync(path.join(tmpDir, "src"));
+  fs.writeFileSync(path.join(tmpDir, "package.json"), "{}");
+  fs.writeFileSync(path.join(tmpDir, "src/Header.tsx"), HEADER);
+  writeJson("messages/en.json", { Header: { title: "Shop" } });
+  writeJson("messages/pl.json", { Header: { title: "Sklep" } });
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("i18n message catalogs", () => {
+  it("adds the label to every catalog and inserts t()", async () => {
+    fs.writeFileSync(
+      path.join(tmpDir, "src/Footer.tsx"),
+      `export function Footer() {\n  return <button><MysteryIcon /></button>;\n}\n`
+    );
+    await run({}, MOCK);
+
+    expect(read("src/Header.tsx")).toContain('<button aria-label={t("a11y.openMenu")} type="button">');
+    expect(readJson("messages/en.json")).toEqual({ Header: { title: "Shop", a11y: { openMenu: "Open menu" } } });
+    expect(readJson("messages/pl.json")).toEqual({ Header: { title: "Sklep", a11y: { openMenu: "Otwórz menu" } } });
+    // Components without a translation function keep literal labels
+    expect(read("src/Footer.tsx")).toContain('aria-label="Open menu"');
+  });
+
+  it("reuses a key with the same message and suffixes one with a different message", async () => {
+    writeJson("messages/en.json", { Header: { a11y: { openMenu: "Open navigation" } } });
+    writeJson("messages/pl.json", {});
+    await run({}, MOCK);
+
+    expect(read("src/Header.tsx")).toContain('aria-label={t("a11y.openMenu2")}');
+    expect(readJson("messages/en.json").Header.a11y).toEqual({ openMenu: "Open navigation", openMenu2: "Open menu" });
+
+    // Second component with the same label shares the new key
+    fs.writeFileSync(path.join(tmpDir, "src/Header.tsx"), HEADER);
+    await run({}, MOCK);
+    expect(read("src/Header.tsx")).toContain('aria-label={t("a11y.openMenu2")}');
+    expect(Object.keys(readJson("messages/en.json").Header.a11y)).toEqual(["openMenu", "openMenu2"]);
+  });
+
+  it("falls back to the default text without AI and honours configured locales", async () => {
+    fs.writeFileSync(path.join(tmpDir, "src/Header.tsx"), HEADER.replace("MysteryIcon", "CartIcon"));
+    await run({ i18n: { locales: ["en", "pl", "de"], keyPrefix: "labels" } }, {}, { noAi: true });
+
+    expect(read("src/Header.tsx")).toContain('aria-label={t("labels.addToCart")}');
+    expect(readJson("messages/pl.json").Header.labels).toEqual({ addToCart: "Add to cart" });
+    expect(read("messages/de.json")).toBe('{\n  "Header": {\n    "labels": {\n      "addToCart": "Add to cart"\n    }\n  }\n}\n');
+  });
+
+  it("includes catalog changes in the dry-run patch without writing them", async () => {
+    const result = await run({}, MOCK, { dryRun: true });
+
+    expect(readJson("messages/en.json")).toEqual({ Header: { title: "Shop" } });
+    expect(result.patch).toContain('+    "a11y": {');
+    expect(result.patch).toContain('+      "openMenu": "Otwórz menu"');
+    expect(result.patch).toContain('<button aria-label={t("a11y.openMenu")} type="button">');
+  });
+
+  it("writes labels inline when a catalog can't take the key", async () => {
+    fs.writeFileSync(path.join(tmpDir, "messages/pl.json"), "{ not json");
+    await run({}, MOCK);
+
+    expect(read("src/Header.tsx")).toContain('aria-label="Open menu"');
+    expect(readJson("messages/en.json")).toEqual({ Header: { title: "Shop" } });
+
+    writeJson("messages/pl.json", {});
+    writeJson("messages/en.json", { Header: { a11y: "Accessibility" } });
+    fs.writeFileSync(path.join(tmpDir, "src/Header.tsx"), HEADER);
+    await run({}, MOCK);
+
+    expect(read("src/Header.tsx")).toContain('aria-label="Open menu"');
+    expect(readJson("messages/pl.json")).toEqual({});
+  });
+
+  it("writes labels inline when disabled", async () => {
+    await run({ i18n: { enabled: false } }, MOCK);
+
+    expect(read("src/Header.tsx")).toContain('aria-label="Open menu"');
+    expect(readJson("messages/en.json")).toEqual({ Header: { title: "Shop" } });
+  });
+
+  it("leaves catalogs alone unless enabled", async () => {
+    const resolved = resolveConfig(
+      { provider: "mock", cache: path.join(tmpDir, ".a11y-cache"), providers: { mock: MOCK } },
+      { fix: true, quiet: true }
+    );
+    await scan(path.join(tmpDir, "src"), resolved);
+
+    expect(read("src/Header.tsx")).toContain('aria-label="Open menu"');
+    expect(readJson("messages/en.json")).toEqual({ Header: { title: "Shop" } });
+  });
+});
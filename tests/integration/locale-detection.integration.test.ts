@@ -5,7 +5,7 @@ import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import * as os from "node:os";
-import { detectLocaleFromProject } from "../../src/config/resolve.js";
+import { detectLocaleFromProject, detectLocalesFromProject } from "../../src/config/resolve.js";
 
 let tmpDir: string;
 
@@ -99,4 +99,18 @@ describe("detectLocaleFromProject", () => {
     const result = await detectLocaleFromProject(projDir);
     expect(result).toBe("en-US");
   });
+
+  it("reads the supported locales from next-intl routing", async () => {
+    const projDir = path.join(tmpDir, "next-intl-routing");
+    fs.mkdirSync(path.join(projDir, "src", "i18n"), { recursive: true });
+    fs.writeFileSync(path.join(projDir, "package.json"), '{"name":"test"}', "utf-8");
+    fs.writeFileSync(
+      path.join(projDir, "src", "i18n", "routing.ts"),
+      `export const routing = defineRouting({\n  locales: ["en", "pl", "de"],\n  defaultLocale: "en",\n});`,
+      "utf-8"
+    );
+    const result = await detectLocalesFromProject(projDir);
+    expect(result).toEqual({ defaultLocale: "en", locales: ["en", "pl", "de"] });
+  });
 });
+
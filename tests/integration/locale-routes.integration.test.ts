@@ -0,0 +1,101 @@
+/**
+ * App Router i18n: app/[locale]/… layouts get `lang` from the route param and
+ * pages get a title per supported locale.
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { detect, scan } from "../../src/scan/scan.js";
+import { resolveConfig } from "../../src/config/resolve.js";
+import { resolveAiFixes } from "../../src/ai/resolve-fixes.js";
+import { estimateTokens } from "../../src/ai/generate.js";
+import type { MockRequest } from "../../src/config/schema.js";
+
+let tmpDir: string;
+
+function write(file: string, content: string) {
+  fs.mkdirSync(path.dirname(path.join(tmpDir, file)), { recursive: true });
+  fs.writeFileSync(path.join(tmpDir, file), content);
+}
+
+function read(file: string) {
+  return fs.readFileSync(path.join(tmpDir, file), "utf-8");
+}
+
+beforeEach(() => {
+  tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "next-a11y-locale-routes-")));
+  write("package.json", "{}");
+  write(
+    "app/[locale]/layout.tsx",
+    `export default async function LocaleLayout({ children, params }) {\n  const { locale } = await params;\n  return (\n    <html>\n      <body>{children}</body>\n    </html>\n  );\n}\n`
+  );
+  write("app/[locale]/about/page.tsx", `export default function About() {\n  return <h1>About</h1>;\n}\n`);
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("[locale] routes", () => {
+  it("sets lang from the param and generates a title per locale", async () => {
+    const requests: MockRequest[] = [];
+    const config = resolveConfig(
+      {
+        provider: "mock",
+        cache: path.join(tmpDir, ".a11y-cache"),
+        i18n: { locales: ["en", "pl"] },
+        providers: {
+          mock: { responses: { "Locale: en": "About us", "Locale: pl": "O nas" }, onRequest: (r) => requests.push(r) },
+        },
+      },
+      { fix: true, quiet: true }
+    );
+    await scan(path.join(tmpDir, "app"), config);
+
+    expect(read("app/[locale]/layout.tsx")).toContain("<html lang={locale}>");
+    const page = read("app/[locale]/about/page.tsx");
+    expect(page).toContain('  "en": "About us",\n  "pl": "O nas",');
+    expect(page).toContain("export async function generateMetadata({ params }: { params: Promise<{ locale: string }> })");
+    expect(page).not.toContain("export const metadata");
+    expect(requests.map((r) => r.prompt.match(/Route: (\S+)/)?.[1])).toEqual(["/about", "/about"]);
+  });
+
+  it("keeps a single static title without other locales", async () => {
+    const config = resolveConfig(
+      { provider: "mock", cache: path.join(tmpDir, ".a11y-cache"), providers: { mock: { responses: { "Locale: en": "About us" } } } },
+      { fix: true, quiet: true }
+    );
+    await scan(path.join(tmpDir, "app"), config);
+
+    expect(read("app/[locale]/about/page.tsx")).toContain('export const metadata = { title: "About us" };');
+  });
+
+  it("counts locale titles past the token budget as skipped", async () => {
+    const requests: MockRequest[] = [];
+    const config = (cache: string, budget?: number) =>
+      resolveConfig(
+        {
+          provider: "mock",
+          cache: path.join(tmpDir, cache),
+          i18n: { locales: ["en", "pl", "de"] },
+          providers: { mock: { responses: { "Locale: en": "About us" }, onRequest: (r) => requests.push(r) } },
+        },
+        { fix: true, quiet: true, budget }
+      );
+    const resolve = async (cfg: ReturnType<typeof config>) => {
+      const ctx = await detect(path.join(tmpDir, "app"), cfg);
+      const summary = await resolveAiFixes({ config: cfg, project: ctx.project, violations: ctx.violations });
+      return { summary, title: ctx.violations.find((v) => v.rule === "next-metadata-title") };
+    };
+
+    await resolve(config(".cache-unlimited"));
+    // Enough for the default locale's title only
+    const budget = estimateTokens(requests[0].system, requests[0].prompt);
+    const { summary, title } = await resolve(config(".cache-budget", budget));
+
+    expect(summary.skippedForBudget).toBe(2);
+    expect(summary.skippedLocalesForBudget).toBe(2);
+    expect(title?.fix?.values).toEqual({ en: "About us" });
+  });
+});
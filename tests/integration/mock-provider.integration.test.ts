@@ -0,0 +1,165 @@
+/**
+ * The built-in mock provider runs the full detect → resolve → apply pipeline
+ * offline: fixture answers, derived labels, recorded prompts and failures.
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { detect, scan } from "../../src/scan/scan.js";
+import { prepareAiRequest } from "../../src/ai/resolve-fixes.js";
+import { resolveConfig } from "../../src/config/resolve.js";
+import type { A11yConfig, MockProviderOptions, MockRequest } from "../../src/config/schema.js";
+
+let tmpDir: string;
+
+function writePage(body: string) {
+  fs.writeFileSync(
+    path.join(tmpDir, "src/Page.tsx"),
+    `export function Page() {\n  return (\n    <div>\n${body}\n    </div>\n  );\n}\n`
+  );
+}
+
+function readPage() {
+  return fs.readFileSync(path.join(tmpDir, "src/Page.tsx"), "utf-8");
+}
+
+function run(mock: MockProviderOptions, prompts?: A11yConfig["prompts"]) {
+  const config = resolveConfig(
+    { provider: "mock", cache: path.join(tmpDir, ".a11y-cache"), providers: { mock }, prompts },
+    { fix: true, quiet: true }
+  );
+  return scan(path.join(tmpDir, "src"), config);
+}
+
+beforeEach(() => {
+  tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "next-a11y-mock-")));
+  fs.mkdirSync(path.join(tmpDir, "src"));
+  fs.mkdirSync(path.join(tmpDir, "public"));
+  fs.writeFileSync(path.join(tmpDir, "package.json"), "{}");
+  fs.writeFileSync(path.join(tmpDir, "public/hero.png"), Buffer.from("fake png bytes"));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("mock provider", () => {
+  it("applies fixture and derived answers and records prompts", async () => {
+    writePage(`      <img src="/hero.png" />
+      <button><MysteryIcon /></button>
+      <button><RocketLaunchIcon /></button>`);
+    const requests: MockRequest[] = [];
+    await run({ responses: { MysteryIcon: "Open surprise" }, onRequest: (r) => requests.push(r) });
+
+    const page = readPage();
+    expect(page).toContain('<img src="/hero.png" alt="Image in Page" />');
+    expect(page).toContain('<button aria-label="Open surprise" type="button"><MysteryIcon />');
+    expect(page).toContain('<button aria-label="Rocket launch" type="button"><RocketLaunchIcon />');
+    expect(requests).toHaveLength(3);
+    expect(requests.filter((r) => r.hasImage)).toHaveLength(1);
+    expect(requests.every((r) => r.system.length > 0)).toBe(true);
+  });
+
+  it("labels standalone svgs and hides decorative ones", async () => {
+    writePage(`      <svg viewBox="0 0 100 40"><text>Q1</text></svg>
+      <p><svg viewBox="0 0 24 24" />New</p>`);
+    const requests: MockRequest[] = [];
+    await run({ responses: { "Text inside: Q1": "Quarterly revenue chart" }, onRequest: (r) => requests.push(r) });
+
+    const page = readPage();
+    expect(page).toContain('<svg viewBox="0 0 100 40" role="img" aria-label="Quarterly revenue chart">');
+    expect(page).toContain('<svg viewBox="0 0 24 24" aria-hidden="true" />');
+    expect(requests).toHaveLength(1);
+  });
+
+  it("describes the svg itself when it shares a line with its wrapper", async () => {
+    writePage(`      <div className="brand"><svg className="acme-logo"><path d="M0 0" /></svg></div>`);
+    const requests: MockRequest[] = [];
+    await run({ onRequest: (r) => requests.push(r) });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].prompt).toContain("Graphic name: AcmeLogo");
+    expect(requests[0].prompt).toContain(`Markup: <svg className="acme-logo">`);
+  });
+
+  it("describes the iframe's src when it shares a line with its wrapper", async () => {
+    writePage(`      <section className="video"><iframe src="https://www.youtube.com/embed/abc"></iframe></section>`);
+    const requests: MockRequest[] = [];
+    await run({ onRequest: (r) => requests.push(r) });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].prompt).toContain("Host: www.youtube.com");
+    expect(requests[0].prompt).toContain("Path: /embed/abc");
+  });
+
+  it("describes each image when two share a line", async () => {
+    fs.writeFileSync(path.join(tmpDir, "public/team.png"), Buffer.from("other png bytes"));
+    writePage(`      <img src="/hero.png" /><img src="/team.png" />`);
+    const config = resolveConfig({ provider: "mock", cache: path.join(tmpDir, ".a11y-cache") }, { fix: true, quiet: true });
+    const ctx = await detect(path.join(tmpDir, "src"), config);
+    const file = ctx.project.getSourceFileOrThrow(path.join(tmpDir, "src/Page.tsx"));
+
+    const images = ctx.violations.filter((v) => v.rule === "img-alt");
+    const sources = await Promise.all(
+      images.map(async (v) => (await prepareAiRequest(ctx.project, file, v, config))?.source)
+    );
+    expect(sources).toEqual([path.join(tmpDir, "public/hero.png"), path.join(tmpDir, "public/team.png")]);
+  });
+
+  it("leaves failed requests to the deterministic fallback", async () => {
+    writePage(`      <img src="/hero.png" />
+      <button><MysteryIcon /></button>`);
+    const result = await run({
+      responses: { MysteryIcon: "Open surprise" },
+      failures: { MysteryIcon: "error", Page: "error" },
+    });
+
+    const page = readPage();
+    expect(page).not.toContain("alt=");
+    expect(page).not.toContain("Open surprise");
+    expect(result.violations.map((v) => v.rule)).toContain("img-alt");
+  });
+
+  it("retries a transient rate limit", async () => {
+    writePage(`      <button><MysteryIcon /></button>`);
+    const requests: MockRequest[] = [];
+    await run({
+      responses: { MysteryIcon: "Open surprise" },
+      failures: { MysteryIcon: { type: "rate-limit", times: 1 } },
+      onRequest: (r) => requests.push(r),
+    });
+
+    expect(readPage()).toContain('aria-label="Open surprise"');
+    expect(requests).toHaveLength(2);
+  });
+
+  it("times out a request that never answers", async () => {
+    writePage(`      <img src="/hero.png" />`);
+    const requests: MockRequest[] = [];
+    await run({ failures: { Page: "timeout" }, timeout: 20, onRequest: (r) => requests.push(r) });
+
+    expect(readPage()).not.toContain("alt=");
+    // One attempt plus two retries
+    expect(requests).toHaveLength(3);
+  });
+
+  it("sends custom prompts and regenerates values cached with other prompts", async () => {
+    const page = `      <button><MysteryIcon /></button>
+      <button><CartIcon /></button>`;
+    writePage(page);
+    await run({});
+
+    writePage(page);
+    const requests: MockRequest[] = [];
+    await run(
+      { responses: { CartIcon: "Add to bag" }, onRequest: (r) => requests.push(r) },
+      { "*": { glossary: { cart: "bag" } } }
+    );
+
+    // Nothing served from the first run's cache; CartIcon skips its built-in label
+    expect(requests).toHaveLength(2);
+    expect(requests[0].system).toContain('- "bag", not "cart"');
+    expect(readPage()).toContain('aria-label="Add to bag"');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Watch mode: incremental re-scan of changed files on an in-memory Project.
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { detect } from "../../src/scan/scan.js";
+import { rescanFiles } from "../../src/scan/watch.js";
+import { resolveConfig } from "../../src/config/resolve.js";
+
+let tmpDir: string;
+
+function write(file: string, content: string): string {
+  const filePath = path.join(tmpDir, file);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+function config() {
+  return resolveConfig(
+    {
+      scanner: { include: ["**/*.tsx"], exclude: [] },
+      cache: path.join(tmpDir, ".a11y-cache"),
+    },
+    { noAi: true, quiet: true }
+  );
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "next-a11y-watch-"));
+  write("src/Nav.tsx", `export function Nav() {\n  return <button>Menu</button>;\n}\n`);
+  write("src/Footer.tsx", `export function Footer() {\n  return <a href="/x" target="_blank">X</a>;\n}\n`);
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("rescanFiles", () => {
+  it("reports introduced and resolved violations for a changed file", async () => {
+    const ctx = await detect(tmpDir, config());
+    const navPath = path.join(tmpDir, "src/Nav.tsx");
+    expect(ctx.violations.filter((v) => v.filePath === navPath).map((v) => v.rule)).toEqual(["button-type"]);
+
+    write("src/Nav.tsx", `export function Nav() {\n  return <button type="button">Menu</button>;\n}\n`);
+    const first = rescanFiles(ctx, [navPath]);
+    expect(first.files).toEqual([navPath]);
+    expect(first.introduced).toEqual([]);
+    expect(first.resolved.map((v) => v.rule)).toEqual(["button-type"]);
+
+    write("src/Nav.tsx", `export function Nav() {\n  return <button type="button" tabIndex={3}>Menu</button>;\n}\n`);
+    const second = rescanFiles(ctx, [navPath]);
+    expect(second.introduced.map((v) => v.rule)).toEqual(["no-positive-tabindex"]);
+    expect(second.resolved).toEqual([]);
+
+    // Other files keep their violations
+    expect(ctx.violations.some((v) => v.rule === "link-noopener")).toBe(true);
+  });
+
+  it("treats line shifts as no change", async () => {
+    const ctx = await detect(tmpDir, config());
+    const navPath = write("src/Nav.tsx", `// header\n\nexport function Nav() {\n  return <button>Menu</button>;\n}\n`);
+
+    const diff = rescanFiles(ctx, [navPath]);
+    expect(diff.files).toEqual([navPath]);
+    expect(diff.introduced).toEqual([]);
+    expect(diff.resolved).toEqual([]);
+    expect(ctx.violations.find((v) => v.filePath === navPath)?.line).toBe(4);
+  });
+
+  it("picks up new files and drops deleted ones", async () => {
+    const ctx = await detect(tmpDir, config());
+    const filesBefore = ctx.filesScanned;
+
+    const newPath = write("src/Card.tsx", `export function Card() {\n  return <button>Open</button>;\n}\n`);
+    const ignored = write("src/notes.md", "# notes\n");
+    const added = rescanFiles(ctx, [newPath, ignored]);
+    expect(added.files).toEqual([newPath]);
+    expect(added.introduced.map((v) => v.rule)).toEqual(["button-type"]);
+    expect(ctx.filesScanned).toBe(filesBefore + 1);
+
+    const footerPath = path.join(tmpDir, "src/Footer.tsx");
+    fs.rmSync(footerPath);
+    const removed = rescanFiles(ctx, [footerPath]);
+    expect(removed.resolved.map((v) => v.rule)).toEqual(["link-noopener"]);
+    expect(ctx.project.getSourceFile(footerPath)).toBeUndefined();
+    expect(ctx.filesScanned).toBe(filesBefore);
+  });
+
+  it("skips files whose content did not change", async () => {
+    const ctx = await detect(tmpDir, config());
+    const diff = rescanFiles(ctx, [path.join(tmpDir, "src/Nav.tsx")]);
+    expect(diff.files).toEqual([]);
+  });
+});